@@ -8,6 +8,10 @@ import Dashboard from "@/pages/dashboard";
 import Profile from "@/pages/profile";
 import Schedules from "@/pages/schedules";
 import PrintReport from "@/pages/print-report";
+import VspcInstances from "@/pages/vspc-instances";
+import Collection from "@/pages/collection";
+import Companies from "@/pages/companies";
+import Users from "@/pages/users";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -17,6 +21,10 @@ function Router() {
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/profile" component={Profile} />
       <Route path="/agendamentos" component={Schedules} />
+      <Route path="/instancias-vspc" component={VspcInstances} />
+      <Route path="/coleta" component={Collection} />
+      <Route path="/empresas" component={Companies} />
+      <Route path="/usuarios" component={Users} />
       <Route path="/report/print/:companyId" component={PrintReport} />
       <Route component={NotFound} />
     </Switch>
@@ -1,5 +1,7 @@
-import { useState, useMemo } from "react";
-import { Shield, LogOut, Calendar, User, Check, ChevronsUpDown } from "lucide-react";
+import { useState, useMemo, useEffect } from "react";
+import { Shield, LogOut, Calendar, User, Check, ChevronsUpDown, Server, RefreshCw, History, Building2, Users } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import {
@@ -32,8 +34,15 @@ interface DashboardHeaderProps {
   selectedCompany: string;
   onCompanyChange: (companyId: string) => void;
   userName: string;
+  userLogin: string;
+  isAdmin: boolean;
+  canOperate: boolean;
+  companyLocked: boolean;
   onLogout: () => void;
   onScheduleClick: () => void;
+  dataFetchedAt?: string | null;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
 }
 
 export function DashboardHeader({
@@ -41,11 +50,25 @@ export function DashboardHeader({
   selectedCompany,
   onCompanyChange,
   userName,
+  userLogin,
+  isAdmin,
+  canOperate,
+  companyLocked,
   onLogout,
   onScheduleClick,
+  dataFetchedAt,
+  onRefresh,
+  isRefreshing,
 }: DashboardHeaderProps) {
   const [, setLocation] = useLocation();
   const [open, setOpen] = useState(false);
+  const [, setTick] = useState(0);
+
+  // Re-render every minute so "atualizado há X min" keeps counting
+  useEffect(() => {
+    const interval = setInterval(() => setTick((t) => t + 1), 60000);
+    return () => clearInterval(interval);
+  }, []);
   
   const initials = userName
     .split(" ")
@@ -54,11 +77,22 @@ export function DashboardHeader({
     .toUpperCase()
     .slice(0, 2);
 
-  // Sort companies alphabetically
-  const sortedCompanies = useMemo(() => {
-    return [...companies].sort((a, b) => 
-      a.name.localeCompare(b.name, 'pt-BR', { sensitivity: 'base' })
-    );
+  // Group companies by VSPC instance, each group sorted alphabetically
+  const companyGroups = useMemo(() => {
+    const groups = new Map<string, VeeamCompany[]>();
+    for (const company of companies) {
+      const instanceName = company.vspcInstanceName || "";
+      groups.set(instanceName, [...(groups.get(instanceName) || []), company]);
+    }
+
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b, 'pt-BR', { sensitivity: 'base' }))
+      .map(([instanceName, groupCompanies]) => ({
+        instanceName,
+        companies: groupCompanies.sort((a, b) =>
+          a.name.localeCompare(b.name, 'pt-BR', { sensitivity: 'base' })
+        ),
+      }));
   }, [companies]);
 
   const selectedCompanyData = companies.find((c) => c.instanceUid === selectedCompany);
@@ -78,6 +112,28 @@ export function DashboardHeader({
           </div>
 
           <div className="flex items-center gap-3">
+            {selectedCompany && (
+              <div className="hidden md:flex items-center gap-1">
+                {dataFetchedAt && (
+                  <span className="text-xs text-muted-foreground" data-testid="text-data-age">
+                    Atualizado {formatDistanceToNow(new Date(dataFetchedAt), { addSuffix: true, locale: ptBR })}
+                  </span>
+                )}
+                {onRefresh && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={onRefresh}
+                    disabled={isRefreshing}
+                    title="Atualizar agora"
+                    data-testid="button-refresh-data"
+                  >
+                    <RefreshCw className={cn("w-4 h-4", isRefreshing && "animate-spin")} />
+                  </Button>
+                )}
+              </div>
+            )}
+
             <Button
               variant="outline"
               size="sm"
@@ -96,12 +152,13 @@ export function DashboardHeader({
                   role="combobox"
                   aria-expanded={open}
                   className="w-[220px] justify-between"
+                  disabled={companyLocked}
                   data-testid="select-company"
                 >
                   <span className="truncate">
                     {selectedCompanyData?.name || "Selecione o cliente"}
                   </span>
-                  <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+                  {!companyLocked && <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />}
                 </Button>
               </PopoverTrigger>
               <PopoverContent className="w-[280px] p-0" align="end">
@@ -112,30 +169,35 @@ export function DashboardHeader({
                   />
                   <CommandList>
                     <CommandEmpty>Nenhum cliente encontrado.</CommandEmpty>
-                    <CommandGroup>
-                      {sortedCompanies.map((company) => (
-                        <CommandItem
-                          key={company.instanceUid}
-                          value={company.name}
-                          onSelect={() => {
-                            onCompanyChange(company.instanceUid);
-                            setOpen(false);
-                          }}
-                          className="cursor-pointer"
-                          data-testid={`select-company-${company.instanceUid}`}
-                        >
-                          <Check
-                            className={cn(
-                              "mr-2 h-4 w-4",
-                              selectedCompany === company.instanceUid
-                                ? "opacity-100"
-                                : "opacity-0"
-                            )}
-                          />
-                          {company.name}
-                        </CommandItem>
-                      ))}
-                    </CommandGroup>
+                    {companyGroups.map((group) => (
+                      <CommandGroup
+                        key={group.instanceName}
+                        heading={companyGroups.length > 1 ? group.instanceName : undefined}
+                      >
+                        {group.companies.map((company) => (
+                          <CommandItem
+                            key={company.instanceUid}
+                            value={`${company.name} ${company.instanceUid}`}
+                            onSelect={() => {
+                              onCompanyChange(company.instanceUid);
+                              setOpen(false);
+                            }}
+                            className="cursor-pointer"
+                            data-testid={`select-company-${company.instanceUid}`}
+                          >
+                            <Check
+                              className={cn(
+                                "mr-2 h-4 w-4",
+                                selectedCompany === company.instanceUid
+                                  ? "opacity-100"
+                                  : "opacity-0"
+                              )}
+                            />
+                            {company.name}
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    ))}
                   </CommandList>
                 </Command>
               </PopoverContent>
@@ -155,7 +217,7 @@ export function DashboardHeader({
                 <DropdownMenuLabel className="font-normal">
                   <div className="flex flex-col space-y-1">
                     <p className="text-sm font-medium">{userName}</p>
-                    <p className="text-xs text-muted-foreground">login@sistema.com</p>
+                    <p className="text-xs text-muted-foreground">{userLogin}</p>
                   </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
@@ -167,6 +229,46 @@ export function DashboardHeader({
                   <User className="w-4 h-4 mr-2" />
                   Perfil
                 </DropdownMenuItem>
+                {isAdmin && (
+                  <DropdownMenuItem 
+                    onClick={() => setLocation("/instancias-vspc")} 
+                    data-testid="button-vspc-instances"
+                    className="cursor-pointer"
+                  >
+                    <Server className="w-4 h-4 mr-2" />
+                    Instâncias VSPC
+                  </DropdownMenuItem>
+                )}
+                {isAdmin && (
+                  <DropdownMenuItem 
+                    onClick={() => setLocation("/empresas")} 
+                    data-testid="button-companies"
+                    className="cursor-pointer"
+                  >
+                    <Building2 className="w-4 h-4 mr-2" />
+                    Empresas
+                  </DropdownMenuItem>
+                )}
+                {isAdmin && (
+                  <DropdownMenuItem 
+                    onClick={() => setLocation("/usuarios")} 
+                    data-testid="button-users"
+                    className="cursor-pointer"
+                  >
+                    <Users className="w-4 h-4 mr-2" />
+                    Usuários
+                  </DropdownMenuItem>
+                )}
+                {canOperate && (
+                  <DropdownMenuItem 
+                    onClick={() => setLocation("/coleta")} 
+                    data-testid="button-collection"
+                    className="cursor-pointer"
+                  >
+                    <History className="w-4 h-4 mr-2" />
+                    Coleta de Histórico
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem 
                   onClick={onLogout} 
                   data-testid="button-logout"
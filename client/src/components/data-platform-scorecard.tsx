@@ -15,9 +15,12 @@ interface DataPlatformScorecardProps {
   statusMessage: string;
   jobSessions: ScorecardMetric;
   platformHealth: ScorecardMetric;
+  rpoCompliance: ScorecardMetric;
+  // Opens the list of workloads outside the RPO target
+  onRpoDetail?: () => void;
 }
 
-function MetricDonut({ metric }: { metric: ScorecardMetric }) {
+function MetricDonut({ metric, onDetail }: { metric: ScorecardMetric; onDetail?: () => void }) {
   const data = [
     { name: 'OK', value: metric.okCount },
     { name: 'Issues', value: metric.issueCount },
@@ -63,7 +66,7 @@ function MetricDonut({ metric }: { metric: ScorecardMetric }) {
           </span>
         </div>
         <p className="text-sm font-medium truncate">{metric.title}</p>
-        <button className="mt-1" data-testid={`btn-detail-${metric.title.toLowerCase().replace(/\s+/g, '-')}`}>
+        <button className="mt-1" onClick={onDetail} data-testid={`btn-detail-${metric.title.toLowerCase().replace(/\s+/g, '-')}`}>
           <FileText className="w-4 h-4 text-muted-foreground hover:text-foreground" />
         </button>
       </div>
@@ -77,6 +80,8 @@ export function DataPlatformScorecard({
   statusMessage,
   jobSessions,
   platformHealth,
+  rpoCompliance,
+  onRpoDetail,
 }: DataPlatformScorecardProps) {
   const getStatusColor = () => {
     switch (status) {
@@ -162,6 +167,7 @@ export function DataPlatformScorecard({
           <div className="flex flex-col gap-3">
             <MetricDonut metric={jobSessions} />
             <MetricDonut metric={platformHealth} />
+            <MetricDonut metric={rpoCompliance} onDetail={onRpoDetail} />
           </div>
         </div>
       </CardContent>
@@ -0,0 +1,57 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, FlaskConical } from "lucide-react";
+import type { DataStatus } from "@shared/schema";
+
+interface DataStatusBannerProps {
+  status?: DataStatus;
+  // Errors of the dashboard queries themselves (e.g. "504: {...}")
+  queryErrors: (Error | null)[];
+}
+
+// Query errors come as "<status>: <body>"; show the API's message when the body is JSON
+function getErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
+export function DataStatusBanner({ status, queryErrors }: DataStatusBannerProps) {
+  if (status?.mode === "demo") {
+    return (
+      <Alert data-testid="banner-demo-mode">
+        <FlaskConical className="h-4 w-4" />
+        <AlertTitle>Modo demonstração</AlertTitle>
+        <AlertDescription>
+          Os dados exibidos são fictícios. Configure uma instância VSPC para ver os dados reais dos clientes.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const messages = Array.from(new Set(
+    queryErrors
+      .filter((error): error is Error => !!error)
+      .map(getErrorMessage)
+  ));
+
+  if (messages.length === 0 && !status?.degraded) {
+    return null;
+  }
+
+  return (
+    <Alert variant="destructive" data-testid="banner-degraded-data">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {messages.length > 0 ? "Falha ao consultar o VSPC" : "Dados possivelmente desatualizados"}
+      </AlertTitle>
+      <AlertDescription>
+        {messages.length > 0
+          ? messages.join(" ")
+          : "Não foi possível atualizar os dados do VSPC; os valores exibidos são da última consulta bem-sucedida."}
+      </AlertDescription>
+    </Alert>
+  );
+}
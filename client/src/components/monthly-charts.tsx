@@ -1,19 +1,52 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell, LabelList } from "recharts";
-
-interface MonthlyData {
-  month: string;
-  errors: number;
-  warnings: number;
-  successRate: number;
-}
+import type { MonthlyChartData, MonthlyStatsValues } from "@shared/schema";
 
 interface MonthlyChartsProps {
-  data: MonthlyData[];
+  data: MonthlyChartData[];
   isLoading?: boolean;
+  // Calendar year shown, or null for the last 12 months
+  year?: number | null;
+  onYearChange?: (year: number | null) => void;
+  // Adds the same months of the previous year to both charts
+  compare?: boolean;
+  onCompareChange?: (compare: boolean) => void;
+}
+
+const SERIES_LABELS: Record<string, string> = {
+  errors: 'Erros',
+  warnings: 'Avisos',
+  previousErrors: 'Erros (ano anterior)',
+  previousWarnings: 'Avisos (ano anterior)',
+  successRate: 'Taxa de Sucesso',
+  previousSuccessRate: 'Ano anterior',
+};
+
+// Success rate of the whole window, weighted by the number of sessions of each month
+function getOverallSuccessRate(months: MonthlyStatsValues[]): number | null {
+  const total = months.reduce((sum, m) => sum + m.totalCount, 0);
+  if (total === 0) return null;
+  const success = months.reduce((sum, m) => sum + m.totalCount - m.errors - m.warnings, 0);
+  return Math.round((success / total) * 1000) / 10;
 }
 
-export function MonthlyCharts({ data, isLoading }: MonthlyChartsProps) {
+export function MonthlyCharts({
+  data,
+  isLoading,
+  year = null,
+  onYearChange,
+  compare = false,
+  onCompareChange,
+}: MonthlyChartsProps) {
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -41,133 +74,223 @@ export function MonthlyCharts({ data, isLoading }: MonthlyChartsProps) {
     );
   }
 
-  const months = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
-  
-  const currentMonth = new Date().getMonth();
-  const chartData = months.map((month, index) => {
-    const monthData = data.find(d => d.month === month);
-    return {
-      month,
-      errors: monthData?.errors || 0,
-      warnings: monthData?.warnings || 0,
-      successRate: monthData?.successRate || 0,
-      hasData: !!monthData && monthData.successRate > 0,
-    };
-  });
+  const chartData = data.map((monthData) => ({
+    month: monthData.month,
+    errors: monthData.errors,
+    warnings: monthData.warnings,
+    successRate: monthData.successRate,
+    hasData: monthData.totalCount > 0,
+    previousErrors: monthData.previous.errors,
+    previousWarnings: monthData.previous.warnings,
+    previousSuccessRate: monthData.previous.successRate,
+  }));
+
+  const currentRate = getOverallSuccessRate(data);
+  const previousRate = getOverallSuccessRate(data.map((m) => m.previous));
+  const rateDelta = currentRate !== null && previousRate !== null
+    ? Math.round((currentRate - previousRate) * 10) / 10
+    : null;
+
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
 
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-      <Card data-testid="card-triggered-alarms">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-base font-medium">Alarmes Disparados (Todos os Sites)</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <ResponsiveContainer width="100%" height={200}>
-            <LineChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-              <XAxis 
-                dataKey="month" 
-                tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
-                axisLine={{ stroke: 'hsl(var(--border))' }}
-                tickLine={false}
-              />
-              <YAxis 
-                tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
-                axisLine={{ stroke: 'hsl(var(--border))' }}
-                tickLine={false}
-                label={{ value: 'Alarmes', angle: -90, position: 'insideLeft', style: { fontSize: 11, fill: 'hsl(var(--muted-foreground))' } }}
-              />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'hsl(var(--card))', 
-                  border: '1px solid hsl(var(--border))',
-                  borderRadius: '6px',
-                  fontSize: '12px'
-                }}
-              />
-              <Legend 
-                wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}
-                formatter={(value) => value === 'errors' ? 'Erros' : 'Avisos'}
-              />
-              <Line 
-                type="monotone" 
-                dataKey="errors" 
-                stroke="#EF4444" 
-                strokeWidth={2}
-                dot={{ fill: '#EF4444', strokeWidth: 2, r: 4 }}
-                activeDot={{ r: 6 }}
-                name="errors"
-              />
-              <Line 
-                type="monotone" 
-                dataKey="warnings" 
-                stroke="#F59E0B" 
-                strokeWidth={2}
-                dot={{ fill: '#F59E0B', strokeWidth: 2, r: 4 }}
-                activeDot={{ r: 6 }}
-                name="warnings"
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          {onYearChange ? (
+            <Select
+              value={year ? String(year) : "rolling"}
+              onValueChange={(value) => onYearChange(value === "rolling" ? null : parseInt(value, 10))}
+            >
+              <SelectTrigger className="h-8 w-[170px]" data-testid="select-monthly-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="rolling">Últimos 12 meses</SelectItem>
+                {years.map((y) => (
+                  <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <span className="text-sm font-medium">{year ? year : "Últimos 12 meses"}</span>
+          )}
+          {onCompareChange && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="monthly-compare"
+                checked={compare}
+                onCheckedChange={onCompareChange}
+                data-testid="switch-monthly-compare"
               />
-            </LineChart>
-          </ResponsiveContainer>
-        </CardContent>
-      </Card>
+              <Label htmlFor="monthly-compare" className="text-sm">Comparar com ano anterior</Label>
+            </div>
+          )}
+        </div>
+        {currentRate !== null && (
+          <p className="text-sm text-muted-foreground" data-testid="text-yoy-summary">
+            Taxa de sucesso no período: <span className="font-medium text-foreground">{currentRate}%</span>
+            {rateDelta !== null && (
+              <span className={rateDelta >= 0 ? "text-emerald-600 ml-2" : "text-red-600 ml-2"}>
+                {rateDelta >= 0 ? "▲" : "▼"} {Math.abs(rateDelta)} p.p. vs. ano anterior ({previousRate}%)
+              </span>
+            )}
+          </p>
+        )}
+      </div>
 
-      <Card data-testid="card-success-ratio">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-base font-medium">Taxa de Sucesso de Backup (%)</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <ResponsiveContainer width="100%" height={200}>
-            <BarChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-              <XAxis 
-                dataKey="month" 
-                tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
-                axisLine={{ stroke: 'hsl(var(--border))' }}
-                tickLine={false}
-              />
-              <YAxis 
-                domain={[0, 100]}
-                tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
-                axisLine={{ stroke: 'hsl(var(--border))' }}
-                tickLine={false}
-                label={{ value: 'Taxa %', angle: -90, position: 'insideLeft', style: { fontSize: 11, fill: 'hsl(var(--muted-foreground))' } }}
-              />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'hsl(var(--card))', 
-                  border: '1px solid hsl(var(--border))',
-                  borderRadius: '6px',
-                  fontSize: '12px'
-                }}
-                formatter={(value: number) => [`${value}%`, 'Taxa de Sucesso']}
-              />
-              <Bar 
-                dataKey="successRate" 
-                radius={[4, 4, 0, 0]}
-                maxBarSize={40}
-              >
-                {chartData.map((entry, index) => (
-                  <Cell 
-                    key={`cell-${index}`} 
-                    fill={entry.hasData ? '#22C3E6' : 'hsl(var(--muted))'}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card data-testid="card-triggered-alarms">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-medium">Alarmes Disparados (Todos os Sites)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={200}>
+              <LineChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis 
+                  dataKey="month" 
+                  tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                  tickLine={false}
+                />
+                <YAxis 
+                  tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                  tickLine={false}
+                  label={{ value: 'Alarmes', angle: -90, position: 'insideLeft', style: { fontSize: 11, fill: 'hsl(var(--muted-foreground))' } }}
+                />
+                <Tooltip 
+                  contentStyle={{ 
+                    backgroundColor: 'hsl(var(--card))', 
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '6px',
+                    fontSize: '12px'
+                  }}
+                />
+                <Legend 
+                  wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}
+                  formatter={(value) => SERIES_LABELS[value] || value}
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="errors" 
+                  stroke="#EF4444" 
+                  strokeWidth={2}
+                  dot={{ fill: '#EF4444', strokeWidth: 2, r: 4 }}
+                  activeDot={{ r: 6 }}
+                  name="errors"
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="warnings" 
+                  stroke="#F59E0B" 
+                  strokeWidth={2}
+                  dot={{ fill: '#F59E0B', strokeWidth: 2, r: 4 }}
+                  activeDot={{ r: 6 }}
+                  name="warnings"
+                />
+                {compare && (
+                  <Line 
+                    type="monotone" 
+                    dataKey="previousErrors" 
+                    stroke="#FCA5A5" 
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    name="previousErrors"
                   />
-                ))}
-                <LabelList 
-                  dataKey="successRate" 
-                  position="top" 
-                  formatter={(value: number) => value > 0 ? `${value}%` : ''}
-                  style={{ 
-                    fontSize: 10, 
-                    fill: 'hsl(var(--foreground))',
-                    fontWeight: 500
+                )}
+                {compare && (
+                  <Line 
+                    type="monotone" 
+                    dataKey="previousWarnings" 
+                    stroke="#FCD34D" 
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    name="previousWarnings"
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card data-testid="card-success-ratio">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base font-medium">Taxa de Sucesso de Backup (%)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis 
+                  dataKey="month" 
+                  tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                  tickLine={false}
+                />
+                <YAxis 
+                  domain={[0, 100]}
+                  tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                  axisLine={{ stroke: 'hsl(var(--border))' }}
+                  tickLine={false}
+                  label={{ value: 'Taxa %', angle: -90, position: 'insideLeft', style: { fontSize: 11, fill: 'hsl(var(--muted-foreground))' } }}
+                />
+                <Tooltip 
+                  contentStyle={{ 
+                    backgroundColor: 'hsl(var(--card))', 
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '6px',
+                    fontSize: '12px'
                   }}
+                  formatter={(value: number, name: string) => [`${value}%`, SERIES_LABELS[name] || name]}
                 />
-              </Bar>
-            </BarChart>
-          </ResponsiveContainer>
-        </CardContent>
-      </Card>
+                {compare && (
+                  <Legend 
+                    wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}
+                    formatter={(value) => SERIES_LABELS[value] || value}
+                  />
+                )}
+                {compare && (
+                  <Bar 
+                    dataKey="previousSuccessRate" 
+                    name="previousSuccessRate"
+                    fill="#94A3B8"
+                    radius={[4, 4, 0, 0]}
+                    maxBarSize={40}
+                  />
+                )}
+                <Bar 
+                  dataKey="successRate" 
+                  name="successRate"
+                  radius={[4, 4, 0, 0]}
+                  maxBarSize={40}
+                >
+                  {chartData.map((entry, index) => (
+                    <Cell 
+                      key={`cell-${index}`} 
+                      fill={entry.hasData ? '#22C3E6' : 'hsl(var(--muted))'}
+                    />
+                  ))}
+                  <LabelList 
+                    dataKey="successRate" 
+                    position="top" 
+                    formatter={(value: number) => value > 0 ? `${value}%` : ''}
+                    style={{ 
+                      fontSize: 10, 
+                      fill: 'hsl(var(--foreground))',
+                      fontWeight: 500
+                    }}
+                  />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
@@ -1,5 +1,8 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts";
+import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine } from "recharts";
+import { format, parseISO, differenceInCalendarDays } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { CapacityTrend } from "@shared/schema";
 
 interface ProtectedWorkload {
   name: string;
@@ -10,9 +13,121 @@ interface ProtectedWorkload {
 
 interface ProtectedDataOverviewProps {
   workloads: ProtectedWorkload[];
+  // Capacity history and forecast; the trend section is hidden without it
+  capacity?: CapacityTrend | null;
 }
 
-export function ProtectedDataOverview({ workloads }: ProtectedDataOverviewProps) {
+// Forecasts crossing the contracted storage sooner than this are highlighted
+const EXCEED_WARNING_DAYS = 90;
+
+function formatDay(day: string) {
+  return format(parseISO(day), "dd/MM/yyyy", { locale: ptBR });
+}
+
+function CapacityTrendChart({ capacity, formatSize }: { capacity: CapacityTrend; formatSize: (sizeGB: number) => string }) {
+  if (!capacity.hasData) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-capacity-empty">
+        O histórico de capacidade é registrado uma vez por dia pela coleta automática e aparecerá aqui a partir da próxima coleta.
+      </p>
+    );
+  }
+
+  const last = capacity.history[capacity.history.length - 1];
+  // The forecast line starts at the last measured day so both series connect
+  const chartData = [
+    ...capacity.history.map((point) => ({
+      date: point.date,
+      sizeGB: point.totalSizeGB,
+      forecastGB: point.date === last.date && capacity.forecast.length > 0 ? point.totalSizeGB : undefined,
+    })),
+    ...capacity.forecast.map((point) => ({ date: point.date, sizeGB: undefined, forecastGB: point.sizeGB })),
+  ];
+
+  const alreadyExceeded = capacity.exceedsOn !== null && capacity.exceedsOn === last.date;
+  const daysToExceed = capacity.exceedsOn ? differenceInCalendarDays(parseISO(capacity.exceedsOn), parseISO(last.date)) : null;
+
+  let forecastMessage: string;
+  let forecastClass = "text-muted-foreground";
+  if (capacity.method === null) {
+    forecastMessage = "Histórico insuficiente para previsão (mínimo de 14 dias).";
+  } else if (capacity.contractedGB === null) {
+    forecastMessage = "Sem armazenamento contratado definido: configure em Empresas para prever quando será atingido.";
+  } else if (alreadyExceeded) {
+    forecastMessage = "O uso atual já excede o armazenamento contratado.";
+    forecastClass = "text-red-600 font-medium";
+  } else if (capacity.exceedsOn) {
+    forecastMessage = `Previsão de atingir o armazenamento contratado em ${formatDay(capacity.exceedsOn)} (${daysToExceed} dias).`;
+    forecastClass = daysToExceed !== null && daysToExceed <= EXCEED_WARNING_DAYS ? "text-amber-600 font-medium" : "text-foreground";
+  } else {
+    forecastMessage = "Sem previsão de atingir o armazenamento contratado nos próximos 24 meses.";
+  }
+
+  return (
+    <div className="space-y-3" data-testid="capacity-trend">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h4 className="text-sm font-medium">Crescimento dos Dados Protegidos</h4>
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+          {capacity.growthGBPerMonth !== null && (
+            <span data-testid="text-capacity-growth">
+              Crescimento: {capacity.growthGBPerMonth >= 0 ? "+" : "-"}{formatSize(Math.abs(capacity.growthGBPerMonth))}/mês
+            </span>
+          )}
+          {capacity.contractedGB !== null && (
+            <span data-testid="text-capacity-contracted">
+              Contratado: {formatSize(capacity.contractedGB)}
+              {capacity.contractedSource === "quota" ? " (cota Cloud Connect)" : ""}
+            </span>
+          )}
+        </div>
+      </div>
+      <ResponsiveContainer width="100%" height={220}>
+        <LineChart data={chartData} margin={{ top: 10, right: 10, left: 10, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickFormatter={(day: string) => format(parseISO(day), "MMM/yy", { locale: ptBR })}
+            tick={{ fontSize: 11, fill: '#6B7280' }}
+            axisLine={{ stroke: '#E5E7EB' }}
+            tickLine={false}
+            minTickGap={40}
+          />
+          <YAxis
+            tickFormatter={(value: number) => formatSize(value)}
+            tick={{ fontSize: 11, fill: '#6B7280' }}
+            axisLine={false}
+            tickLine={false}
+            width={70}
+          />
+          <Tooltip
+            labelFormatter={(day: string) => formatDay(day)}
+            formatter={(value: number, name: string) => [formatSize(value), name === "forecastGB" ? "Previsão" : "Utilizado"]}
+          />
+          {capacity.contractedGB !== null && (
+            <ReferenceLine
+              y={capacity.contractedGB}
+              stroke="#EF4444"
+              strokeDasharray="4 4"
+              label={{ value: "Contratado", position: "insideTopLeft", fontSize: 11, fill: "#EF4444" }}
+            />
+          )}
+          <Line type="monotone" dataKey="sizeGB" stroke="#0077B6" strokeWidth={2} dot={false} connectNulls={false} />
+          <Line type="monotone" dataKey="forecastGB" stroke="#0077B6" strokeWidth={2} strokeDasharray="6 4" dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+      <p className={`text-sm ${forecastClass}`} data-testid="text-capacity-forecast">
+        {forecastMessage}
+        {capacity.method && (
+          <span className="text-xs text-muted-foreground ml-2">
+            ({capacity.method === "seasonal" ? "tendência linear com sazonalidade mensal" : "tendência linear"})
+          </span>
+        )}
+      </p>
+    </div>
+  );
+}
+
+export function ProtectedDataOverview({ workloads, capacity }: ProtectedDataOverviewProps) {
   const total = workloads.reduce((sum, w) => sum + w.quantity, 0);
   const totalSizeTB = workloads.reduce((sum, w) => sum + w.sizeGB, 0) / 1024;
 
@@ -120,6 +235,12 @@ export function ProtectedDataOverview({ workloads }: ProtectedDataOverviewProps)
             </table>
           </div>
         </div>
+
+        {capacity && (
+          <div className="mt-6 pt-6 border-t">
+            <CapacityTrendChart capacity={capacity} formatSize={(sizeGB) => formatSize(sizeGB)} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
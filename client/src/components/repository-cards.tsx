@@ -1,19 +1,27 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { HardDrive } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { HardDrive, Lock, Cloud } from "lucide-react";
 import type { VeeamRepository } from "@shared/schema";
 
 interface RepositoryCardsProps {
   repositories: VeeamRepository[];
+  isLoading?: boolean;
 }
 
-export function RepositoryCards({ repositories }: RepositoryCardsProps) {
+export function RepositoryCards({ repositories, isLoading }: RepositoryCardsProps) {
   const formatBytes = (bytes: number): string => {
     const tb = bytes / (1024 ** 4);
+    if (tb < 1) {
+      return `${(bytes / (1024 ** 3)).toFixed(1)} GB`;
+    }
     return `${tb.toFixed(2)} TB`;
   };
 
   const getUsagePercentage = (repo: VeeamRepository): number => {
+    if (repo.isUnlimited || repo.capacity <= 0) {
+      return 0;
+    }
     return ((repo.usedSpace / repo.capacity) * 100);
   };
 
@@ -23,6 +31,24 @@ export function RepositoryCards({ repositories }: RepositoryCardsProps) {
     return "text-primary";
   };
 
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <HardDrive className="w-5 h-5" />
+            Repositórios de Backup
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -30,7 +56,7 @@ export function RepositoryCards({ repositories }: RepositoryCardsProps) {
           <HardDrive className="w-5 h-5" />
           Repositórios de Backup
         </CardTitle>
-        <CardDescription>Uso de armazenamento por repositório</CardDescription>
+        <CardDescription>Uso de armazenamento por repositório e cota de Cloud Connect</CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
         {repositories.length === 0 ? (
@@ -42,18 +68,33 @@ export function RepositoryCards({ repositories }: RepositoryCardsProps) {
           repositories.map((repo, index) => {
             const usagePercentage = getUsagePercentage(repo);
             return (
-              <div key={index} className="space-y-2" data-testid={`repository-${index}`}>
+              <div key={repo.instanceUid || index} className="space-y-2" data-testid={`repository-${index}`}>
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
-                    <p className="text-sm font-medium">{repo.name}</p>
+                    <div className="flex items-center gap-2">
+                      {repo.type === 'CloudConnect' && <Cloud className="w-4 h-4 text-muted-foreground" />}
+                      <p className="text-sm font-medium">{repo.name}</p>
+                      {repo.isImmutable && (
+                        <Badge variant="secondary" className="text-xs gap-1" data-testid={`badge-immutable-${index}`}>
+                          <Lock className="w-3 h-3" />
+                          Imutável
+                        </Badge>
+                      )}
+                    </div>
                     <p className="text-xs text-muted-foreground font-mono">{repo.path}</p>
                   </div>
                   <div className="text-right">
-                    <p className={`text-sm font-semibold ${getUsageColor(usagePercentage)}`}>
-                      {usagePercentage.toFixed(1)}%
-                    </p>
+                    {repo.isUnlimited ? (
+                      <p className="text-sm font-semibold text-primary">Cota ilimitada</p>
+                    ) : (
+                      <p className={`text-sm font-semibold ${getUsageColor(usagePercentage)}`}>
+                        {usagePercentage.toFixed(1)}%
+                      </p>
+                    )}
                     <p className="text-xs text-muted-foreground">
-                      {formatBytes(repo.usedSpace)} / {formatBytes(repo.capacity)}
+                      {repo.isUnlimited
+                        ? `${formatBytes(repo.usedSpace)} utilizados`
+                        : `${formatBytes(repo.usedSpace)} / ${formatBytes(repo.capacity)} (${formatBytes(repo.freeSpace)} livres)`}
                     </p>
                   </div>
                 </div>
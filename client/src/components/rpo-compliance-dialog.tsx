@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { CheckCircle, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { RpoCompliance, RpoJob, RpoWorkloadStatus } from "@shared/schema";
+
+interface RpoComplianceDialogProps {
+  companyId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canEdit: boolean;
+}
+
+const RPO_SOURCE_LABELS: Record<RpoWorkloadStatus["rpoSource"], string> = {
+  job: "job",
+  company: "empresa",
+  default: "padrão",
+};
+
+function formatAge(ageHours: number | null): string {
+  if (ageHours === null) return "-";
+  if (ageHours < 48) return `${Math.floor(ageHours)} h`;
+  return `${Math.floor(ageHours / 24)} dias`;
+}
+
+// Saved when the field loses focus; empty follows the company's target
+function JobRpoInput({
+  job,
+  companyRpoHours,
+  onSave,
+  disabled,
+}: {
+  job: RpoJob;
+  companyRpoHours: number;
+  onSave: (job: RpoJob, rpoHours: number | null) => void;
+  disabled: boolean;
+}) {
+  const current = job.rpoHours !== null ? String(job.rpoHours) : "";
+
+  return (
+    <Input
+      key={current}
+      type="number"
+      min="1"
+      step="1"
+      className="w-28 ml-auto"
+      placeholder={`${companyRpoHours} h`}
+      defaultValue={current}
+      disabled={disabled}
+      onBlur={(e) => {
+        const value = e.target.value.trim();
+        if (value === current) return;
+        const hours = parseInt(value, 10);
+        onSave(job, value === "" || !(hours > 0) ? null : hours);
+      }}
+      data-testid={`input-job-rpo-${job.jobUid}`}
+    />
+  );
+}
+
+export function RpoComplianceDialog({ companyId, open, onOpenChange, canEdit }: RpoComplianceDialogProps) {
+  const { toast } = useToast();
+  const [onlyViolations, setOnlyViolations] = useState(true);
+
+  const { data: compliance, isLoading } = useQuery<RpoCompliance>({
+    queryKey: ["/api/rpo", companyId],
+    enabled: open && !!companyId,
+  });
+
+  const jobMutation = useMutation({
+    mutationFn: async ({ job, rpoHours }: { job: RpoJob; rpoHours: number | null }) => {
+      const res = await apiRequest("PUT", `/api/rpo/${companyId}/jobs/${encodeURIComponent(job.jobUid)}`, {
+        rpoHours,
+        jobName: job.jobName,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rpo", companyId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scorecard", companyId] });
+      toast({ title: "RPO do job atualizado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao atualizar RPO do job",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const workloads = (compliance?.workloads || []).filter((w) => !onlyViolations || !w.compliant);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Conformidade de RPO</DialogTitle>
+          <DialogDescription>
+            {compliance
+              ? `VMs e computadores cujo ponto de restauração mais recente é mais antigo que a meta de RPO. Meta da empresa: ${compliance.rpoHours} h${compliance.rpoSource === "default" ? " (padrão)" : ""}, alterável na página Empresas.`
+              : "VMs e computadores cujo ponto de restauração mais recente é mais antigo que a meta de RPO."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !compliance ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <Tabs defaultValue="workloads">
+            <TabsList>
+              <TabsTrigger value="workloads" data-testid="tab-rpo-workloads">
+                Workloads ({compliance.violationCount} fora do RPO)
+              </TabsTrigger>
+              <TabsTrigger value="jobs" data-testid="tab-rpo-jobs">Metas por job</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="workloads" className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="rpo-only-violations"
+                  checked={onlyViolations}
+                  onCheckedChange={setOnlyViolations}
+                  data-testid="switch-rpo-only-violations"
+                />
+                <Label htmlFor="rpo-only-violations">Somente fora do RPO</Label>
+              </div>
+
+              {workloads.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <CheckCircle className="w-10 h-10 mx-auto mb-3 text-green-500" />
+                  <p>
+                    {compliance.hasData
+                      ? `Todos os ${compliance.compliantCount} workloads estão dentro do RPO`
+                      : "Nenhuma VM ou computador protegido encontrado"}
+                  </p>
+                </div>
+              ) : (
+                <div className="border rounded-lg overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead className="font-semibold">Status</TableHead>
+                        <TableHead className="font-semibold">Workload</TableHead>
+                        <TableHead className="font-semibold">Job</TableHead>
+                        <TableHead className="font-semibold">Último ponto</TableHead>
+                        <TableHead className="font-semibold text-right">Idade</TableHead>
+                        <TableHead className="font-semibold text-right">Meta</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {workloads.map((workload) => (
+                        <TableRow key={workload.workloadUid} data-testid={`row-rpo-${workload.workloadUid}`}>
+                          <TableCell>
+                            {workload.compliant ? (
+                              <Badge variant="outline" className="text-green-600 border-green-600/40">
+                                <CheckCircle className="w-3 h-3 mr-1" />
+                                Conforme
+                              </Badge>
+                            ) : (
+                              <Badge variant="destructive">
+                                <XCircle className="w-3 h-3 mr-1" />
+                                Fora do RPO
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{workload.workloadName}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {workload.workloadType === "vm" ? "VM" : "Computador"}
+                            </p>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{workload.jobName || "-"}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {workload.latestRestorePointDate
+                              ? format(new Date(workload.latestRestorePointDate), "dd/MM/yyyy HH:mm", { locale: ptBR })
+                              : "Nenhum"}
+                          </TableCell>
+                          <TableCell className="text-right">{formatAge(workload.ageHours)}</TableCell>
+                          <TableCell className="text-right text-sm text-muted-foreground">
+                            {workload.rpoHours} h ({RPO_SOURCE_LABELS[workload.rpoSource]})
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="jobs" className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Jobs com meta própria usam esse RPO para os workloads que protegem; vazio segue a meta da empresa.
+              </p>
+              {compliance.jobs.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>Nenhum job de backup encontrado</p>
+                </div>
+              ) : (
+                <div className="border rounded-lg overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        <TableHead className="font-semibold">Job</TableHead>
+                        <TableHead className="font-semibold text-right">Workloads</TableHead>
+                        <TableHead className="font-semibold text-right">RPO (horas)</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {compliance.jobs.map((job) => (
+                        <TableRow key={job.jobUid} data-testid={`row-job-rpo-${job.jobUid}`}>
+                          <TableCell className="font-medium">{job.jobName}</TableCell>
+                          <TableCell className="text-right">{job.workloadCount}</TableCell>
+                          <TableCell className="text-right">
+                            <JobRpoInput
+                              job={job}
+                              companyRpoHours={compliance.rpoHours}
+                              onSave={(job, rpoHours) => jobMutation.mutate({ job, rpoHours })}
+                              disabled={!canEdit || jobMutation.isPending}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
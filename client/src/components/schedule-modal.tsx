@@ -247,7 +247,7 @@ export function ScheduleModal({ open, onOpenChange, companyId, companyName }: Sc
                     />
                   </FormControl>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Horário de Brasília (GMT-3)
+                    Horário no fuso da empresa (configurado em Empresas)
                   </p>
                   <FormMessage />
                 </FormItem>
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { BackfillProgress } from "@shared/schema";
+
+interface SessionBackfillDialogProps {
+  companyId: string;
+}
+
+export function SessionBackfillDialog({ companyId }: SessionBackfillDialogProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [startDate, setStartDate] = useState(() => format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  // 404 (no backfill started yet) leaves progress undefined
+  const { data: progress } = useQuery<BackfillProgress>({
+    queryKey: ["/api/session-snapshots/backfill", companyId],
+    enabled: isOpen && !!companyId,
+    refetchInterval: (query) => (query.state.data?.status === "running" ? 2000 : false),
+  });
+
+  const isRunning = progress?.status === "running";
+
+  // Refresh the calendar and charts once a backfill finishes
+  useEffect(() => {
+    if (progress?.status === "completed") {
+      queryClient.invalidateQueries({ queryKey: ["/api/session-states", companyId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/monthly-stats", companyId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/dashboard/metrics/${companyId}`] });
+    }
+  }, [progress?.status, progress?.finishedAt, companyId]);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/session-snapshots/backfill", { companyId, startDate, endDate });
+      return res.json() as Promise<BackfillProgress>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/session-snapshots/backfill", companyId], data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao importar histórico",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const percent = progress && progress.totalJobs > 0
+    ? Math.round((progress.processedJobs / progress.totalJobs) * 100)
+    : 0;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        data-testid="button-open-backfill"
+      >
+        <History className="w-4 h-4 mr-2" />
+        Importar histórico
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Importar histórico do VSPC</DialogTitle>
+            <DialogDescription>
+              Reconstrói as sessões do período a partir dos pontos de restauração do VSPC. Dias já coletados
+              não são alterados, e execuções com falha não deixam ponto de restauração, por isso não aparecem
+              nos dias importados.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backfill-start">Início</Label>
+              <Input
+                id="backfill-start"
+                type="date"
+                value={startDate}
+                max={endDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={isRunning}
+                data-testid="input-backfill-start"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backfill-end">Fim</Label>
+              <Input
+                id="backfill-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                disabled={isRunning}
+                data-testid="input-backfill-end"
+              />
+            </div>
+          </div>
+
+          {progress && (
+            <div className="space-y-2" data-testid="backfill-progress">
+              <Progress value={progress.status === "running" ? percent : 100} />
+              <p className="text-sm text-muted-foreground">
+                {progress.status === "running" &&
+                  `Consultando jobs: ${progress.processedJobs} de ${progress.totalJobs || "?"}`}
+                {progress.status === "completed" &&
+                  `Concluído: ${progress.sessionCount} sessões importadas em ${progress.daysFilled} dias.`}
+                {progress.status === "failed" && (
+                  <span className="text-destructive">Falha na importação: {progress.error}</span>
+                )}
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} data-testid="button-close-backfill">
+              Fechar
+            </Button>
+            <Button
+              onClick={() => startMutation.mutate()}
+              disabled={isRunning || startMutation.isPending || !startDate || !endDate}
+              data-testid="button-start-backfill"
+            >
+              {isRunning ? "Importando..." : "Importar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
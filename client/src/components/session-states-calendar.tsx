@@ -1,18 +1,247 @@
+import { useState, type ReactNode } from "react";
+import { differenceInCalendarDays, endOfMonth, format, startOfMonth, subDays, subMonths } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Calendar, Info } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Calendar, CalendarRange, ChevronLeft, ChevronRight, Info } from "lucide-react";
 import type { SessionStatesData, DaySessionState } from "@shared/schema";
 
+export type SessionCalendarPreset = "30d" | "90d" | "12m";
+
+// Period shown by the calendar: a preset ending today (monthOffset 0) or at the end of a past month,
+// or a custom from/to (YYYY-MM-DD)
+export type SessionCalendarRange =
+  | { preset: SessionCalendarPreset; monthOffset: number }
+  | { preset: "custom"; from: string; to: string };
+
+export const DEFAULT_SESSION_CALENDAR_RANGE: SessionCalendarRange = { preset: "30d", monthOffset: 0 };
+
+// Longest custom period, the limit of the server's ?from=&to=
+const MAX_CUSTOM_RANGE_DAYS = 366;
+
+// Up to this many days the calendar is a month table, beyond it a heatmap
+const MAX_TABLE_DAYS = 42;
+
+const PRESET_LABELS: Record<SessionCalendarPreset, string> = {
+  "30d": "Últimos 30 dias",
+  "90d": "Últimos 90 dias",
+  "12m": "Últimos 12 meses",
+};
+
+// Day keys are parsed at local midnight only for date-fns arithmetic and formatting; which day is
+// "today" comes from the server, in the company's timezone (useCompanyToday)
+function parseDayKey(key: string): Date {
+  return new Date(key + 'T00:00:00');
+}
+
+function getRangeBounds(range: SessionCalendarRange, today: string): { start: Date; end: Date } {
+  if (range.preset === "custom") {
+    return { start: parseDayKey(range.from), end: parseDayKey(range.to) };
+  }
+  const todayDate = parseDayKey(today);
+  const end = range.monthOffset === 0 ? todayDate : endOfMonth(subMonths(todayDate, range.monthOffset));
+  const start = range.preset === "12m"
+    ? startOfMonth(subMonths(end, 11))
+    : subDays(end, range.preset === "90d" ? 89 : 29);
+  return { start, end };
+}
+
+// from/to (YYYY-MM-DD) for /api/session-states and /api/report/data; today is the company's day key
+export function getSessionCalendarDates(range: SessionCalendarRange, today: string): { from: string; to: string } {
+  const { start, end } = getRangeBounds(range, today);
+  return { from: format(start, "yyyy-MM-dd"), to: format(end, "yyyy-MM-dd") };
+}
+
+function getSessionCalendarLabel(range: SessionCalendarRange, today: string | undefined): string {
+  if (range.preset !== "custom" && (range.monthOffset === 0 || !today)) {
+    return PRESET_LABELS[range.preset];
+  }
+  const { start, end } = getRangeBounds(range, today ?? "");
+  return `${format(start, "dd/MM/yyyy")} – ${format(end, "dd/MM/yyyy")}`;
+}
+
+// Error of a custom from/to, or null when the server will accept it
+function validateCustomRange(from: string, to: string, today: string | undefined): string | null {
+  if (!from || !to) return "Informe o início e o fim do período";
+  if (to < from) return "O fim deve ser igual ou posterior ao início";
+  if (today && to > today) return "O período não pode terminar depois de hoje";
+  if (differenceInCalendarDays(parseDayKey(to), parseDayKey(from)) + 1 > MAX_CUSTOM_RANGE_DAYS) {
+    return `O período pode ter no máximo ${MAX_CUSTOM_RANGE_DAYS} dias`;
+  }
+  return null;
+}
+
 interface SessionStatesCalendarProps {
   data: SessionStatesData;
   isLoading?: boolean;
+  // Extra header content, e.g. the history backfill button on the dashboard
+  action?: ReactNode;
+  range?: SessionCalendarRange;
+  // Company's day key (YYYY-MM-DD), for the labels of past months and the custom period limit
+  today?: string;
+  // Shows the period selector and month navigation; without it the period is only labelled (print report)
+  onRangeChange?: (range: SessionCalendarRange) => void;
+}
+
+function getHeatmapColor(day: DaySessionState): string {
+  if (day.totalCount === 0) return "bg-muted";
+  if (day.failedCount === 0 && day.warningCount === 0) return "bg-emerald-500";
+  if (day.failedCount === 0) return "bg-amber-400";
+  return day.failedPercent >= 25 ? "bg-red-500" : "bg-red-300";
 }
 
-export function SessionStatesCalendar({ data, isLoading }: SessionStatesCalendarProps) {
+export function SessionStatesCalendar({
+  data,
+  isLoading,
+  action,
+  range = DEFAULT_SESSION_CALENDAR_RANGE,
+  today,
+  onRangeChange,
+}: SessionStatesCalendarProps) {
+  const [isCustomOpen, setIsCustomOpen] = useState(false);
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState("");
+  const customError = validateCustomRange(customFrom, customTo, today);
+
+  const openCustomRange = (open: boolean) => {
+    // Starts from the period on screen
+    if (open && today) {
+      const { from, to } = getSessionCalendarDates(range, today);
+      setCustomFrom(from);
+      setCustomTo(to);
+    }
+    setIsCustomOpen(open);
+  };
+
+  const applyCustomRange = () => {
+    if (!onRangeChange || customError) return;
+    onRangeChange({ preset: "custom", from: customFrom, to: customTo });
+    setIsCustomOpen(false);
+  };
+
+  const headerControls = (
+    <div className="flex items-center gap-3">
+      {action}
+      {onRangeChange ? (
+        <div className="flex items-center gap-1">
+          {range.preset !== "custom" && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onRangeChange({ ...range, monthOffset: range.monthOffset + 1 })}
+              title="Mês anterior"
+              data-testid="button-calendar-previous"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+          )}
+          <span className="text-xs text-muted-foreground min-w-[140px] text-center" data-testid="text-calendar-range">
+            {getSessionCalendarLabel(range, today)}
+          </span>
+          {range.preset !== "custom" && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => onRangeChange({ ...range, monthOffset: range.monthOffset - 1 })}
+              disabled={range.monthOffset === 0}
+              title="Próximo mês"
+              data-testid="button-calendar-next"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          )}
+          <Select
+            value={range.preset === "custom" ? "" : range.preset}
+            onValueChange={(preset) => onRangeChange({
+              preset: preset as SessionCalendarPreset,
+              monthOffset: range.preset === "custom" ? 0 : range.monthOffset,
+            })}
+          >
+            <SelectTrigger className="h-8 w-[130px]" data-testid="select-calendar-range">
+              <SelectValue placeholder="Personalizado" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30d">30 dias</SelectItem>
+              <SelectItem value="90d">90 dias</SelectItem>
+              <SelectItem value="12m">12 meses</SelectItem>
+            </SelectContent>
+          </Select>
+          <Popover open={isCustomOpen} onOpenChange={openCustomRange}>
+            <PopoverTrigger asChild>
+              <Button
+                variant={range.preset === "custom" ? "secondary" : "ghost"}
+                size="icon"
+                className="h-8 w-8"
+                disabled={!today}
+                title="Período personalizado"
+                data-testid="button-calendar-custom"
+              >
+                <CalendarRange className="w-4 h-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-72 space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-custom-from">Início</Label>
+                  <Input
+                    id="calendar-custom-from"
+                    type="date"
+                    value={customFrom}
+                    max={customTo || today}
+                    onChange={(e) => setCustomFrom(e.target.value)}
+                    data-testid="input-calendar-custom-from"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="calendar-custom-to">Fim</Label>
+                  <Input
+                    id="calendar-custom-to"
+                    type="date"
+                    value={customTo}
+                    min={customFrom}
+                    max={today}
+                    onChange={(e) => setCustomTo(e.target.value)}
+                    data-testid="input-calendar-custom-to"
+                  />
+                </div>
+              </div>
+              {customError && (
+                <p className="text-xs text-destructive" data-testid="text-calendar-custom-error">{customError}</p>
+              )}
+              <Button
+                size="sm"
+                className="w-full"
+                onClick={applyCustomRange}
+                disabled={!!customError}
+                data-testid="button-calendar-custom-apply"
+              >
+                Aplicar
+              </Button>
+            </PopoverContent>
+          </Popover>
+        </div>
+      ) : (
+        <span className="text-xs text-muted-foreground">{getSessionCalendarLabel(range, today)}</span>
+      )}
+    </div>
+  );
+
   if (isLoading) {
     return (
       <Card>
-        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-2">
           <CardTitle className="text-lg font-semibold flex items-center gap-2">
             <Calendar className="w-5 h-5 text-primary" />
             Estados das Sessões
@@ -30,12 +259,12 @@ export function SessionStatesCalendar({ data, isLoading }: SessionStatesCalendar
   if (!data.hasData) {
     return (
       <Card>
-        <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-2">
           <CardTitle className="text-lg font-semibold flex items-center gap-2">
             <Calendar className="w-5 h-5 text-primary" />
             Estados das Sessões
           </CardTitle>
-          <span className="text-xs text-muted-foreground">Últimos 30 dias</span>
+          {headerControls}
         </CardHeader>
         <CardContent>
           <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -70,6 +299,33 @@ export function SessionStatesCalendar({ data, isLoading }: SessionStatesCalendar
     });
   };
 
+  const renderDayTooltip = (day: DaySessionState) => (
+    <div className="space-y-1">
+      <p className="font-medium">{formatFullDate(day.date)}</p>
+      {day.totalCount > 0 ? (
+        <>
+          <p className="text-sm">Sessões de Jobs ({day.totalCount})</p>
+          <div className="flex items-center gap-4 text-xs">
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-red-400"></span>
+              {day.failedCount}
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-amber-400"></span>
+              {day.warningCount}
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-emerald-400"></span>
+              {day.successCount}
+            </span>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">Dados não coletados</p>
+      )}
+    </div>
+  );
+
   const weeks: (DaySessionState | null)[][] = [];
   let currentWeek: (DaySessionState | null)[] = [];
   
@@ -95,14 +351,121 @@ export function SessionStatesCalendar({ data, isLoading }: SessionStatesCalendar
     weeks.push(currentWeek);
   }
 
+  // Longer periods (90 days, 12 months, long custom ranges): GitHub-style heatmap, one column per week
+  if (data.days.length > MAX_TABLE_DAYS) {
+    const isShort = data.days.length <= 120;
+    const cellWidth = isShort ? "w-5" : "w-3";
+    const cellSize = isShort ? "w-5 h-5" : "w-3 h-3";
+    const formatMonth = (dateStr: string) =>
+      new Date(dateStr + 'T00:00:00').toLocaleDateString('pt-BR', { month: 'short' }).replace('.', '');
+
+    const totals = data.days.reduce(
+      (acc, day) => ({
+        total: acc.total + day.totalCount,
+        success: acc.success + day.successCount,
+        failedDays: acc.failedDays + (day.failedCount > 0 ? 1 : 0),
+      }),
+      { total: 0, success: 0, failedDays: 0 }
+    );
+    const successRate = totals.total > 0 ? Math.round((totals.success / totals.total) * 100) : 0;
+
+    return (
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-2">
+          <CardTitle className="text-lg font-semibold flex items-center gap-2">
+            <Calendar className="w-5 h-5 text-primary" />
+            Session States
+          </CardTitle>
+          {headerControls}
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto" data-testid="session-states-heatmap">
+            <TooltipProvider>
+              <div className="inline-flex gap-1">
+                <div className="flex flex-col gap-1 mr-1">
+                  <div className="h-4" />
+                  {weekDays.map((day, index) => (
+                    <div key={day} className={`${cellSize} text-[10px] leading-3 text-muted-foreground`}>
+                      {index % 2 === 1 ? day : ""}
+                    </div>
+                  ))}
+                </div>
+                {weeks.map((week, weekIndex) => {
+                  const firstDay = week.find((day): day is DaySessionState => day !== null);
+                  const monthStart = week.find((day) => day?.date.endsWith("-01"));
+                  const monthLabel = monthStart
+                    ? formatMonth(monthStart.date)
+                    : weekIndex === 0 && firstDay ? formatMonth(firstDay.date) : "";
+
+                  return (
+                    <div key={weekIndex} className="flex flex-col gap-1">
+                      <div className={`h-4 ${cellWidth} text-[10px] text-muted-foreground whitespace-nowrap overflow-visible`}>
+                        {monthLabel}
+                      </div>
+                      {week.map((day, dayIndex) =>
+                        day ? (
+                          <Tooltip key={dayIndex}>
+                            <TooltipTrigger asChild>
+                              <div
+                                className={`${cellSize} rounded-sm cursor-pointer ${getHeatmapColor(day)}`}
+                                data-testid={`heatmap-day-${day.date}`}
+                              />
+                            </TooltipTrigger>
+                            <TooltipContent side="top" className="max-w-xs">
+                              {renderDayTooltip(day)}
+                            </TooltipContent>
+                          </Tooltip>
+                        ) : (
+                          <div key={dayIndex} className={cellSize} />
+                        )
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </TooltipProvider>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4 mt-4 text-xs text-muted-foreground">
+            <span data-testid="text-heatmap-summary">
+              {totals.total} sessões · {successRate}% de sucesso · {totals.failedDays} dias com falha
+            </span>
+            <div className="flex items-center gap-3">
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm bg-muted"></span>
+                Sem dados
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm bg-emerald-500"></span>
+                Sucesso
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm bg-amber-400"></span>
+                Aviso
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm bg-red-300"></span>
+                Falha
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm bg-red-500"></span>
+                Falha ≥ 25%
+              </span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card>
-      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-2">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-2">
         <CardTitle className="text-lg font-semibold flex items-center gap-2">
           <Calendar className="w-5 h-5 text-primary" />
           Session States
         </CardTitle>
-        <span className="text-xs text-muted-foreground">Últimos 30 dias</span>
+        {headerControls}
       </CardHeader>
       <CardContent>
         <div className="overflow-x-auto">
@@ -164,30 +527,7 @@ export function SessionStatesCalendar({ data, isLoading }: SessionStatesCalendar
                               </div>
                             </TooltipTrigger>
                             <TooltipContent side="top" className="max-w-xs">
-                              <div className="space-y-1">
-                                <p className="font-medium">{formatFullDate(day.date)}</p>
-                                {day.totalCount > 0 ? (
-                                  <>
-                                    <p className="text-sm">Sessões de Jobs ({day.totalCount})</p>
-                                    <div className="flex items-center gap-4 text-xs">
-                                      <span className="flex items-center gap-1">
-                                        <span className="w-2 h-2 rounded-full bg-red-400"></span>
-                                        {day.failedCount}
-                                      </span>
-                                      <span className="flex items-center gap-1">
-                                        <span className="w-2 h-2 rounded-full bg-amber-400"></span>
-                                        {day.warningCount}
-                                      </span>
-                                      <span className="flex items-center gap-1">
-                                        <span className="w-2 h-2 rounded-full bg-emerald-400"></span>
-                                        {day.successCount}
-                                      </span>
-                                    </div>
-                                  </>
-                                ) : (
-                                  <p className="text-sm text-muted-foreground">Dados não coletados</p>
-                                )}
-                              </div>
+                              {renderDayTooltip(day)}
                             </TooltipContent>
                           </Tooltip>
                         </TooltipProvider>
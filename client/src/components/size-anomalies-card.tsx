@@ -0,0 +1,120 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert, CheckCircle, BellOff, Bell } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import type { SizeAnomalyReport } from "@shared/schema";
+
+interface SizeAnomaliesCardProps {
+  report: SizeAnomalyReport | undefined;
+  isLoading: boolean;
+}
+
+function formatSize(sizeGB: number): string {
+  if (Math.abs(sizeGB) >= 1024) {
+    return `${(sizeGB / 1024).toFixed(2)} TB`;
+  }
+  return `${sizeGB.toFixed(1)} GB`;
+}
+
+export function SizeAnomaliesCard({ report, isLoading }: SizeAnomaliesCardProps) {
+  const anomalies = report?.anomalies || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-destructive" />
+          Anomalias de Tamanho de Backup
+          {anomalies.length > 0 && (
+            <Badge variant="destructive" className="ml-2" data-testid="badge-size-anomalies">
+              {anomalies.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          VMs e computadores cujo backup cresceu muito acima do habitual
+          {report ? ` nos últimos ${report.days} dias` : ""}: um salto repentino pode indicar dados criptografados por ransomware
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : !report?.hasData ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>Ainda não há histórico de tamanho por VM e computador</p>
+            <p className="text-sm mt-1">O tamanho dos backups é coletado uma vez por dia</p>
+          </div>
+        ) : anomalies.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CheckCircle className="w-12 h-12 mx-auto mb-3 text-green-500" />
+            <p>Nenhum crescimento anormal entre {report.workloadCount} workloads monitorados</p>
+          </div>
+        ) : (
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead className="font-semibold">Data</TableHead>
+                  <TableHead className="font-semibold">Workload</TableHead>
+                  <TableHead className="font-semibold">Tipo</TableHead>
+                  <TableHead className="font-semibold text-right">Crescimento</TableHead>
+                  <TableHead className="font-semibold text-right">Habitual/dia</TableHead>
+                  <TableHead className="font-semibold text-right">Tamanho</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {anomalies.map((anomaly) => (
+                  <TableRow
+                    key={`${anomaly.workloadUid}-${anomaly.date}`}
+                    data-testid={`row-size-anomaly-${anomaly.workloadUid}-${anomaly.date}`}
+                  >
+                    <TableCell className="text-sm text-muted-foreground">
+                      {format(parseISO(anomaly.date), "dd/MM/yyyy", { locale: ptBR })}
+                    </TableCell>
+                    <TableCell className="font-medium">{anomaly.workloadName}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {anomaly.workloadType === "vm" ? "VM" : "Computador"}
+                    </TableCell>
+                    <TableCell className="text-right font-medium text-destructive">
+                      +{formatSize(anomaly.incrementGB)}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {formatSize(anomaly.baselineGB)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatSize(anomaly.sizeGB)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {report?.hasData && (
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground mt-4" data-testid="text-size-anomaly-notifications">
+            {report.notificationsEnabled ? (
+              <>
+                <Bell className="w-3.5 h-3.5" />
+                Novas anomalias são enviadas por e-mail à equipe de operações
+              </>
+            ) : (
+              <>
+                <BellOff className="w-3.5 h-3.5" />
+                Alerta por e-mail desativado (configure SIZE_ANOMALY_ALERT_RECIPIENTS)
+              </>
+            )}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CompanyToday } from "@shared/schema";
+
+// Today in the company's timezone: date ranges sent to the server must use its day keys, which differ
+// from the browser's near midnight
+export function useCompanyToday(companyId: string | undefined) {
+  const { data } = useQuery<CompanyToday>({
+    queryKey: [`/api/companies/${companyId}/today`],
+    enabled: !!companyId,
+    // The day only changes at midnight; refetched on focus like any other query
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data?.today;
+}
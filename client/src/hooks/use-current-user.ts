@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import type { UserRole } from "@shared/schema";
+
+export interface CurrentUser {
+  id: string;
+  username: string;
+  name: string;
+  role: UserRole;
+  companyId: string | null;
+  twoFactorEnabled: boolean;
+  twoFactorRequired: boolean;
+  recoveryCodesLeft: number;
+}
+
+// The server enforces the same rules; the UI only hides what the user's role cannot do
+export function useCurrentUser() {
+  const { data: user, isLoading } = useQuery<CurrentUser>({
+    queryKey: ["/api/auth/me"],
+  });
+
+  return {
+    user,
+    isLoading,
+    isAdmin: user?.role === "admin",
+    canOperate: user?.role === "admin" || user?.role === "operator",
+    // Customer portal user, locked to one company
+    isCustomer: !!user?.companyId,
+    // The role requires two-factor authentication: until it is enabled the server only allows the profile page
+    needsTwoFactorSetup: !!user?.twoFactorRequired && !user.twoFactorEnabled,
+  };
+}
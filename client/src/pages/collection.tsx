@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Shield, ArrowLeft, RefreshCw, History, Archive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CollectionStatus, RetentionReport, RetentionStatus } from "@shared/schema";
+
+function formatRelative(date: string) {
+  return formatDistanceToNow(new Date(date), { addSuffix: true, locale: ptBR });
+}
+
+function formatDay(day: string) {
+  const [year, month, date] = day.split("-");
+  return `${date}/${month}/${year}`;
+}
+
+function RetentionCard() {
+  const { toast } = useToast();
+  const { isAdmin } = useCurrentUser();
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const { data: retention } = useQuery<RetentionStatus>({
+    queryKey: ["/api/retention"],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/retention/run", { dryRun: false });
+      return res.json() as Promise<RetentionReport>;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/retention"] });
+      toast({
+        title: "Retenção aplicada",
+        description: `${report.snapshotRows} registros diários agregados por mês e ${report.jobSessionRows} sessões excluídas.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao aplicar retenção",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!retention) {
+    return null;
+  }
+
+  const preview = retention.preview;
+  const lastRun = retention.lastRun;
+
+  return (
+    <Card className="mt-6" data-testid="card-retention">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg">Retenção do Histórico</CardTitle>
+          <CardDescription>
+            {retention.enabled
+              ? `Registros diários são mantidos por ${retention.retentionDays} dias; meses mais antigos ficam apenas com os totais mensais, usados nos gráficos mensais. Execução diária às 03:00${retention.dryRun ? " em modo simulação (SNAPSHOT_RETENTION_DRY_RUN=true)" : ""}.`
+              : "Retenção desativada (SNAPSHOT_RETENTION_DAYS=0): os registros diários são mantidos indefinidamente."}
+          </CardDescription>
+        </div>
+        {retention.enabled && isAdmin && (
+          <Button
+            variant="outline"
+            onClick={() => setIsConfirmOpen(true)}
+            disabled={runMutation.isPending || !preview || preview.snapshotRows + preview.jobSessionRows === 0}
+            data-testid="button-run-retention"
+          >
+            <Archive className="w-4 h-4 mr-2" />
+            {runMutation.isPending ? "Aplicando..." : "Aplicar agora"}
+          </Button>
+        )}
+      </CardHeader>
+      {retention.enabled && (
+        <CardContent className="space-y-4">
+          {preview && (
+            <p className="text-sm" data-testid="text-retention-preview">
+              {preview.snapshotRows + preview.jobSessionRows === 0
+                ? `Nada a agregar: não há registros anteriores a ${formatDay(preview.cutoff)}.`
+                : `Próxima execução: ${preview.snapshotRows} registros diários anteriores a ${formatDay(preview.cutoff)} serão agregados por mês e ${preview.jobSessionRows} sessões serão excluídas.`}
+            </p>
+          )}
+          {preview && preview.companies.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Empresa</TableHead>
+                  <TableHead>Anteriores a</TableHead>
+                  <TableHead>Meses</TableHead>
+                  <TableHead className="text-right">Registros diários</TableHead>
+                  <TableHead className="text-right">Sessões</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.companies.map((company) => (
+                  <TableRow key={company.companyId} data-testid={`row-retention-${company.companyId}`}>
+                    <TableCell className="font-medium">{company.companyName}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground" title={company.timezone}>
+                      {formatDay(company.cutoff)}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {company.months.length > 0
+                        ? `${company.months[0]} a ${company.months[company.months.length - 1]}`
+                        : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">{company.snapshotRows}</TableCell>
+                    <TableCell className="text-right">{company.jobSessionRows}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {lastRun && (
+            <p className="text-sm text-muted-foreground" data-testid="text-retention-last-run">
+              Última execução {formatRelative(lastRun.finishedAt)}
+              {lastRun.dryRun ? " (simulação)" : ""}: {lastRun.snapshotRows} registros diários e{" "}
+              {lastRun.jobSessionRows} sessões.
+            </p>
+          )}
+        </CardContent>
+      )}
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Aplicar retenção agora?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os registros diários anteriores a {preview ? formatDay(preview.cutoff) : ""} serão somados nos totais
+              mensais e excluídos, junto com as sessões dos jobs do mesmo período. O calendário deixa de mostrar
+              esses dias; os gráficos mensais não mudam.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => runMutation.mutate()} data-testid="button-confirm-retention">
+              Aplicar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+function StatusBadge({ status }: { status: string }) {
+  if (status === "success") {
+    return <Badge className="bg-green-600">Sucesso</Badge>;
+  }
+  if (status === "running") {
+    return <Badge variant="secondary">Em andamento</Badge>;
+  }
+  return <Badge variant="destructive">Falha</Badge>;
+}
+
+export default function Collection() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: status, isLoading } = useQuery<CollectionStatus>({
+    queryKey: ["/api/collection-status"],
+    refetchInterval: 30000,
+  });
+
+  const collectMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/session-snapshots/collect-all");
+      return res.json() as Promise<{ collected: number; results: { success: boolean }[] }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collection-status"] });
+      const failed = data.results.filter((r) => !r.success).length;
+      toast({
+        title: "Coleta concluída",
+        description: failed > 0
+          ? `${data.collected} empresas processadas, ${failed} com falha.`
+          : `${data.collected} empresas processadas.`,
+        variant: failed > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao coletar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <header className="border-b bg-background sticky top-0 z-50">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setLocation("/dashboard")}
+                data-testid="button-back"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <div className="flex items-center justify-center w-10 h-10 rounded-md bg-primary">
+                <Shield className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold">Coleta de Histórico</h1>
+                <p className="text-xs text-muted-foreground">Sessões dos jobs coletadas do VSPC</p>
+              </div>
+            </div>
+
+            <Button
+              onClick={() => collectMutation.mutate()}
+              disabled={collectMutation.isPending || status?.isCollecting}
+              data-testid="button-collect-now"
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${collectMutation.isPending ? "animate-spin" : ""}`} />
+              {collectMutation.isPending ? "Coletando..." : "Coletar Agora"}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {isLoading ? (
+          <Card>
+            <CardContent className="p-6">
+              <div className="space-y-4">
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            </CardContent>
+          </Card>
+        ) : status && status.companies.length > 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Última Coleta por Empresa</CardTitle>
+              <CardDescription data-testid="text-collection-schedule">
+                {status.enabled
+                  ? `Coleta automática a cada ${status.intervalMinutes} minutos.`
+                  : "Coleta automática desativada (SNAPSHOT_COLLECTION_INTERVAL_MINUTES=0)."}
+                {status.lastCollectionAt && ` Última execução ${formatRelative(status.lastCollectionAt)}.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Empresa</TableHead>
+                    <TableHead>Última coleta</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Sessões novas</TableHead>
+                    <TableHead>Último sucesso</TableHead>
+                    <TableHead>Erro</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {status.companies.map((company) => (
+                    <TableRow key={company.companyId} data-testid={`row-collection-${company.companyId}`}>
+                      <TableCell className="font-medium">{company.companyName}</TableCell>
+                      <TableCell title={format(new Date(company.lastRunAt), "dd/MM/yyyy HH:mm")}>
+                        {formatRelative(company.lastRunAt)}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={company.lastStatus} />
+                      </TableCell>
+                      <TableCell className="text-right">{company.lastSessionCount}</TableCell>
+                      <TableCell>
+                        {company.lastSuccessAt ? formatRelative(company.lastSuccessAt) : "Nunca"}
+                      </TableCell>
+                      <TableCell className="text-sm text-destructive max-w-md">
+                        {company.lastStatus === "failed" ? company.lastError : ""}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mb-6">
+                <History className="w-8 h-8 text-primary" />
+              </div>
+              <h2 className="text-xl font-semibold mb-2">Nenhuma coleta registrada</h2>
+              <p className="text-muted-foreground text-center max-w-md">
+                {status?.enabled
+                  ? `A primeira coleta é feita automaticamente e depois a cada ${status.intervalMinutes} minutos. Em modo demonstração nenhuma coleta é feita.`
+                  : "A coleta automática está desativada. Use o botão Coletar Agora para coletar as sessões manualmente."}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <RetentionCard />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Shield, ArrowLeft, Building2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { VeeamCompany, CompanyTimezones } from "@shared/schema";
+
+// Timezones of the customers we serve; "default" follows APP_TIMEZONE
+const TIMEZONE_OPTIONS = [
+  { value: "America/Sao_Paulo", label: "Brasília (America/Sao_Paulo)" },
+  { value: "America/Noronha", label: "Fernando de Noronha (America/Noronha)" },
+  { value: "America/Manaus", label: "Manaus (America/Manaus)" },
+  { value: "America/Cuiaba", label: "Cuiabá (America/Cuiaba)" },
+  { value: "America/Porto_Velho", label: "Porto Velho (America/Porto_Velho)" },
+  { value: "America/Boa_Vista", label: "Boa Vista (America/Boa_Vista)" },
+  { value: "America/Rio_Branco", label: "Rio Branco (America/Rio_Branco)" },
+  { value: "Europe/Lisbon", label: "Lisboa (Europe/Lisbon)" },
+  { value: "Atlantic/Madeira", label: "Madeira (Atlantic/Madeira)" },
+  { value: "Atlantic/Azores", label: "Açores (Atlantic/Azores)" },
+  { value: "UTC", label: "UTC" },
+];
+
+interface SettingsUpdate {
+  companyId: string;
+  timezone?: string | null;
+  contractedStorageGB?: number | null;
+  rpoHours?: number | null;
+}
+
+// Numeric setting saved when the field loses focus; empty (or not positive) saves null
+function SettingInput({
+  value,
+  step,
+  placeholder,
+  onSave,
+  disabled,
+  testId,
+}: {
+  value: string;
+  step: string;
+  placeholder: string;
+  onSave: (value: number | null) => void;
+  disabled: boolean;
+  testId: string;
+}) {
+  return (
+    <Input
+      key={value}
+      type="number"
+      min="0"
+      step={step}
+      placeholder={placeholder}
+      defaultValue={value}
+      disabled={disabled}
+      onBlur={(e) => {
+        const input = e.target.value.trim();
+        if (input === value) return;
+        const number = parseFloat(input);
+        onSave(input === "" || !(number > 0) ? null : number);
+      }}
+      data-testid={testId}
+    />
+  );
+}
+
+export default function Companies() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const { data: companies, isLoading: companiesLoading } = useQuery<VeeamCompany[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const { data: settings, isLoading: settingsLoading } = useQuery<CompanyTimezones>({
+    queryKey: ["/api/company-settings"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ companyId, ...settings }: SettingsUpdate) => {
+      const res = await apiRequest("PUT", `/api/company-settings/${companyId}`, settings);
+      return res.json() as Promise<{ rebuiltDays: number }>;
+    },
+    onSuccess: (data, { companyId, timezone, rpoHours }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/company-settings"] });
+      if (rpoHours !== undefined) {
+        queryClient.invalidateQueries({ queryKey: ["/api/rpo", companyId] });
+        queryClient.invalidateQueries({ queryKey: ["/api/scorecard", companyId] });
+        toast({ title: "Meta de RPO atualizada" });
+        return;
+      }
+      if (timezone === undefined) {
+        queryClient.invalidateQueries({ queryKey: [`/api/capacity/${companyId}`] });
+        toast({ title: "Armazenamento contratado atualizado" });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/session-states", companyId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/monthly-stats", companyId] });
+      toast({
+        title: "Fuso horário atualizado",
+        description: data.rebuiltDays > 0
+          ? `${data.rebuiltDays} dias do histórico foram recalculados.`
+          : "O calendário e os agendamentos passam a usar o novo fuso.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao atualizar empresa",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const settingsByCompany = new Map(
+    (settings?.companies || []).map((s) => [s.companyId, s])
+  );
+  const isLoading = companiesLoading || settingsLoading;
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <header className="border-b bg-background sticky top-0 z-50">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center gap-3">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setLocation("/dashboard")}
+              data-testid="button-back"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="flex items-center justify-center w-10 h-10 rounded-md bg-primary">
+              <Shield className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-lg font-semibold">Empresas</h1>
+              <p className="text-xs text-muted-foreground">Configurações por empresa</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {isLoading ? (
+          <Card>
+            <CardContent className="p-6">
+              <div className="space-y-4">
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            </CardContent>
+          </Card>
+        ) : companies && companies.length > 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Configurações por Empresa</CardTitle>
+              <CardDescription data-testid="text-default-timezone">
+                O fuso horário define em que dia cada sessão aparece no calendário e nos gráficos mensais, e o horário
+                dos agendamentos; empresas sem fuso próprio usam o padrão da aplicação ({settings?.defaultTimezone}).
+                O armazenamento contratado é usado na previsão de crescimento dos dados protegidos; vazio usa a cota
+                Cloud Connect. O RPO é a idade máxima, em horas, do ponto de restauração mais recente de cada VM e
+                computador; vazio usa o padrão ({settings?.defaultRpoHours} h).
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Empresa</TableHead>
+                    <TableHead className="w-[340px]">Fuso horário</TableHead>
+                    <TableHead className="w-[200px]">Contratado (TB)</TableHead>
+                    <TableHead className="w-[140px]">RPO (horas)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {companies.map((company) => {
+                    const companySettings = settingsByCompany.get(company.instanceUid);
+                    const timezone = companySettings?.timezone || null;
+                    const contractedTB = companySettings?.contractedStorageGB != null
+                      ? String(Math.round((companySettings.contractedStorageGB / 1024) * 100) / 100)
+                      : "";
+                    const isKnown = !timezone || TIMEZONE_OPTIONS.some((o) => o.value === timezone);
+                    return (
+                      <TableRow key={company.instanceUid} data-testid={`row-company-${company.instanceUid}`}>
+                        <TableCell className="font-medium">{company.name}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={timezone || "default"}
+                            onValueChange={(value) =>
+                              updateMutation.mutate({
+                                companyId: company.instanceUid,
+                                timezone: value === "default" ? null : value,
+                              })
+                            }
+                            disabled={updateMutation.isPending}
+                          >
+                            <SelectTrigger data-testid={`select-timezone-${company.instanceUid}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="default">Padrão ({settings?.defaultTimezone})</SelectItem>
+                              {!isKnown && <SelectItem value={timezone!}>{timezone}</SelectItem>}
+                              {TIMEZONE_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <SettingInput
+                            value={contractedTB}
+                            step="0.5"
+                            placeholder="Cota Cloud Connect"
+                            onSave={(tb) =>
+                              updateMutation.mutate({
+                                companyId: company.instanceUid,
+                                contractedStorageGB: tb !== null ? tb * 1024 : null,
+                              })
+                            }
+                            disabled={updateMutation.isPending}
+                            testId={`input-contracted-${company.instanceUid}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <SettingInput
+                            value={companySettings?.rpoHours != null ? String(companySettings.rpoHours) : ""}
+                            step="1"
+                            placeholder={`${settings?.defaultRpoHours} h`}
+                            onSave={(hours) =>
+                              updateMutation.mutate({
+                                companyId: company.instanceUid,
+                                rpoHours: hours !== null ? Math.round(hours) : null,
+                              })
+                            }
+                            disabled={updateMutation.isPending}
+                            testId={`input-rpo-${company.instanceUid}`}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mb-6">
+                <Building2 className="w-8 h-8 text-primary" />
+              </div>
+              <h2 className="text-xl font-semibold mb-2">Nenhuma empresa encontrada</h2>
+              <p className="text-muted-foreground text-center max-w-md">
+                As empresas são carregadas das instâncias VSPC configuradas.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,59 +1,148 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { Building2, ArrowUpRight } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Building2, ArrowUpRight, Database, CheckCircle2, Activity, HardDrive } from "lucide-react";
 import { DashboardHeader } from "@/components/dashboard-header";
+import { MetricCard } from "@/components/metric-card";
+import { HealthStatusCard } from "@/components/health-status-card";
+import { FailuresTable } from "@/components/failures-table";
+import { RepositoryCards } from "@/components/repository-cards";
 import { ProtectedDataOverview } from "@/components/protected-data-overview";
 import { DataPlatformScorecard } from "@/components/data-platform-scorecard";
-import { SessionStatesCalendar } from "@/components/session-states-calendar";
+import {
+  SessionStatesCalendar,
+  DEFAULT_SESSION_CALENDAR_RANGE,
+  getSessionCalendarDates,
+  type SessionCalendarRange,
+} from "@/components/session-states-calendar";
+import { SessionBackfillDialog } from "@/components/session-backfill-dialog";
 import { MonthlyCharts } from "@/components/monthly-charts";
 import { AlarmsTable } from "@/components/alarms-table";
+import { SizeAnomaliesCard } from "@/components/size-anomalies-card";
+import { RpoComplianceDialog } from "@/components/rpo-compliance-dialog";
 import { FailedJobsTable } from "@/components/failed-jobs-table";
-import type { VeeamCompany, DashboardMetrics, DataPlatformScorecard as ScorecardType, SessionStatesData, MonthlyChartData, VeeamAlarm, FailedJob } from "@shared/schema";
+import { DataStatusBanner } from "@/components/data-status-banner";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useCompanyToday } from "@/hooks/use-company-today";
+import type { VeeamCompany, DashboardMetrics, DataPlatformScorecard as ScorecardType, SessionStatesData, MonthlyChartData, VeeamAlarm, FailedJob, VeeamRepository, DataStatus, CapacityTrend, SizeAnomalyReport } from "@shared/schema";
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
   const [selectedCompany, setSelectedCompany] = useState<string>("");
   const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
+  const [calendarRange, setCalendarRange] = useState<SessionCalendarRange>(DEFAULT_SESSION_CALENDAR_RANGE);
+  const companyToday = useCompanyToday(selectedCompany || undefined);
+  const calendarDates = companyToday ? getSessionCalendarDates(calendarRange, companyToday) : null;
+  const [monthlyYear, setMonthlyYear] = useState<number | null>(null);
+  const [monthlyCompare, setMonthlyCompare] = useState(false);
+  const [isRpoDialogOpen, setIsRpoDialogOpen] = useState(false);
+  const { toast } = useToast();
 
-  const { data: companies, isLoading: companiesLoading } = useQuery<VeeamCompany[]>({
+  const { data: companies, isLoading: companiesLoading, error: companiesError } = useQuery<VeeamCompany[]>({
     queryKey: ["/api/companies"],
   });
 
-  const { data: metrics, isLoading: metricsLoading } = useQuery<DashboardMetrics>({
+  const { data: metrics, isLoading: metricsLoading, error: metricsError } = useQuery<DashboardMetrics>({
     queryKey: [`/api/dashboard/metrics/${selectedCompany}`],
     enabled: !!selectedCompany,
   });
 
-  const { data: scorecard, isLoading: scorecardLoading } = useQuery<ScorecardType>({
+  const { data: scorecard, isLoading: scorecardLoading, error: scorecardError } = useQuery<ScorecardType>({
     queryKey: ['/api/scorecard', selectedCompany],
     enabled: !!selectedCompany,
   });
 
   const { data: sessionStates, isLoading: sessionStatesLoading } = useQuery<SessionStatesData>({
-    queryKey: ['/api/session-states', selectedCompany],
-    enabled: !!selectedCompany,
+    queryKey: ['/api/session-states', selectedCompany, calendarDates?.from, calendarDates?.to],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/session-states/${selectedCompany}?from=${calendarDates!.from}&to=${calendarDates!.to}`
+      );
+      return res.json();
+    },
+    enabled: !!selectedCompany && !!calendarDates,
   });
 
   const { data: monthlyStats, isLoading: monthlyStatsLoading } = useQuery<MonthlyChartData[]>({
-    queryKey: ['/api/monthly-stats', selectedCompany],
+    queryKey: ['/api/monthly-stats', selectedCompany, monthlyYear ?? 'rolling'],
+    queryFn: async () => {
+      const query = monthlyYear !== null ? `?year=${monthlyYear}` : "";
+      const res = await apiRequest("GET", `/api/monthly-stats/${selectedCompany}${query}`);
+      return res.json();
+    },
+    enabled: !!selectedCompany,
+  });
+
+  const { data: capacity } = useQuery<CapacityTrend>({
+    queryKey: [`/api/capacity/${selectedCompany}`],
+    enabled: !!selectedCompany,
+  });
+
+  const { data: sizeAnomalies, isLoading: sizeAnomaliesLoading } = useQuery<SizeAnomalyReport>({
+    queryKey: [`/api/size-anomalies/${selectedCompany}`],
     enabled: !!selectedCompany,
   });
 
-  const { data: alarms, isLoading: alarmsLoading } = useQuery<VeeamAlarm[]>({
+  const { data: alarms, isLoading: alarmsLoading, error: alarmsError } = useQuery<VeeamAlarm[]>({
     queryKey: [`/api/alarms/${selectedCompany}`],
     enabled: !!selectedCompany,
   });
 
-  const { data: failedJobs, isLoading: failedJobsLoading } = useQuery<FailedJob[]>({
+  const { data: failedJobs, isLoading: failedJobsLoading, error: failedJobsError } = useQuery<FailedJob[]>({
     queryKey: [`/api/failed-jobs/${selectedCompany}`],
     enabled: !!selectedCompany,
   });
 
-  const { data: user } = useQuery<{ name: string; username: string }>({
-    queryKey: ["/api/auth/me"],
+  const { data: repositories, isLoading: repositoriesLoading, error: repositoriesError } = useQuery<VeeamRepository[]>({
+    queryKey: ['/api/repositories', selectedCompany],
+    enabled: !!selectedCompany,
+  });
+
+  // Age and health of the cached VSPC data; asked once the metrics request (and thus the cache) settled
+  const { data: dataStatus } = useQuery<DataStatus>({
+    queryKey: ['/api/data-status', selectedCompany],
+    enabled: !!selectedCompany && !metricsLoading,
+    refetchInterval: 60000,
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/cache/refresh/${selectedCompany}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          query.queryKey[0] === "/api/companies" ||
+          query.queryKey.some((part) => typeof part === "string" && part.includes(selectedCompany)),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao atualizar dados",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
+  const { user, isAdmin, canOperate, isCustomer, needsTwoFactorSetup } = useCurrentUser();
+
+  useEffect(() => {
+    if (needsTwoFactorSetup) {
+      setLocation("/profile");
+    }
+  }, [needsTwoFactorSetup, setLocation]);
+
+  // Customer users have a single company, selected for them
+  useEffect(() => {
+    if (user?.companyId) {
+      setSelectedCompany(user.companyId);
+    }
+  }, [user?.companyId]);
+
   const handleLogout = async () => {
     try {
       await fetch("/api/auth/logout", { method: "POST" });
@@ -67,6 +156,13 @@ export default function Dashboard() {
     setSelectedCompany(companyId);
   };
 
+  const formatStorage = (sizeGB: number): string => {
+    if (sizeGB >= 1024) {
+      return `${(sizeGB / 1024).toFixed(1)} TB`;
+    }
+    return `${sizeGB.toFixed(1)} GB`;
+  };
+
   if (companiesLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center" data-testid="loading-companies">
@@ -85,11 +181,22 @@ export default function Dashboard() {
         selectedCompany={selectedCompany}
         onCompanyChange={handleCompanyChange}
         userName={user?.name || "Usuário"}
+        userLogin={user?.username || ""}
+        isAdmin={isAdmin}
+        canOperate={canOperate}
+        companyLocked={isCustomer}
         onLogout={handleLogout}
         onScheduleClick={() => setIsScheduleModalOpen(true)}
+        dataFetchedAt={dataStatus?.fetchedAt ?? null}
+        onRefresh={canOperate ? () => refreshMutation.mutate() : undefined}
+        isRefreshing={refreshMutation.isPending}
       />
 
       <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <DataStatusBanner
+          status={dataStatus}
+          queryErrors={[companiesError, metricsError, scorecardError, alarmsError, failedJobsError, repositoriesError]}
+        />
         {metricsLoading || scorecardLoading ? (
           <div className="text-center py-12" data-testid="loading-metrics">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
@@ -97,17 +204,67 @@ export default function Dashboard() {
           </div>
         ) : metrics && scorecard ? (
           <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+              <MetricCard
+                title="Total de Jobs"
+                value={metrics.totalBackups}
+                subtitle="Jobs de backup configurados"
+                icon={Database}
+              />
+              <MetricCard
+                title="Taxa de Sucesso"
+                value={`${metrics.successRate.toFixed(1)}%`}
+                subtitle="Última execução dos jobs"
+                icon={CheckCircle2}
+                iconColor="text-green-600"
+              />
+              <MetricCard
+                title="Jobs Ativos"
+                value={metrics.activeJobs}
+                subtitle="Jobs habilitados"
+                icon={Activity}
+              />
+              <MetricCard
+                title="Armazenamento"
+                value={formatStorage(metrics.storageUsedGB)}
+                subtitle="Total em pontos de restauração"
+                icon={HardDrive}
+              />
+            </div>
             <DataPlatformScorecard
               overallScore={scorecard.overallScore}
               status={scorecard.status}
               statusMessage={scorecard.statusMessage}
               jobSessions={scorecard.jobSessions}
               platformHealth={scorecard.platformHealth}
+              rpoCompliance={scorecard.rpoCompliance}
+              onRpoDetail={() => setIsRpoDialogOpen(true)}
+            />
+            <RpoComplianceDialog
+              companyId={selectedCompany}
+              open={isRpoDialogOpen}
+              onOpenChange={setIsRpoDialogOpen}
+              canEdit={canOperate}
+            />
+            <ProtectedDataOverview workloads={metrics.protectedWorkloads} capacity={capacity} />
+            <SizeAnomaliesCard report={sizeAnomalies} isLoading={sizeAnomaliesLoading} />
+            <HealthStatusCard
+              status={metrics.healthStatus}
+              totalBackups={metrics.totalBackups}
+              successRate={metrics.successRate}
+              activeJobs={metrics.activeJobs}
+            />
+            <RepositoryCards
+              repositories={repositories || []}
+              isLoading={repositoriesLoading}
             />
-            <ProtectedDataOverview workloads={metrics.protectedWorkloads} />
             <MonthlyCharts 
               data={monthlyStats || []} 
               isLoading={monthlyStatsLoading} 
+              year={monthlyYear}
+              onYearChange={setMonthlyYear}
+              compare={monthlyCompare}
+              onCompareChange={setMonthlyCompare}
             />
             <AlarmsTable 
               alarms={alarms || []} 
@@ -115,12 +272,17 @@ export default function Dashboard() {
             />
             <SessionStatesCalendar 
               data={sessionStates || { days: [], hasData: false }} 
-              isLoading={sessionStatesLoading} 
+              isLoading={sessionStatesLoading || !calendarDates} 
+              range={calendarRange}
+              today={companyToday}
+              onRangeChange={setCalendarRange}
+              action={dataStatus?.mode === "live" && canOperate && <SessionBackfillDialog companyId={selectedCompany} />}
             />
             <FailedJobsTable 
               jobs={failedJobs || []} 
               isLoading={failedJobsLoading} 
             />
+            <FailuresTable failures={metrics.recentFailures} />
           </>
         ) : !selectedCompany ? (
           <div className="flex flex-col items-center justify-center py-24" data-testid="select-company-prompt">
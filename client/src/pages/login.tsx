@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useState, useEffect, type FormEvent } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -7,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Shield } from "lucide-react";
@@ -22,6 +24,34 @@ export default function Login() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  // Second step, for users with two-factor authentication: the password was right, the code is missing
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const { data: ssoConfig } = useQuery<{ enabled: boolean }>({
+    queryKey: ["/api/auth/sso/config"],
+  });
+
+  // A failed single sign-on comes back here with the reason in the query string, and one of a user
+  // with two-factor authentication with two_factor=1 for the code step
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const ssoError = params.get("sso_error");
+    if (ssoError) {
+      toast({
+        variant: "destructive",
+        title: "Erro no login",
+        description: ssoError,
+      });
+    }
+    if (params.get("two_factor")) {
+      setTwoFactorStep(true);
+    }
+    if (ssoError || params.get("two_factor")) {
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, [toast]);
 
   const form = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -31,6 +61,21 @@ export default function Login() {
     },
   });
 
+  const finishLogin = () => {
+    toast({
+      title: "Login realizado",
+      description: "Bem-vindo ao Dashboard Veeam VSPC",
+    });
+    setLocation("/dashboard");
+  };
+
+  const backToPassword = () => {
+    setTwoFactorStep(false);
+    setUseRecoveryCode(false);
+    setCode("");
+    form.resetField("password");
+  };
+
   const onSubmit = async (data: LoginForm) => {
     setIsLoading(true);
     try {
@@ -38,11 +83,9 @@ export default function Login() {
       const result = await response.json();
       
       if (result.success) {
-        toast({
-          title: "Login realizado",
-          description: "Bem-vindo ao Dashboard Veeam VSPC",
-        });
-        setLocation("/dashboard");
+        finishLogin();
+      } else if (result.twoFactorRequired) {
+        setTwoFactorStep(true);
       } else {
         toast({
           variant: "destructive",
@@ -61,6 +104,94 @@ export default function Login() {
     }
   };
 
+  const onSubmitCode = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await apiRequest("POST", "/api/auth/login/2fa", { code });
+      const result = await response.json();
+      if (result.success) {
+        finishLogin();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Ocorreu um erro. Tente novamente.";
+      toast({
+        variant: "destructive",
+        title: "Erro no login",
+        description: message,
+      });
+      // Expired or too many attempts: start over with the password
+      if (/expirou|tentativas/.test(message)) {
+        backToPassword();
+      } else {
+        setCode("");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const twoFactorForm = (
+    <form onSubmit={onSubmitCode} className="space-y-4">
+      {useRecoveryCode ? (
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          autoFocus
+          data-testid="input-recovery-code"
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            autoComplete="one-time-code"
+            autoFocus
+            data-testid="input-totp-code"
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isLoading || (useRecoveryCode ? code.trim().length < 10 : code.length < 6)}
+        data-testid="button-verify-code"
+      >
+        {isLoading ? "Verificando..." : "Verificar"}
+      </Button>
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-foreground"
+          onClick={backToPassword}
+          data-testid="button-back-to-password"
+        >
+          Voltar
+        </button>
+        <button
+          type="button"
+          className="text-primary hover:underline"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+          data-testid="button-toggle-recovery-code"
+        >
+          {useRecoveryCode ? "Usar o aplicativo autenticador" : "Usar um código de recuperação"}
+        </button>
+      </div>
+    </form>
+  );
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-muted/30 px-4">
       <div className="w-full max-w-md">
@@ -74,60 +205,82 @@ export default function Login() {
 
         <Card>
           <CardHeader className="space-y-1">
-            <CardTitle className="text-xl">Login</CardTitle>
-            <CardDescription>Entre com suas credenciais para acessar o dashboard</CardDescription>
+            <CardTitle className="text-xl">{twoFactorStep ? "Verificação em duas etapas" : "Login"}</CardTitle>
+            <CardDescription>
+              {!twoFactorStep
+                ? "Entre com suas credenciais para acessar o dashboard"
+                : useRecoveryCode
+                  ? "Digite um dos seus códigos de recuperação. Cada código só pode ser usado uma vez"
+                  : "Digite o código de 6 dígitos do seu aplicativo autenticador"}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="username"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel data-testid="label-email">E-mail</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          type="email"
-                          placeholder="login@sistema.com"
-                          autoComplete="username"
-                          data-testid="input-email"
-                        />
-                      </FormControl>
-                      <FormMessage data-testid="error-email" />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel data-testid="label-password">Senha</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          type="password"
-                          placeholder="••••••••"
-                          autoComplete="current-password"
-                          data-testid="input-password"
-                        />
-                      </FormControl>
-                      <FormMessage data-testid="error-password" />
-                    </FormItem>
-                  )}
-                />
-                <Button
-                  type="submit"
-                  className="w-full"
-                  disabled={isLoading}
-                  data-testid="button-login"
-                >
-                  {isLoading ? "Entrando..." : "Entrar"}
-                </Button>
-              </form>
-            </Form>
+            {twoFactorStep ? twoFactorForm : (
+              <>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel data-testid="label-email">E-mail</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              type="email"
+                              placeholder="login@sistema.com"
+                              autoComplete="username"
+                              data-testid="input-email"
+                            />
+                          </FormControl>
+                          <FormMessage data-testid="error-email" />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel data-testid="label-password">Senha</FormLabel>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              type="password"
+                              placeholder="••••••••"
+                              autoComplete="current-password"
+                              data-testid="input-password"
+                            />
+                          </FormControl>
+                          <FormMessage data-testid="error-password" />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={isLoading}
+                      data-testid="button-login"
+                    >
+                      {isLoading ? "Entrando..." : "Entrar"}
+                    </Button>
+                  </form>
+                </Form>
+                {ssoConfig?.enabled && (
+                  <>
+                    <div className="flex items-center gap-3 my-4">
+                      <div className="h-px flex-1 bg-border" />
+                      <span className="text-xs text-muted-foreground">ou</span>
+                      <div className="h-px flex-1 bg-border" />
+                    </div>
+                    <Button variant="outline" className="w-full" asChild data-testid="button-login-sso">
+                      <a href="/api/auth/sso/login">Entrar com Microsoft</a>
+                    </Button>
+                  </>
+                )}
+              </>
+            )}
           </CardContent>
         </Card>
 
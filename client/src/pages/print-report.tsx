@@ -3,10 +3,16 @@ import { useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { ProtectedDataOverview } from "@/components/protected-data-overview";
 import { DataPlatformScorecard } from "@/components/data-platform-scorecard";
-import { SessionStatesCalendar } from "@/components/session-states-calendar";
+import {
+  SessionStatesCalendar,
+  getSessionCalendarDates,
+  type SessionCalendarPreset,
+} from "@/components/session-states-calendar";
 import { MonthlyCharts } from "@/components/monthly-charts";
 import { FailedJobsTable } from "@/components/failed-jobs-table";
-import type { DashboardMetrics, DataPlatformScorecard as ScorecardType, SessionStatesData, MonthlyChartData, FailedJob } from "@shared/schema";
+import { RepositoryCards } from "@/components/repository-cards";
+import { useCompanyToday } from "@/hooks/use-company-today";
+import type { DashboardMetrics, DataPlatformScorecard as ScorecardType, SessionStatesData, MonthlyChartData, FailedJob, VeeamRepository, DataMode, CapacityTrend } from "@shared/schema";
 
 import gruppenLogo from "@assets/gruppen_1765573676765.png";
 import zeroboxLogo from "@assets/zerobox_1765573676765.png";
@@ -21,8 +27,12 @@ interface ReportData {
   scorecard: ScorecardType;
   sessionStates: SessionStatesData;
   monthlyStats: MonthlyChartData[];
+  capacity: CapacityTrend | null;
   failedJobs: FailedJob[];
+  repositories: VeeamRepository[];
+  dataMode: DataMode;
   generatedAt: string;
+  errors?: string[];
 }
 
 function getFrequencyLabel(frequency: string): string {
@@ -48,12 +58,22 @@ export default function PrintReport() {
   const frequency = searchParams.get("frequency") || "weekly";
   const frequencyLabel = getFrequencyLabel(frequency);
 
-  const { data: reportData, isLoading, isError, error } = useQuery<ReportData>({
-    queryKey: ['/api/report/data', companyId],
-    enabled: !!companyId,
+  // Session calendar period: ?calendar=30d (default), 90d or 12m
+  const calendarParam = searchParams.get("calendar");
+  const calendarRange = {
+    preset: (calendarParam === "90d" || calendarParam === "12m" ? calendarParam : "30d") as SessionCalendarPreset,
+    monthOffset: 0,
+  };
+  const companyToday = useCompanyToday(companyId);
+  const calendarDates = companyToday ? getSessionCalendarDates(calendarRange, companyToday) : null;
+
+  const { data: reportData, isLoading: isReportLoading, isError, error } = useQuery<ReportData>({
+    queryKey: [`/api/report/data/${companyId}?from=${calendarDates?.from}&to=${calendarDates?.to}`],
+    enabled: !!companyId && !!calendarDates,
     retry: 2,
     staleTime: 0,
   });
+  const isLoading = isReportLoading || !calendarDates;
 
   const reportDate = new Date().toLocaleDateString("pt-BR", {
     day: "2-digit",
@@ -99,16 +119,28 @@ export default function PrintReport() {
   }
 
   if (isError || !reportData?.success) {
+    // The PDF service reads this text into the schedule run's error message
+    const errorDetail = isError
+      ? (error instanceof Error ? error.message : String(error))
+      : (reportData?.errors || []).join("; ");
+
     return (
       <div className="min-h-screen flex items-center justify-center bg-white" data-error="true">
-        <p className="text-muted-foreground" data-testid="error-no-data">
-          Erro ao carregar dados do relatório
-        </p>
+        <div className="text-center">
+          <p className="text-muted-foreground" data-testid="error-no-data">
+            Erro ao carregar dados do relatório
+          </p>
+          {errorDetail && (
+            <p className="text-sm text-muted-foreground mt-2" data-testid="error-detail">
+              {errorDetail}
+            </p>
+          )}
+        </div>
       </div>
     );
   }
 
-  const { metrics, scorecard, sessionStates, monthlyStats, failedJobs, companyName } = reportData;
+  const { metrics, scorecard, sessionStates, monthlyStats, failedJobs, repositories, capacity, companyName } = reportData;
 
   return (
     <div className="bg-white min-h-screen print-report" data-ready={isReady}>
@@ -203,6 +235,7 @@ export default function PrintReport() {
             statusMessage={scorecard.statusMessage}
             jobSessions={scorecard.jobSessions}
             platformHealth={scorecard.platformHealth}
+            rpoCompliance={scorecard.rpoCompliance}
           />
         </div>
       </div>
@@ -210,31 +243,41 @@ export default function PrintReport() {
       {/* PÁGINA 3: Protected Data Overview */}
       <div className="page-break report-page">
         <div className="report-page-content">
-          <ProtectedDataOverview workloads={metrics.protectedWorkloads} />
+          <ProtectedDataOverview workloads={metrics.protectedWorkloads} capacity={capacity} />
+        </div>
+      </div>
+
+      {/* PÁGINA 4: Repositórios */}
+      <div className="page-break report-page">
+        <div className="report-page-content">
+          <RepositoryCards repositories={repositories || []} />
         </div>
       </div>
 
-      {/* PÁGINA 4: Gráficos Mensais */}
+      {/* PÁGINA 5: Gráficos Mensais */}
       <div className="page-break report-page">
         <div className="report-page-content">
           <MonthlyCharts 
             data={monthlyStats || []} 
             isLoading={false} 
+            compare={(monthlyStats || []).some(d => d.previous.totalCount > 0)}
           />
         </div>
       </div>
 
-      {/* PÁGINA 5: Session States */}
+      {/* PÁGINA 6: Session States */}
       <div className="page-break report-page">
         <div className="report-page-content">
           <SessionStatesCalendar 
             data={sessionStates || { days: [], hasData: false }} 
             isLoading={false} 
+            range={calendarRange}
+            today={companyToday}
           />
         </div>
       </div>
 
-      {/* PÁGINA 6: Jobs com Falha */}
+      {/* PÁGINA 7: Jobs com Falha */}
       <div className="page-break report-page">
         <div className="report-page-content">
           <FailedJobsTable 
@@ -244,7 +287,7 @@ export default function PrintReport() {
         </div>
       </div>
 
-      {/* PÁGINA 7: Rodapé Formal */}
+      {/* PÁGINA 8: Rodapé Formal */}
       <div className="page-break report-page">
         <div className="report-page-content">
           <div className="max-w-4xl mx-auto bg-slate-50 rounded-lg p-8 border border-slate-200">
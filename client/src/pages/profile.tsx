@@ -3,18 +3,23 @@ import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { ArrowLeft, User, Lock } from "lucide-react";
+import { useCurrentUser, type CurrentUser } from "@/hooks/use-current-user";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { passwordSchema } from "@shared/schema";
+import { ArrowLeft, User, Lock, KeyRound, ShieldAlert, Copy, LogOut } from "lucide-react";
 
 const changePasswordSchema = z.object({
   currentPassword: z.string().min(1, "Digite a senha atual"),
-  newPassword: z.string().min(4, "A senha deve ter no mínimo 4 caracteres"),
+  newPassword: passwordSchema,
   confirmPassword: z.string().min(1, "Confirme a nova senha"),
 }).refine((data) => data.newPassword === data.confirmPassword, {
   message: "As senhas não coincidem",
@@ -23,14 +28,245 @@ const changePasswordSchema = z.object({
 
 type ChangePasswordForm = z.infer<typeof changePasswordSchema>;
 
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data URL of the QR code image
+}
+
+function CodeInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId: string }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} autoComplete="one-time-code" data-testid={testId}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Enrolment (QR code, then a code to confirm it), recovery codes, and turning it off again
+function TwoFactorCard({ user }: { user: CurrentUser | undefined }) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  // Shown once, right after enabling or replacing them
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  // Changes to an active two-factor authentication ask for a current code
+  const [action, setAction] = useState<"disable" | "regenerate" | null>(null);
+  const [code, setCode] = useState("");
+
+  const onError = (error: Error) => {
+    setCode("");
+    toast({
+      variant: "destructive",
+      title: "Erro",
+      description: error.message,
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup");
+      return res.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({ title: "Autenticação em dois fatores ativada" });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async () => {
+      const url = action === "disable" ? "/api/auth/2fa/disable" : "/api/auth/2fa/recovery-codes";
+      const res = await apiRequest("POST", url, { code });
+      return res.json() as Promise<{ recoveryCodes?: string[] }>;
+    },
+    onSuccess: (data) => {
+      if (data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes);
+        toast({ title: "Novos códigos de recuperação gerados" });
+      } else {
+        toast({ title: "Autenticação em dois fatores desativada" });
+      }
+      setAction(null);
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    },
+    onError,
+  });
+
+  const copyRecoveryCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes!.join("\n"));
+      toast({ title: "Códigos copiados" });
+    } catch {
+      toast({ variant: "destructive", title: "Não foi possível copiar os códigos" });
+    }
+  };
+
+  const enabled = !!user?.twoFactorEnabled;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <KeyRound className="h-5 w-5 text-primary" />
+          </div>
+          <div className="flex-1">
+            <CardTitle>Autenticação em Dois Fatores</CardTitle>
+            <CardDescription>
+              Além da senha, o login pede um código do aplicativo autenticador (Microsoft Authenticator, Google Authenticator...)
+            </CardDescription>
+          </div>
+          <Badge variant={enabled ? "default" : "secondary"} data-testid="badge-2fa-status">
+            {enabled ? "Ativa" : "Inativa"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user?.twoFactorRequired && !enabled && (
+          <Alert variant="destructive" data-testid="alert-2fa-required">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>
+              O seu perfil exige autenticação em dois fatores. Ative-a para continuar usando o dashboard.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Guarde estes códigos de recuperação em um lugar seguro. Cada um permite entrar uma vez sem o celular;
+              eles não serão mostrados novamente.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm" data-testid="list-recovery-codes">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={copyRecoveryCodes} data-testid="button-copy-recovery-codes">
+                <Copy className="h-4 w-4 mr-2" />
+                Copiar
+              </Button>
+              <Button onClick={() => setRecoveryCodes(null)} data-testid="button-recovery-codes-saved">
+                Já guardei os códigos
+              </Button>
+            </div>
+          </div>
+        ) : !enabled ? (
+          setup ? (
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                enableMutation.mutate();
+              }}
+            >
+              <p className="text-sm">1. Escaneie o QR code com o aplicativo autenticador.</p>
+              <img src={setup.qrCode} alt="QR code da autenticação em dois fatores" className="h-[220px] w-[220px] rounded-md border" data-testid="img-2fa-qrcode" />
+              <p className="text-xs text-muted-foreground">
+                Sem câmera? Digite a chave no aplicativo:{" "}
+                <span className="font-mono break-all" data-testid="text-2fa-secret">{setup.secret}</span>
+              </p>
+              <p className="text-sm">2. Digite o código de 6 dígitos mostrado pelo aplicativo.</p>
+              <CodeInput value={code} onChange={setCode} testId="input-2fa-enable-code" />
+              <div className="flex gap-2">
+                <Button type="submit" disabled={code.length < 6 || enableMutation.isPending} data-testid="button-2fa-confirm">
+                  {enableMutation.isPending ? "Verificando..." : "Ativar"}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setSetup(null)} data-testid="button-2fa-cancel">
+                  Cancelar
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-2fa-setup">
+              {setupMutation.isPending ? "Gerando QR code..." : "Configurar autenticação em dois fatores"}
+            </Button>
+          )
+        ) : action ? (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              actionMutation.mutate();
+            }}
+          >
+            <p className="text-sm">
+              {action === "disable"
+                ? "Para desativar, digite um código do aplicativo autenticador ou um código de recuperação."
+                : "Para gerar novos códigos, digite um código do aplicativo autenticador ou um código de recuperação. Os códigos atuais deixam de valer."}
+            </p>
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456 ou xxxxx-xxxxx"
+              autoComplete="one-time-code"
+              className="max-w-xs"
+              data-testid="input-2fa-action-code"
+            />
+            <div className="flex gap-2">
+              <Button
+                type="submit"
+                variant={action === "disable" ? "destructive" : "default"}
+                disabled={code.trim().length < 6 || actionMutation.isPending}
+                data-testid="button-2fa-action-confirm"
+              >
+                {action === "disable" ? "Desativar" : "Gerar novos códigos"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setAction(null)} data-testid="button-2fa-action-cancel">
+                Cancelar
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground" data-testid="text-recovery-codes-left">
+              Códigos de recuperação restantes: {user?.recoveryCodesLeft ?? 0}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => { setAction("regenerate"); setCode(""); }} data-testid="button-2fa-regenerate">
+                Gerar novos códigos de recuperação
+              </Button>
+              {/* Required by the role: only an admin can reset it */}
+              {!user?.twoFactorRequired && (
+                <Button variant="outline" onClick={() => { setAction("disable"); setCode(""); }} data-testid="button-2fa-disable">
+                  Desativar
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Profile() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
 
-  const { data: user } = useQuery<{ name: string; username: string }>({
-    queryKey: ["/api/auth/me"],
-  });
+  const { user, needsTwoFactorSetup } = useCurrentUser();
 
   const form = useForm<ChangePasswordForm>({
     resolver: zodResolver(changePasswordSchema),
@@ -90,6 +326,21 @@ export default function Profile() {
           <div className="flex-1">
             <h1 className="text-xl font-semibold">Perfil</h1>
           </div>
+          {/* The dashboard is locked until enrolment, so this is the way out */}
+          {needsTwoFactorSetup && (
+            <Button
+              variant="ghost"
+              onClick={async () => {
+                await fetch("/api/auth/logout", { method: "POST" });
+                queryClient.clear();
+                setLocation("/");
+              }}
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Sair
+            </Button>
+          )}
         </div>
       </header>
 
@@ -119,6 +370,8 @@ export default function Profile() {
             </CardContent>
           </Card>
 
+          <TwoFactorCard user={user} />
+
           <Card>
             <CardHeader>
               <div className="flex items-center gap-3">
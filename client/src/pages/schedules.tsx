@@ -69,6 +69,7 @@ import {
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { VeeamCompany, ReportSchedule, ScheduleRecipient, ScheduleRun } from "@shared/schema";
 
@@ -106,6 +107,7 @@ interface ScheduleWithRecipients extends ReportSchedule {
 export default function Schedules() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { canOperate } = useCurrentUser();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<ScheduleWithRecipients | null>(null);
   const [deleteScheduleId, setDeleteScheduleId] = useState<string | null>(null);
@@ -378,13 +380,15 @@ export default function Schedules() {
               </div>
             </div>
 
-            <Button
-              onClick={handleOpenNewSchedule}
-              data-testid="button-new-schedule"
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              Novo Agendamento
-            </Button>
+            {canOperate && (
+              <Button
+                onClick={handleOpenNewSchedule}
+                data-testid="button-new-schedule"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Novo Agendamento
+              </Button>
+            )}
           </div>
         </div>
       </header>
@@ -403,9 +407,11 @@ export default function Schedules() {
         ) : schedules && schedules.length > 0 ? (
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">Meus Agendamentos</CardTitle>
+              <CardTitle className="text-lg">Agendamentos da Equipe</CardTitle>
               <CardDescription>
-                Gerencie os relatórios automáticos configurados para envio por e-mail
+                {canOperate
+                  ? "Gerencie os relatórios automáticos configurados para envio por e-mail"
+                  : "Relatórios automáticos configurados para envio por e-mail (somente leitura)"}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -455,30 +461,34 @@ export default function Schedules() {
                       </TableCell>
                       <TableCell>
                         <div className="flex justify-end gap-1">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => runMutation.mutate(schedule.id)}
-                            disabled={runningScheduleId !== null}
-                            title="Enviar agora"
-                            className="text-primary hover:text-primary"
-                            data-testid={`button-run-${schedule.id}`}
-                          >
-                            {runningScheduleId === schedule.id ? (
-                              <Loader2 className="w-4 h-4 animate-spin" />
-                            ) : (
-                              <Send className="w-4 h-4" />
-                            )}
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleEditSchedule(schedule)}
-                            title="Editar"
-                            data-testid={`button-edit-${schedule.id}`}
-                          >
-                            <Pencil className="w-4 h-4" />
-                          </Button>
+                          {canOperate && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => runMutation.mutate(schedule.id)}
+                                disabled={runningScheduleId !== null}
+                                title="Enviar agora"
+                                className="text-primary hover:text-primary"
+                                data-testid={`button-run-${schedule.id}`}
+                              >
+                                {runningScheduleId === schedule.id ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <Send className="w-4 h-4" />
+                                )}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleEditSchedule(schedule)}
+                                title="Editar"
+                                data-testid={`button-edit-${schedule.id}`}
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -488,29 +498,33 @@ export default function Schedules() {
                           >
                             <History className="w-4 h-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => toggleMutation.mutate(schedule.id)}
-                            title={schedule.isActive ? "Pausar" : "Ativar"}
-                            data-testid={`button-toggle-${schedule.id}`}
-                          >
-                            {schedule.isActive ? (
-                              <Pause className="w-4 h-4" />
-                            ) : (
-                              <Play className="w-4 h-4" />
-                            )}
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => setDeleteScheduleId(schedule.id)}
-                            className="text-destructive hover:text-destructive"
-                            title="Excluir"
-                            data-testid={`button-delete-${schedule.id}`}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                          {canOperate && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => toggleMutation.mutate(schedule.id)}
+                                title={schedule.isActive ? "Pausar" : "Ativar"}
+                                data-testid={`button-toggle-${schedule.id}`}
+                              >
+                                {schedule.isActive ? (
+                                  <Pause className="w-4 h-4" />
+                                ) : (
+                                  <Play className="w-4 h-4" />
+                                )}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setDeleteScheduleId(schedule.id)}
+                                className="text-destructive hover:text-destructive"
+                                title="Excluir"
+                                data-testid={`button-delete-${schedule.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -527,12 +541,14 @@ export default function Schedules() {
               </div>
               <h2 className="text-xl font-semibold mb-2">Nenhum agendamento</h2>
               <p className="text-muted-foreground mb-6 text-center max-w-md">
-                Você ainda não possui agendamentos de relatórios. Crie um novo agendamento para receber relatórios automáticos por e-mail.
+                Ainda não há agendamentos de relatórios. Crie um novo agendamento para receber relatórios automáticos por e-mail.
               </p>
-              <Button onClick={handleOpenNewSchedule} data-testid="button-create-first">
-                <Plus className="w-4 h-4 mr-2" />
-                Criar Primeiro Agendamento
-              </Button>
+              {canOperate && (
+                <Button onClick={handleOpenNewSchedule} data-testid="button-create-first">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Criar Primeiro Agendamento
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -717,7 +733,7 @@ export default function Schedules() {
                       />
                     </FormControl>
                     <p className="text-xs text-muted-foreground">
-                      Horário de Brasília (GMT-3)
+                      Horário no fuso da empresa (configurado em Empresas)
                     </p>
                     <FormMessage />
                   </FormItem>
@@ -0,0 +1,667 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Shield, ArrowLeft, Plus, Pencil, KeyRound, Pause, Play, ShieldOff, Users as UsersIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { USER_ROLES, usernameSchema, passwordSchema, type PublicUser, type UserRole, type VeeamCompany } from "@shared/schema";
+
+// Select value of users that are not tied to a company
+const TEAM_ACCESS = "team";
+
+// One dialog for the three forms: only the fields of the current mode are validated
+type DialogMode = "create" | "rename" | "password";
+
+const userFormSchema = z.object({
+  username: z.string(),
+  name: z.string(),
+  password: z.string(),
+  role: z.enum(USER_ROLES),
+  companyId: z.string(),
+});
+
+type UserFormData = z.infer<typeof userFormSchema>;
+
+const emptyForm: UserFormData = {
+  username: "",
+  name: "",
+  password: "",
+  role: "viewer",
+  companyId: TEAM_ACCESS,
+};
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Administrador",
+  operator: "Operador",
+  viewer: "Visualizador",
+};
+
+const DIALOG_TITLES: Record<DialogMode, string> = {
+  create: "Novo Usuário",
+  rename: "Renomear Usuário",
+  password: "Redefinir Senha",
+};
+
+// Team access plus one option per company; keeps a company that is no longer loaded selectable
+function CompanyAccessOptions({ companies, companyId }: { companies?: VeeamCompany[]; companyId: string | null }) {
+  const isKnown = !companyId || (companies || []).some((c) => c.instanceUid === companyId);
+  return (
+    <>
+      <SelectItem value={TEAM_ACCESS}>Equipe (todas as empresas)</SelectItem>
+      {!isKnown && <SelectItem value={companyId!}>{companyId}</SelectItem>}
+      {(companies || []).map((company) => (
+        <SelectItem key={company.instanceUid} value={company.instanceUid}>
+          {company.name}
+        </SelectItem>
+      ))}
+    </>
+  );
+}
+
+interface TwoFactorPolicy {
+  role: UserRole;
+  requireTwoFactor: boolean;
+}
+
+// Roles that must use two-factor authentication; their users are sent to enrol on the next request
+function TwoFactorPolicyCard() {
+  const { toast } = useToast();
+
+  const { data: policies } = useQuery<TwoFactorPolicy[]>({
+    queryKey: ["/api/role-policies"],
+  });
+
+  const policyMutation = useMutation({
+    mutationFn: async ({ role, requireTwoFactor }: TwoFactorPolicy) => {
+      return apiRequest("PUT", `/api/role-policies/${role}`, { requireTwoFactor });
+    },
+    onSuccess: (_, { role, requireTwoFactor }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/role-policies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: requireTwoFactor
+          ? `Autenticação em dois fatores obrigatória para ${ROLE_LABELS[role]}`
+          : `Autenticação em dois fatores opcional para ${ROLE_LABELS[role]}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao alterar política",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Autenticação em Dois Fatores</CardTitle>
+        <CardDescription>
+          Cada usuário pode ativar a autenticação em dois fatores no seu perfil. Nos perfis em que ela é obrigatória,
+          quem ainda não a ativou só acessa a página de perfil até configurá-la. A obrigatoriedade não se aplica a
+          logins pela Microsoft, que seguem a autenticação multifator do Entra ID.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(policies || []).map((policy) => (
+          <div key={policy.role} className="flex items-center gap-3">
+            <Switch
+              id={`require-2fa-${policy.role}`}
+              checked={policy.requireTwoFactor}
+              onCheckedChange={(requireTwoFactor) => policyMutation.mutate({ role: policy.role, requireTwoFactor })}
+              disabled={policyMutation.isPending}
+              data-testid={`switch-require-2fa-${policy.role}`}
+            />
+            <Label htmlFor={`require-2fa-${policy.role}`}>Obrigatória para {ROLE_LABELS[policy.role]}</Label>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Users() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [dialogMode, setDialogMode] = useState<DialogMode | null>(null);
+  const [selectedUser, setSelectedUser] = useState<PublicUser | null>(null);
+  const [resetTwoFactorUser, setResetTwoFactorUser] = useState<PublicUser | null>(null);
+
+  const { data: users, isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { user: currentUser } = useCurrentUser();
+
+  const { data: companies } = useQuery<VeeamCompany[]>({
+    queryKey: ["/api/companies"],
+  });
+
+  const form = useForm<UserFormData>({
+    resolver: zodResolver(userFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UserFormData) => {
+      if (dialogMode === "rename") {
+        return apiRequest("PATCH", `/api/users/${selectedUser!.id}`, { name: data.name });
+      }
+      if (dialogMode === "password") {
+        return apiRequest("POST", `/api/users/${selectedUser!.id}/reset-password`, { newPassword: data.password });
+      }
+      // Customer users are always read-only
+      const companyId = data.companyId === TEAM_ACCESS ? null : data.companyId;
+      return apiRequest("POST", "/api/users", {
+        ...data,
+        companyId,
+        role: companyId ? "viewer" : data.role,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: dialogMode === "create"
+          ? "Usuário criado"
+          : dialogMode === "rename"
+            ? "Usuário renomeado"
+            : "Senha redefinida",
+      });
+      handleCloseDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao salvar usuário",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (user: PublicUser) => {
+      return apiRequest("PATCH", `/api/users/${user.id}`, { isActive: !user.isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao alterar status",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const accessMutation = useMutation({
+    mutationFn: async ({ user, ...access }: { user: PublicUser; role?: UserRole; companyId?: string | null }) => {
+      return apiRequest("PATCH", `/api/users/${user.id}`, access);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Acesso atualizado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao alterar acesso",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (user: PublicUser) => {
+      return apiRequest("POST", `/api/users/${user.id}/reset-2fa`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Autenticação em dois fatores redefinida" });
+      setResetTwoFactorUser(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao redefinir autenticação em dois fatores",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const companyId = form.watch("companyId");
+
+  const handleOpenDialog = (mode: DialogMode, user: PublicUser | null = null) => {
+    setSelectedUser(user);
+    form.reset({ ...emptyForm, name: mode === "rename" && user ? user.name : "" });
+    setDialogMode(mode);
+  };
+
+  const handleCloseDialog = () => {
+    setDialogMode(null);
+    setSelectedUser(null);
+    form.reset(emptyForm);
+  };
+
+  const onSubmit = (data: UserFormData) => {
+    if (dialogMode === "create") {
+      const username = usernameSchema.safeParse(data.username);
+      if (!username.success) {
+        form.setError("username", { message: data.username.trim() ? username.error.issues[0].message : "Informe o login" });
+        return;
+      }
+    }
+    if (dialogMode !== "password" && data.name.trim().length < 2) {
+      form.setError("name", { message: "Nome deve ter no mínimo 2 caracteres" });
+      return;
+    }
+    if (dialogMode !== "rename") {
+      const password = passwordSchema.safeParse(data.password);
+      if (!password.success) {
+        form.setError("password", { message: password.error.issues[0].message });
+        return;
+      }
+    }
+    saveMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <header className="border-b bg-background sticky top-0 z-50">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setLocation("/dashboard")}
+                data-testid="button-back"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <div className="flex items-center justify-center w-10 h-10 rounded-md bg-primary">
+                <Shield className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold">Usuários</h1>
+                <p className="text-xs text-muted-foreground">Acesso ao dashboard</p>
+              </div>
+            </div>
+
+            <Button onClick={() => handleOpenDialog("create")} data-testid="button-new-user">
+              <Plus className="w-4 h-4 mr-2" />
+              Novo Usuário
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {isLoading ? (
+          <Card>
+            <CardContent className="p-6">
+              <div className="space-y-4">
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            </CardContent>
+          </Card>
+        ) : users && users.length > 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Usuários Cadastrados</CardTitle>
+              <CardDescription>
+                Administradores gerenciam usuários, instâncias VSPC e empresas; operadores gerenciam agendamentos,
+                destinatários e coletas; visualizadores apenas consultam dashboards e relatórios. Usuários de cliente
+                veem somente a própria empresa, sempre como visualizadores. Usuários desativados
+                não conseguem entrar e suas sessões abertas são encerradas; os agendamentos que criaram continuam
+                sendo enviados.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Login</TableHead>
+                    <TableHead className="w-[180px]">Perfil</TableHead>
+                    <TableHead className="w-[220px]">Empresa</TableHead>
+                    <TableHead>Criado em</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>2FA</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isCurrentUser = user.id === currentUser?.id;
+                    return (
+                      <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                        <TableCell className="font-medium">
+                          {user.name}
+                          {isCurrentUser && <span className="text-xs text-muted-foreground ml-2">(você)</span>}
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{user.username}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.role}
+                            onValueChange={(role) => accessMutation.mutate({ user, role: role as UserRole })}
+                            disabled={isCurrentUser || !!user.companyId || accessMutation.isPending}
+                          >
+                            <SelectTrigger data-testid={`select-role-${user.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {USER_ROLES.map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.companyId || TEAM_ACCESS}
+                            onValueChange={(value) =>
+                              accessMutation.mutate(
+                                value === TEAM_ACCESS
+                                  ? { user, companyId: null }
+                                  : { user, companyId: value, role: "viewer" }
+                              )
+                            }
+                            disabled={isCurrentUser || accessMutation.isPending}
+                          >
+                            <SelectTrigger data-testid={`select-company-${user.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <CompanyAccessOptions companies={companies} companyId={user.companyId} />
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {format(new Date(user.createdAt), "dd/MM/yyyy", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={user.isActive ? "default" : "secondary"}
+                            className={user.isActive ? "bg-green-600" : ""}
+                          >
+                            {user.isActive ? "Ativo" : "Desativado"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={user.twoFactorEnabled ? "default" : "outline"} data-testid={`badge-2fa-${user.id}`}>
+                            {user.twoFactorEnabled ? "Ativa" : "Inativa"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleOpenDialog("rename", user)}
+                              title="Renomear"
+                              data-testid={`button-rename-${user.id}`}
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleOpenDialog("password", user)}
+                              title="Redefinir senha"
+                              data-testid={`button-reset-password-${user.id}`}
+                            >
+                              <KeyRound className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setResetTwoFactorUser(user)}
+                              disabled={isCurrentUser || !user.twoFactorEnabled}
+                              title="Redefinir autenticação em dois fatores"
+                              data-testid={`button-reset-2fa-${user.id}`}
+                            >
+                              <ShieldOff className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => toggleMutation.mutate(user)}
+                              disabled={isCurrentUser || toggleMutation.isPending}
+                              title={user.isActive ? "Desativar" : "Ativar"}
+                              data-testid={`button-toggle-${user.id}`}
+                            >
+                              {user.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mb-6">
+                <UsersIcon className="w-8 h-8 text-primary" />
+              </div>
+              <h2 className="text-xl font-semibold mb-2">Nenhum usuário encontrado</h2>
+              <Button onClick={() => handleOpenDialog("create")} data-testid="button-create-first-user">
+                <Plus className="w-4 h-4 mr-2" />
+                Cadastrar Usuário
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <TwoFactorPolicyCard />
+      </main>
+
+      <AlertDialog open={!!resetTwoFactorUser} onOpenChange={() => setResetTwoFactorUser(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Redefinir autenticação em dois fatores?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {resetTwoFactorUser?.name} passará a entrar apenas com a senha e poderá configurar um novo
+              aplicativo autenticador no perfil. Use quando o celular e os códigos de recuperação foram perdidos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-reset-2fa">Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => resetTwoFactorUser && resetTwoFactorMutation.mutate(resetTwoFactorUser)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-reset-2fa"
+            >
+              {resetTwoFactorMutation.isPending ? "Redefinindo..." : "Redefinir"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(open) => !open && handleCloseDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{dialogMode ? DIALOG_TITLES[dialogMode] : ""}</DialogTitle>
+            <DialogDescription>
+              {selectedUser ? `${selectedUser.name} (${selectedUser.username})` : "O login é usado para entrar no dashboard"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {dialogMode === "create" && (
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Login</FormLabel>
+                      <FormControl>
+                        <Input placeholder="usuario@empresa.com" data-testid="input-user-username" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {dialogMode === "create" && (
+                <FormField
+                  control={form.control}
+                  name="companyId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Empresa</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-user-company">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <CompanyAccessOptions companies={companies} companyId={null} />
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {dialogMode === "create" && companyId === TEAM_ACCESS && (
+                <FormField
+                  control={form.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Perfil</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-user-role">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {USER_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {dialogMode !== "password" && (
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome</FormLabel>
+                      <FormControl>
+                        <Input data-testid="input-user-name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {dialogMode !== "rename" && (
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{dialogMode === "password" ? "Nova senha" : "Senha"}</FormLabel>
+                      <FormControl>
+                        <Input type="password" data-testid="input-user-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleCloseDialog} data-testid="button-cancel">
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-user">
+                  {saveMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
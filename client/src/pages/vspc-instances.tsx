@@ -0,0 +1,502 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Shield, ArrowLeft, Plus, Trash2, Pencil, Pause, Play, Server } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface PublicVspcInstance {
+  id: string;
+  name: string;
+  apiUrl: string;
+  username: string | null;
+  isActive: boolean;
+  authMode: "apiKey" | "password";
+  hasApiKey: boolean;
+  hasPassword: boolean;
+}
+
+const instanceFormSchema = z.object({
+  name: z.string().min(2, "Nome deve ter no mínimo 2 caracteres"),
+  apiUrl: z.string().url("Digite uma URL válida (ex: https://vspc.exemplo.com:1280)"),
+  authMode: z.enum(["apiKey", "password"]),
+  apiKey: z.string().optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+});
+
+type InstanceFormData = z.infer<typeof instanceFormSchema>;
+
+const emptyForm: InstanceFormData = {
+  name: "",
+  apiUrl: "",
+  authMode: "apiKey",
+  apiKey: "",
+  username: "",
+  password: "",
+};
+
+export default function VspcInstances() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingInstance, setEditingInstance] = useState<PublicVspcInstance | null>(null);
+  const [deleteInstanceId, setDeleteInstanceId] = useState<string | null>(null);
+
+  const { data: instances, isLoading } = useQuery<PublicVspcInstance[]>({
+    queryKey: ["/api/vspc-instances"],
+  });
+
+  const form = useForm<InstanceFormData>({
+    resolver: zodResolver(instanceFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const authMode = form.watch("authMode");
+
+  const onInstancesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/vspc-instances"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/companies"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InstanceFormData) => {
+      // undefined keeps the stored secret, null clears it (switching auth mode)
+      const payload = {
+        name: data.name,
+        apiUrl: data.apiUrl.replace(/\/+$/, ""),
+        apiKey: data.authMode === "apiKey" ? data.apiKey || undefined : null,
+        username: data.authMode === "password" ? data.username || null : null,
+        password: data.authMode === "password" ? data.password || undefined : null,
+      };
+
+      if (editingInstance) {
+        return apiRequest("PATCH", `/api/vspc-instances/${editingInstance.id}`, payload);
+      }
+      return apiRequest("POST", "/api/vspc-instances", payload);
+    },
+    onSuccess: () => {
+      onInstancesChanged();
+      handleCloseForm();
+      toast({
+        title: editingInstance ? "Instância atualizada" : "Instância criada",
+        description: "A conexão com o VSPC foi salva.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao salvar instância",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (instance: PublicVspcInstance) => {
+      return apiRequest("PATCH", `/api/vspc-instances/${instance.id}`, {
+        isActive: !instance.isActive,
+      });
+    },
+    onSuccess: () => {
+      onInstancesChanged();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao alterar status",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/vspc-instances/${id}`);
+    },
+    onSuccess: () => {
+      onInstancesChanged();
+      setDeleteInstanceId(null);
+      toast({
+        title: "Instância excluída",
+        description: "A conexão com o VSPC foi removida.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao excluir",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenNew = () => {
+    setEditingInstance(null);
+    form.reset(emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const handleEdit = (instance: PublicVspcInstance) => {
+    setEditingInstance(instance);
+    form.reset({
+      name: instance.name,
+      apiUrl: instance.apiUrl,
+      authMode: instance.authMode,
+      apiKey: "",
+      username: instance.username || "",
+      password: "",
+    });
+    setIsFormOpen(true);
+  };
+
+  const handleCloseForm = () => {
+    setIsFormOpen(false);
+    setEditingInstance(null);
+    form.reset(emptyForm);
+  };
+
+  const onSubmit = (data: InstanceFormData) => {
+    // Secrets are optional when editing the same auth mode: blank keeps the stored value
+    if (!editingInstance || data.authMode !== editingInstance.authMode) {
+      if (data.authMode === "apiKey" && !data.apiKey) {
+        form.setError("apiKey", { message: "Informe a chave de API" });
+        return;
+      }
+      if (data.authMode === "password" && (!data.username || !data.password)) {
+        form.setError("password", { message: "Informe usuário e senha" });
+        return;
+      }
+    }
+    saveMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <header className="border-b bg-background sticky top-0 z-50">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex h-16 items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setLocation("/dashboard")}
+                data-testid="button-back"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </Button>
+              <div className="flex items-center justify-center w-10 h-10 rounded-md bg-primary">
+                <Shield className="w-6 h-6 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold">Instâncias VSPC</h1>
+                <p className="text-xs text-muted-foreground">Servidores do Service Provider Console</p>
+              </div>
+            </div>
+
+            <Button onClick={handleOpenNew} data-testid="button-new-instance">
+              <Plus className="w-4 h-4 mr-2" />
+              Nova Instância
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {isLoading ? (
+          <Card>
+            <CardContent className="p-6">
+              <div className="space-y-4">
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            </CardContent>
+          </Card>
+        ) : instances && instances.length > 0 ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Instâncias Cadastradas</CardTitle>
+              <CardDescription>
+                Os clientes de todas as instâncias ativas são agregados no dashboard.
+                A instância configurada no arquivo .env (VEEAM_API_URL) é sempre incluída.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>URL</TableHead>
+                    <TableHead>Autenticação</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {instances.map((instance) => (
+                    <TableRow key={instance.id} data-testid={`row-instance-${instance.id}`}>
+                      <TableCell className="font-medium">{instance.name}</TableCell>
+                      <TableCell className="font-mono text-sm">{instance.apiUrl}</TableCell>
+                      <TableCell>
+                        {instance.authMode === "apiKey" ? "Chave de API" : `Usuário: ${instance.username}`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={instance.isActive ? "default" : "secondary"}
+                          className={instance.isActive ? "bg-green-600" : ""}
+                        >
+                          {instance.isActive ? "Ativa" : "Inativa"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(instance)}
+                            title="Editar"
+                            data-testid={`button-edit-${instance.id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => toggleMutation.mutate(instance)}
+                            title={instance.isActive ? "Desativar" : "Ativar"}
+                            data-testid={`button-toggle-${instance.id}`}
+                          >
+                            {instance.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setDeleteInstanceId(instance.id)}
+                            className="text-destructive hover:text-destructive"
+                            title="Excluir"
+                            data-testid={`button-delete-${instance.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mb-6">
+                <Server className="w-8 h-8 text-primary" />
+              </div>
+              <h2 className="text-xl font-semibold mb-2">Nenhuma instância adicional</h2>
+              <p className="text-muted-foreground mb-6 text-center max-w-md">
+                O dashboard usa apenas o VSPC configurado no arquivo .env. Cadastre outras instâncias
+                para agregar os clientes de vários datacenters.
+              </p>
+              <Button onClick={handleOpenNew} data-testid="button-create-first-instance">
+                <Plus className="w-4 h-4 mr-2" />
+                Cadastrar Instância
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && handleCloseForm()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingInstance ? "Editar Instância VSPC" : "Nova Instância VSPC"}</DialogTitle>
+            <DialogDescription>
+              {editingInstance
+                ? "Deixe as credenciais em branco para manter as atuais"
+                : "Informe a URL da API REST e as credenciais de acesso"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: VSPC Datacenter SP" data-testid="input-instance-name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="apiUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>URL da API</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://vspc.exemplo.com:1280" data-testid="input-instance-url" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="authMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Autenticação</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-auth-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="apiKey">Chave de API</SelectItem>
+                        <SelectItem value="password">Usuário e senha</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {authMode === "apiKey" ? (
+                <FormField
+                  control={form.control}
+                  name="apiKey"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Chave de API</FormLabel>
+                      <FormControl>
+                        <Input type="password" data-testid="input-instance-api-key" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ) : (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Usuário</FormLabel>
+                        <FormControl>
+                          <Input data-testid="input-instance-username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Senha</FormLabel>
+                        <FormControl>
+                          <Input type="password" data-testid="input-instance-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={handleCloseForm} data-testid="button-cancel">
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-instance">
+                  {saveMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteInstanceId} onOpenChange={() => setDeleteInstanceId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir instância?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os clientes desta instância deixarão de aparecer no dashboard. Agendamentos existentes
+              para esses clientes falharão até que a instância seja cadastrada novamente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteInstanceId && deleteMutation.mutate(deleteInstanceId)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete"
+            >
+              {deleteMutation.isPending ? "Excluindo..." : "Excluir"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
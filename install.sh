@@ -231,12 +231,6 @@ fi
 # CONFIGURAR SCRIPTS AUXILIARES
 # ============================================
 
-# Copiar script de coleta de snapshots
-if [ -f "$APP_DIR/scripts/collect-snapshots.sh" ]; then
-  chmod +x $APP_DIR/scripts/collect-snapshots.sh
-  echo "  ✓ Script de coleta de snapshots configurado"
-fi
-
 # Criar script wrapper para PM2
 cat > $APP_DIR/start.sh << 'START_EOF'
 #!/bin/bash
@@ -333,15 +327,12 @@ pm2 startup systemd -u root --hp /root 2>/dev/null || true
 echo "  ✓ Aplicação iniciada com PM2"
 
 # ============================================
-# CONFIGURAR CRONTAB (se ainda não configurado)
+# REMOVER CRONTAB ANTIGO DE COLETA
 # ============================================
-CRON_EXISTS=$(crontab -l 2>/dev/null | grep -c "collect-snapshots.sh" || echo "0")
-if [ "$CRON_EXISTS" = "0" ]; then
-  echo "Configurando crontab para coleta de snapshots..."
-  (crontab -l 2>/dev/null; echo "*/15 * * * * $APP_DIR/scripts/collect-snapshots.sh >> /var/log/veeam-snapshots.log 2>&1") | crontab -
-  echo "  ✓ Crontab configurado (execução a cada 15 minutos)"
-else
-  echo "  ✓ Crontab já configurado"
+# A coleta de snapshots agora roda dentro da aplicação (SNAPSHOT_COLLECTION_INTERVAL_MINUTES)
+if crontab -l 2>/dev/null | grep -q "collect-snapshots.sh"; then
+  crontab -l 2>/dev/null | grep -v "collect-snapshots.sh" | crontab -
+  echo "  ✓ Entrada antiga de coleta removida do crontab"
 fi
 
 # ============================================
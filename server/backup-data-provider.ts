@@ -0,0 +1,115 @@
+import type {
+  VeeamCompany,
+  VeeamRepository,
+  ProtectedWorkload,
+  VeeamAlarm,
+  CapacityWorkload,
+  WorkloadSizeType,
+} from "@shared/schema";
+
+// Source of backup data for VeeamService: the VSPC instances (live) or generated demo data.
+// Providers return raw records; metrics, scorecard, failed jobs and history are derived in VeeamService.
+
+// Job as returned by VSPC /api/v3/infrastructure/backupServers/jobs (only the fields the dashboard reads)
+export interface BackupJobRecord {
+  instanceUid: string;
+  name: string;
+  type: string;
+  status: string;
+  organizationUid: string;
+  isEnabled?: boolean;
+  lastEndTime?: string;
+  lastRun?: string; // start of the last session
+  lastDuration?: number; // seconds
+  transferredData?: number; // bytes transferred by the last session
+  description?: string;
+  failureMessage?: string;
+  bottleneck?: string;
+  lastSessionTasks?: {
+    objectName?: string;
+    status?: string;
+    failureMessage?: string;
+  }[];
+}
+
+// Backup server as returned by VSPC /api/v3/infrastructure/backupServers
+export interface BackupServerRecord {
+  instanceUid: string;
+  name: string;
+  organizationUid: string;
+  status: string;
+}
+
+// Restore point as returned by VSPC /api/v3/protectedWorkloads/{virtualMachines|computersManagedByBackupServer}/restorePoints.
+// VSPC keeps no job session history, so past runs are rebuilt from the restore points they created.
+export interface RestorePointRecord {
+  instanceUid: string;
+  jobUid: string;
+  backupCreationTime: string;
+  size?: number;
+  incrementRawDataSize?: number;
+}
+
+// One day of job results for a company (same shape as the session_snapshots rows)
+export interface SessionSnapshotRecord {
+  date: Date;
+  successCount: number;
+  warningCount: number;
+  failedCount: number;
+  totalCount: number;
+}
+
+// Job results of one month for a company (sums of the daily snapshots); month as YYYY-MM
+export interface MonthlySessionTotals {
+  month: string;
+  successCount: number;
+  warningCount: number;
+  failedCount: number;
+  totalCount: number;
+}
+
+// Protected data of a company on one day (same shape as the capacity_snapshots rows)
+export interface CapacitySnapshotRecord {
+  date: Date;
+  workloads: CapacityWorkload[];
+  totalSizeGB: number;
+  quotaGB: number | null;
+}
+
+// Backup size of one VM or computer: totalRestorePointSize summed over its backups
+export interface WorkloadSizeRecord {
+  workloadUid: string;
+  workloadName: string;
+  workloadType: WorkloadSizeType;
+  sizeGB: number;
+}
+
+// Backup size of one VM or computer on one day (same shape as the workload_size_snapshots rows)
+export interface WorkloadSizeSnapshotRecord extends WorkloadSizeRecord {
+  date: Date;
+}
+
+// Newest restore point of one VM or computer in one backup job, from the VSPC backups list
+// (primary backups only; a workload without backups has no jobUid and no date)
+export interface WorkloadRestorePointRecord {
+  workloadUid: string;
+  workloadName: string;
+  workloadType: WorkloadSizeType;
+  jobUid?: string;
+  latestRestorePointDate?: string;
+}
+
+export interface BackupDataProvider {
+  getCompanies(): Promise<VeeamCompany[]>;
+  getJobs(companyId: string): Promise<BackupJobRecord[]>;
+  getBackupServers(companyId: string): Promise<BackupServerRecord[]>;
+  getProtectedWorkloads(companyId: string): Promise<ProtectedWorkload[]>;
+  getRepositories(companyId: string): Promise<VeeamRepository[]>;
+  getActiveAlarms(companyId: string): Promise<VeeamAlarm[]>;
+  getSessionSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<SessionSnapshotRecord[]>;
+  getMonthlySessionTotals(companyId: string, startDate: Date, endDate: Date): Promise<MonthlySessionTotals[]>;
+  getCapacitySnapshots(companyId: string, startDate: Date, endDate: Date): Promise<CapacitySnapshotRecord[]>;
+  getWorkloadSizes(companyId: string): Promise<WorkloadSizeRecord[]>;
+  getWorkloadRestorePoints(companyId: string): Promise<WorkloadRestorePointRecord[]>;
+  getWorkloadSizeSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<WorkloadSizeSnapshotRecord[]>;
+}
@@ -0,0 +1,62 @@
+import { dateKeyToDate } from "./timezone";
+
+// Growth model of a company's protected data, fitted on the daily capacity snapshots:
+// a least-squares line, plus one offset per calendar month once there is a full year of history
+// (month-end and year-end retention make storage swing around the trend).
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Fewer points than this give a meaningless slope
+const MIN_HISTORY_POINTS = 14;
+const SEASONAL_MIN_DAYS = 365;
+
+export interface CapacityModel {
+  method: 'linear' | 'seasonal';
+  origin: number; // ms of the first day, x = days since origin
+  intercept: number;
+  slopePerDay: number;
+  monthOffsets: number[]; // 12 entries, 0 for the linear model
+}
+
+export function fitCapacityModel(history: { date: string; value: number }[]): CapacityModel | null {
+  if (history.length < MIN_HISTORY_POINTS) {
+    return null;
+  }
+
+  const origin = dateKeyToDate(history[0].date).getTime();
+  const points = history.map(point => {
+    const time = dateKeyToDate(point.date);
+    return { x: (time.getTime() - origin) / DAY_MS, y: point.value, month: time.getUTCMonth() };
+  });
+
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const slopePerDay = variance > 0 ? covariance / variance : 0;
+  const intercept = meanY - slopePerDay * meanX;
+
+  const monthOffsets = new Array(12).fill(0);
+  const spanDays = points[n - 1].x - points[0].x;
+  if (spanDays < SEASONAL_MIN_DAYS) {
+    return { method: 'linear', origin, intercept, slopePerDay, monthOffsets };
+  }
+
+  // Mean residual of each calendar month around the trend line
+  const residuals: number[][] = Array.from({ length: 12 }, () => []);
+  for (const p of points) {
+    residuals[p.month].push(p.y - (intercept + slopePerDay * p.x));
+  }
+  residuals.forEach((values, month) => {
+    monthOffsets[month] = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  });
+
+  return { method: 'seasonal', origin, intercept, slopePerDay, monthOffsets };
+}
+
+export function predictCapacity(model: CapacityModel, day: string): number {
+  const time = dateKeyToDate(day);
+  const x = (time.getTime() - model.origin) / DAY_MS;
+  const value = model.intercept + model.slopePerDay * x + model.monthOffsets[time.getUTCMonth()];
+  return Math.max(value, 0);
+}
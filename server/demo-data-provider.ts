@@ -0,0 +1,660 @@
+import type {
+  VeeamCompany,
+  VeeamRepository,
+  ProtectedWorkload,
+  VeeamAlarm,
+} from "@shared/schema";
+import type {
+  BackupDataProvider,
+  BackupJobRecord,
+  BackupServerRecord,
+  CapacitySnapshotRecord,
+  MonthlySessionTotals,
+  SessionSnapshotRecord,
+  WorkloadSizeRecord,
+  WorkloadRestorePointRecord,
+  WorkloadSizeSnapshotRecord,
+} from "./backup-data-provider";
+import { VspcNotFoundError } from "./vspc-errors";
+import { getCompanyTimezone, toDateKey, dateKeyToDate, addDays } from "./timezone";
+
+// Generated data for demos and for running without a VSPC (VEEAM_DATA_MODE=demo).
+// Everything is derived from seeded random numbers, so the same company and day always
+// produce the same values; dates are relative to today so the dashboard always looks current.
+
+const GB = 1024 ** 3;
+const TB = 1024 ** 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DemoCompanyProfile {
+  instanceUid: string;
+  name: string;
+  // Share of job runs that succeed; the rest split between warnings and failures
+  reliability: number;
+  jobCount: number;
+  servers: string[];
+  vms: number;
+  computers: number;
+  cloudInstances: number;
+  m365Objects: number;
+  // Restore point size per workload type, in GB
+  vmSizeGB: number;
+  computerSizeGB: number;
+  m365SizeGB: number;
+  repositoryCapacityTB: number;
+  cloudQuotaTB: number | null;
+  immutable: boolean;
+}
+
+const DEMO_COMPANIES: DemoCompanyProfile[] = [
+  {
+    instanceUid: 'demo-company-1',
+    name: 'Construtora Horizonte',
+    reliability: 0.97,
+    jobCount: 14,
+    servers: ['HZ-VBR-01'],
+    vms: 86,
+    computers: 12,
+    cloudInstances: 4,
+    m365Objects: 240,
+    vmSizeGB: 38 * 1024,
+    computerSizeGB: 2.4 * 1024,
+    m365SizeGB: 1.8 * 1024,
+    repositoryCapacityTB: 60,
+    cloudQuotaTB: 40,
+    immutable: true,
+  },
+  {
+    instanceUid: 'demo-company-2',
+    name: 'Clínica Vida Saúde',
+    reliability: 0.9,
+    jobCount: 9,
+    servers: ['VS-VBR-01'],
+    vms: 32,
+    computers: 28,
+    cloudInstances: 0,
+    m365Objects: 410,
+    vmSizeGB: 14 * 1024,
+    computerSizeGB: 3.1 * 1024,
+    m365SizeGB: 3.6 * 1024,
+    repositoryCapacityTB: 24,
+    cloudQuotaTB: 15,
+    immutable: true,
+  },
+  {
+    instanceUid: 'demo-company-3',
+    name: 'Transportes Rota Sul',
+    reliability: 0.82,
+    jobCount: 11,
+    servers: ['RS-VBR-01', 'RS-VBR-02'],
+    vms: 54,
+    computers: 6,
+    cloudInstances: 9,
+    m365Objects: 120,
+    vmSizeGB: 27 * 1024,
+    computerSizeGB: 0.6 * 1024,
+    m365SizeGB: 0.9 * 1024,
+    repositoryCapacityTB: 36,
+    cloudQuotaTB: null,
+    immutable: false,
+  },
+  {
+    instanceUid: 'demo-company-4',
+    name: 'Agropecuária Campo Verde',
+    reliability: 0.94,
+    jobCount: 6,
+    servers: ['CV-VBR-01'],
+    vms: 18,
+    computers: 9,
+    cloudInstances: 0,
+    m365Objects: 75,
+    vmSizeGB: 6.5 * 1024,
+    computerSizeGB: 0.8 * 1024,
+    m365SizeGB: 0.4 * 1024,
+    repositoryCapacityTB: 12,
+    cloudQuotaTB: 8,
+    immutable: false,
+  },
+  {
+    instanceUid: 'demo-company-5',
+    name: 'Moraes & Associados Advocacia',
+    reliability: 0.99,
+    jobCount: 5,
+    servers: ['MA-VBR-01'],
+    vms: 9,
+    computers: 35,
+    cloudInstances: 0,
+    m365Objects: 190,
+    vmSizeGB: 3.2 * 1024,
+    computerSizeGB: 4.5 * 1024,
+    m365SizeGB: 2.2 * 1024,
+    repositoryCapacityTB: 10,
+    cloudQuotaTB: 6,
+    immutable: true,
+  },
+  {
+    instanceUid: 'demo-company-6',
+    name: 'Supermercados Bom Preço',
+    reliability: 0.87,
+    jobCount: 16,
+    servers: ['BP-VBR-01', 'BP-VBR-02'],
+    vms: 120,
+    computers: 64,
+    cloudInstances: 6,
+    m365Objects: 520,
+    vmSizeGB: 61 * 1024,
+    computerSizeGB: 7.8 * 1024,
+    m365SizeGB: 4.9 * 1024,
+    repositoryCapacityTB: 90,
+    cloudQuotaTB: 50,
+    immutable: true,
+  },
+];
+
+const JOB_TEMPLATES = [
+  { name: 'Backup VMs Produção', type: 'VSphereBackup' },
+  { name: 'Backup SQL Server', type: 'VSphereBackup' },
+  { name: 'Backup File Server', type: 'WindowsAgentBackup' },
+  { name: 'Backup Controladores de Domínio', type: 'VSphereBackup' },
+  { name: 'Backup ERP', type: 'VSphereBackup' },
+  { name: 'Backup Copy Offsite', type: 'BackupCopy' },
+  { name: 'Replicação DR', type: 'VSphereReplica' },
+  { name: 'Backup Estações de Trabalho', type: 'WindowsAgentBackup' },
+  { name: 'Backup Exchange', type: 'HyperVBackup' },
+  { name: 'Backup Servidores Linux', type: 'LinuxAgentBackup' },
+  { name: 'Backup Aplicações Web', type: 'HyperVBackup' },
+  { name: 'Backup Copy Cloud Connect', type: 'BackupCopy' },
+];
+
+const FAILURE_MESSAGES = [
+  'Failed to connect to storage. Error: Connection timeout after 30 seconds.',
+  'Error: Unable to create snapshot of VM. The operation is not allowed in the current state.',
+  'Error: Not enough free space on the target repository.',
+  'Error: The RPC server is unavailable. Failed to connect to guest OS.',
+];
+
+const WARNING_MESSAGES = [
+  'Backup completed with warnings. 2 VMs were skipped due to CBT issues.',
+  'Changed block tracking is disabled for 1 VM; a full read was performed.',
+  'Job finished with warning: retention policy could not delete 1 restore point.',
+];
+
+// FNV-1a hash of the seed string feeding a mulberry32 generator
+function seededRandom(seed: string): () => number {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+
+  let state = h >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+export class DemoDataProvider implements BackupDataProvider {
+  private getProfile(companyId: string): DemoCompanyProfile {
+    const profile = DEMO_COMPANIES.find(c => c.instanceUid === companyId);
+    if (!profile) {
+      throw new VspcNotFoundError(`Demo company ${companyId} not found`);
+    }
+    return profile;
+  }
+
+  async getCompanies(): Promise<VeeamCompany[]> {
+    return DEMO_COMPANIES.map(profile => ({
+      instanceUid: profile.instanceUid,
+      name: profile.name,
+      status: 'Active',
+      organizationType: 'Company',
+      vspcInstanceId: 'demo',
+      vspcInstanceName: 'VSPC Demonstração',
+    }));
+  }
+
+  async getJobs(companyId: string): Promise<BackupJobRecord[]> {
+    const profile = this.getProfile(companyId);
+    // Job statuses change once a day
+    const random = seededRandom(`${companyId}:jobs:${dayKey(startOfToday())}`);
+    const today = startOfToday().getTime();
+
+    return Array.from({ length: profile.jobCount }, (_, index) => {
+      const template = JOB_TEMPLATES[index % JOB_TEMPLATES.length];
+      const name = index < JOB_TEMPLATES.length ? template.name : `${template.name} ${Math.floor(index / JOB_TEMPLATES.length) + 1}`;
+      const roll = random();
+      const isEnabled = random() > 0.08;
+
+      let status = 'Success';
+      if (roll > profile.reliability + (1 - profile.reliability) / 2) {
+        status = 'Failed';
+      } else if (roll > profile.reliability) {
+        status = 'Warning';
+      } else if (isEnabled && roll < 0.05) {
+        status = 'Running';
+      }
+
+      // Last run in the early hours of a recent day (failed jobs stay within the last week)
+      const daysAgo = status === 'Failed' ? Math.floor(random() * 5) : Math.floor(random() * 2);
+      const lastEndTime = new Date(today - daysAgo * DAY_MS + (1 + random() * 5) * 60 * 60 * 1000);
+      const jobUid = `${companyId}-job-${index + 1}`;
+      const vmName = `${profile.servers[0].split('-')[0]}-SRV-${String(index + 1).padStart(2, '0')}`;
+
+      return {
+        instanceUid: jobUid,
+        name,
+        type: template.type,
+        status,
+        organizationUid: companyId,
+        isEnabled,
+        lastEndTime: lastEndTime.toISOString(),
+        description: `Created by ADMIN at ${new Date(today - (200 + index * 17) * DAY_MS).toLocaleDateString('pt-BR')}.`,
+        failureMessage: status === 'Failed'
+          ? pick(FAILURE_MESSAGES, random)
+          : status === 'Warning' ? pick(WARNING_MESSAGES, random) : '',
+        lastSessionTasks: status === 'Failed'
+          ? [{ objectName: vmName, status: 'Failed' }]
+          : [],
+      };
+    });
+  }
+
+  async getBackupServers(companyId: string): Promise<BackupServerRecord[]> {
+    const profile = this.getProfile(companyId);
+
+    return profile.servers.map((name, index) => ({
+      instanceUid: `${companyId}-server-${index + 1}`,
+      name,
+      organizationUid: companyId,
+      // Least reliable companies also have a server needing attention
+      status: profile.reliability < 0.85 && index === profile.servers.length - 1 ? 'Warning' : 'Healthy',
+    }));
+  }
+
+  async getProtectedWorkloads(companyId: string): Promise<ProtectedWorkload[]> {
+    const profile = this.getProfile(companyId);
+
+    return [
+      {
+        name: 'Computers',
+        quantity: profile.computers,
+        sizeGB: profile.computerSizeGB,
+        color: '#00B4D8',
+      },
+      {
+        name: 'Virtual Machines',
+        quantity: profile.vms,
+        sizeGB: profile.vmSizeGB,
+        color: '#90E0EF',
+      },
+      {
+        name: 'Cloud Instances',
+        quantity: profile.cloudInstances,
+        sizeGB: profile.cloudInstances * 85,
+        color: '#0077B6',
+      },
+      {
+        name: 'Microsoft 365 Objects',
+        quantity: profile.m365Objects,
+        sizeGB: profile.m365SizeGB,
+        color: '#C77DFF',
+      },
+    ];
+  }
+
+  async getRepositories(companyId: string): Promise<VeeamRepository[]> {
+    const profile = this.getProfile(companyId);
+    const random = seededRandom(`${companyId}:repositories`);
+
+    const usedVolumes = (profile.vmSizeGB + profile.computerSizeGB) * GB;
+    const repositories: VeeamRepository[] = profile.servers.map((server, index) => {
+      const capacity = (profile.repositoryCapacityTB / profile.servers.length) * TB;
+      const usedSpace = Math.min((usedVolumes / profile.servers.length) * (0.9 + random() * 0.3), capacity * 0.97);
+
+      return {
+        instanceUid: `${companyId}-repo-${index + 1}`,
+        name: `${server} Repositório Principal`,
+        type: 'BackupServer' as const,
+        capacity,
+        freeSpace: capacity - usedSpace,
+        usedSpace,
+        path: `D:\\Backups\\${server}`,
+        isImmutable: profile.immutable && index === 0,
+        isUnlimited: false,
+      };
+    });
+
+    if (profile.cloudQuotaTB !== null) {
+      const capacity = profile.cloudQuotaTB * TB;
+      const usedSpace = capacity * (0.45 + random() * 0.4);
+
+      repositories.push({
+        instanceUid: `${companyId}-cloud-1`,
+        name: 'Cloud Connect - Backup Offsite',
+        type: 'CloudConnect',
+        capacity,
+        freeSpace: capacity - usedSpace,
+        usedSpace,
+        path: 'Cloud Connect',
+        isImmutable: profile.immutable,
+        isUnlimited: false,
+      });
+    }
+
+    return repositories;
+  }
+
+  async getActiveAlarms(companyId: string): Promise<VeeamAlarm[]> {
+    const profile = this.getProfile(companyId);
+    const [jobs, servers, repositories] = await Promise.all([
+      this.getJobs(companyId),
+      this.getBackupServers(companyId),
+      this.getRepositories(companyId),
+    ]);
+
+    // One alarm per job with issues, plus unhealthy servers and repositories above 85%
+    const alarms: VeeamAlarm[] = jobs
+      .filter(job => job.status === 'Failed' || job.status === 'Warning')
+      .map((job, index) => ({
+        instanceUid: `${job.instanceUid}-alarm`,
+        alarmTemplateUid: 'demo-template-job-state',
+        repeatCount: 1 + (index % 3),
+        object: {
+          instanceUid: `${job.instanceUid}-object`,
+          type: 'BackupServerJob',
+          organizationUid: companyId,
+          locationUid: `${companyId}-location`,
+          computerName: profile.servers[0],
+          objectUid: job.instanceUid,
+          objectName: job.name,
+        },
+        lastActivation: {
+          time: job.lastEndTime || new Date().toISOString(),
+          status: job.status === 'Failed' ? 'Error' : 'Warning',
+          message: job.failureMessage || 'Job finished with warning.',
+          remark: job.status === 'Failed' ? 'Verifique o log da sessão no Veeam Backup & Replication.' : '',
+        },
+        area: 'vspc',
+      }));
+
+    for (const server of servers.filter(s => s.status !== 'Healthy')) {
+      alarms.push({
+        instanceUid: `${server.instanceUid}-alarm`,
+        alarmTemplateUid: 'demo-template-server-state',
+        repeatCount: 2,
+        object: {
+          instanceUid: `${server.instanceUid}-object`,
+          type: 'BackupServer',
+          organizationUid: companyId,
+          locationUid: `${companyId}-location`,
+          computerName: server.name,
+          objectUid: server.instanceUid,
+          objectName: server.name,
+        },
+        lastActivation: {
+          time: new Date(startOfToday().getTime() + 2 * 60 * 60 * 1000).toISOString(),
+          status: 'Warning',
+          message: 'Backup server license expires in 14 days.',
+          remark: 'Renove a licença para evitar a interrupção dos jobs.',
+        },
+        area: 'vspc',
+      });
+    }
+
+    for (const repository of repositories.filter(r => r.capacity > 0 && r.usedSpace / r.capacity > 0.85)) {
+      alarms.push({
+        instanceUid: `${repository.instanceUid}-alarm`,
+        alarmTemplateUid: 'demo-template-repository-space',
+        repeatCount: 4,
+        object: {
+          instanceUid: `${repository.instanceUid}-object`,
+          type: 'BackupRepository',
+          organizationUid: companyId,
+          locationUid: `${companyId}-location`,
+          computerName: profile.servers[0],
+          objectUid: repository.instanceUid,
+          objectName: repository.name,
+        },
+        lastActivation: {
+          time: new Date(startOfToday().getTime() + 60 * 60 * 1000).toISOString(),
+          status: 'Warning',
+          message: `Repository free space is below 15% (${Math.round((repository.freeSpace / repository.capacity) * 100)}% free).`,
+          remark: 'Amplie o repositório ou revise a política de retenção.',
+        },
+        area: 'vspc',
+      });
+    }
+
+    return alarms.sort((a, b) =>
+      new Date(b.lastActivation.time).getTime() - new Date(a.lastActivation.time).getTime()
+    );
+  }
+
+  // One snapshot per day; today's follows the current job statuses, past days are generated
+  async getSessionSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<SessionSnapshotRecord[]> {
+    const profile = this.getProfile(companyId);
+    // Days as UTC midnight, like the stored snapshots; "today" is the company's current day
+    const today = dateKeyToDate(toDateKey(new Date(), await getCompanyTimezone(companyId)));
+    const snapshots: SessionSnapshotRecord[] = [];
+
+    const day = new Date(startDate);
+    day.setUTCHours(0, 0, 0, 0);
+
+    while (day <= endDate && day <= today) {
+      if (day.getTime() === today.getTime()) {
+        const jobs = await this.getJobs(companyId);
+        const enabled = jobs.filter(job => job.isEnabled !== false);
+        const failedCount = enabled.filter(job => job.status === 'Failed').length;
+        const warningCount = enabled.filter(job => job.status === 'Warning').length;
+
+        snapshots.push({
+          date: new Date(day),
+          successCount: enabled.length - failedCount - warningCount,
+          warningCount,
+          failedCount,
+          totalCount: enabled.length,
+        });
+      } else {
+        const random = seededRandom(`${companyId}:history:${day.toISOString().split('T')[0]}`);
+        // Some months go worse than others, so the charts show a trend
+        const monthRandom = seededRandom(`${companyId}:month:${day.getUTCFullYear()}-${day.getUTCMonth()}`);
+        const reliability = Math.min(profile.reliability + (monthRandom() - 0.5) * 0.08, 0.995);
+
+        let successCount = 0;
+        let warningCount = 0;
+        let failedCount = 0;
+        for (let i = 0; i < profile.jobCount; i++) {
+          const roll = random();
+          if (roll <= reliability) {
+            successCount++;
+          } else if (roll <= reliability + (1 - reliability) / 2) {
+            warningCount++;
+          } else {
+            failedCount++;
+          }
+        }
+
+        snapshots.push({
+          date: new Date(day),
+          successCount,
+          warningCount,
+          failedCount,
+          totalCount: profile.jobCount,
+        });
+      }
+
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    return snapshots;
+  }
+
+  async getMonthlySessionTotals(companyId: string, startDate: Date, endDate: Date): Promise<MonthlySessionTotals[]> {
+    const snapshots = await this.getSessionSnapshots(companyId, startDate, endDate);
+    const months = new Map<string, MonthlySessionTotals>();
+
+    for (const snapshot of snapshots) {
+      const month = snapshot.date.toISOString().slice(0, 7);
+      const totals = months.get(month) || { month, successCount: 0, warningCount: 0, failedCount: 0, totalCount: 0 };
+      totals.successCount += snapshot.successCount;
+      totals.warningCount += snapshot.warningCount;
+      totals.failedCount += snapshot.failedCount;
+      totals.totalCount += snapshot.totalCount;
+      months.set(month, totals);
+    }
+
+    return Array.from(months.values());
+  }
+
+  // Sizes grow towards today's values by 15-40% a year (seeded per company), with a yearly swing
+  // and daily noise, so the capacity chart and the forecast have a trend to show
+  async getCapacitySnapshots(companyId: string, startDate: Date, endDate: Date): Promise<CapacitySnapshotRecord[]> {
+    const profile = this.getProfile(companyId);
+    const current = await this.getProtectedWorkloads(companyId);
+    const today = dateKeyToDate(toDateKey(new Date(), await getCompanyTimezone(companyId)));
+    const annualGrowth = 0.15 + seededRandom(`${companyId}:capacity-growth`)() * 0.25;
+    const quotaGB = profile.cloudQuotaTB !== null ? profile.cloudQuotaTB * 1024 : null;
+    const yearlySwing = (date: Date) => 1 + 0.03 * Math.sin((date.getUTCMonth() / 12) * 2 * Math.PI);
+
+    const snapshots: CapacitySnapshotRecord[] = [];
+    const day = new Date(startDate);
+    day.setUTCHours(0, 0, 0, 0);
+
+    while (day <= endDate && day <= today) {
+      const yearsAgo = (today.getTime() - day.getTime()) / (365 * DAY_MS);
+      const random = seededRandom(`${companyId}:capacity:${day.toISOString().split('T')[0]}`);
+      const sizeFactor = Math.pow(1 + annualGrowth, -yearsAgo) * (yearlySwing(day) / yearlySwing(today)) *
+        (yearsAgo > 0 ? 0.99 + random() * 0.02 : 1);
+      const countFactor = Math.pow(1 + annualGrowth / 2, -yearsAgo);
+
+      const workloads = current.map(w => ({
+        name: w.name,
+        quantity: Math.round(w.quantity * countFactor),
+        sizeGB: w.sizeGB * sizeFactor,
+      }));
+
+      snapshots.push({
+        date: new Date(day),
+        workloads,
+        totalSizeGB: workloads.reduce((sum, w) => sum + w.sizeGB, 0),
+        quotaGB,
+      });
+
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+
+    return snapshots;
+  }
+
+  // The company's VMs and computers, with the average backup size of their type
+  private getWorkloads(companyId: string) {
+    const profile = this.getProfile(companyId);
+    const prefix = profile.servers[0].split('-')[0];
+
+    return [
+      ...Array.from({ length: profile.vms }, (_, i) => ({
+        workloadUid: `${companyId}-vm-${i + 1}`,
+        workloadName: `${prefix}-VM-${String(i + 1).padStart(3, '0')}`,
+        workloadType: 'vm' as const,
+        averageGB: profile.vmSizeGB / profile.vms,
+      })),
+      ...Array.from({ length: profile.computers }, (_, i) => ({
+        workloadUid: `${companyId}-pc-${i + 1}`,
+        workloadName: `${prefix}-PC-${String(i + 1).padStart(3, '0')}`,
+        workloadType: 'computer' as const,
+        averageGB: profile.computerSizeGB / profile.computers,
+      })),
+    ];
+  }
+
+  // VMs spread over the VM backup jobs and computers over the agent jobs; the newest restore point
+  // follows the job: the last run when it succeeded, the day before when it failed, weeks ago when disabled
+  async getWorkloadRestorePoints(companyId: string): Promise<WorkloadRestorePointRecord[]> {
+    const jobs = (await this.getJobs(companyId)).filter(job => !/copy|replica/i.test(job.type));
+    const vmJobs = jobs.filter(job => !/agent/i.test(job.type));
+    const agentJobs = jobs.filter(job => /agent/i.test(job.type));
+
+    return this.getWorkloads(companyId).map(({ averageGB, ...workload }, index) => {
+      const candidates = workload.workloadType === 'vm' ? vmJobs : agentJobs;
+      if (candidates.length === 0) {
+        return workload;
+      }
+
+      const job = candidates[index % candidates.length];
+      const random = seededRandom(`${companyId}:restore-point:${workload.workloadUid}`);
+      let latest = new Date(job.lastEndTime!).getTime() - random() * 30 * 60 * 1000;
+      if (job.isEnabled === false) {
+        latest -= (5 + Math.floor(random() * 15)) * DAY_MS;
+      } else if (job.status === 'Failed') {
+        latest -= DAY_MS;
+      }
+
+      return { ...workload, jobUid: job.instanceUid, latestRestorePointDate: new Date(latest).toISOString() };
+    });
+  }
+
+  async getWorkloadSizes(companyId: string): Promise<WorkloadSizeRecord[]> {
+    const today = toDateKey(new Date(), await getCompanyTimezone(companyId));
+    const snapshots = await this.getWorkloadSizeSnapshots(companyId, dateKeyToDate(today), dateKeyToDate(today));
+    return snapshots.map(({ date, ...size }) => size);
+  }
+
+  // Each VM and computer grows a seeded 0.2-1% of its size a day; about half of the companies get one
+  // workload whose backups jump by more than half its size a few days ago, so the anomaly card has something to show
+  async getWorkloadSizeSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<WorkloadSizeSnapshotRecord[]> {
+    const profile = this.getProfile(companyId);
+    const today = toDateKey(new Date(), await getCompanyTimezone(companyId));
+    const first = startDate.toISOString().split('T')[0];
+    const last = endDate.toISOString().split('T')[0] < today ? endDate.toISOString().split('T')[0] : today;
+    if (first > last) {
+      return [];
+    }
+
+    const workloads = this.getWorkloads(companyId);
+    const anomalyRandom = seededRandom(`${companyId}:size-anomaly`);
+    const anomaly = anomalyRandom() < 0.5
+      ? { workloadUid: workloads[Math.floor(anomalyRandom() * workloads.length)].workloadUid, date: addDays(today, -(2 + Math.floor(anomalyRandom() * 6))) }
+      : null;
+
+    const snapshots: WorkloadSizeSnapshotRecord[] = [];
+    for (const workload of workloads) {
+      const random = seededRandom(`${companyId}:size:${workload.workloadUid}`);
+      const todayGB = workload.averageGB * (0.3 + random() * 1.4);
+      const dailyRate = 0.002 + random() * 0.008;
+
+      // Walk back from today's size, removing each day's growth
+      let sizeGB = todayGB;
+      for (let day = today; day >= first; day = addDays(day, -1)) {
+        if (day <= last) {
+          snapshots.push({ date: dateKeyToDate(day), workloadUid: workload.workloadUid, workloadName: workload.workloadName, workloadType: workload.workloadType, sizeGB });
+        }
+        const dayRandom = seededRandom(`${companyId}:size:${workload.workloadUid}:${day}`);
+        let growthGB = todayGB * dailyRate * (0.5 + dayRandom());
+        if (anomaly && anomaly.workloadUid === workload.workloadUid && anomaly.date === day) {
+          growthGB += todayGB * 0.6;
+        }
+        sizeGB = Math.max(sizeGB - growthGB, 0);
+      }
+    }
+
+    return snapshots.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+}
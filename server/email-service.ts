@@ -1,6 +1,7 @@
 import { ConfidentialClientApplication } from "@azure/msal-node";
 import fs from "fs";
 import path from "path";
+import type { SizeAnomaly } from "@shared/schema";
 
 interface EmailConfig {
   tenantId: string;
@@ -201,6 +202,48 @@ export class EmailService {
     });
   }
 
+  // Internal alert for the operations team, without the customer-facing layout
+  async sendSizeAnomalyAlert(recipients: string[], companyName: string, anomalies: SizeAnomaly[]): Promise<void> {
+    const subject = `Alerta: crescimento anormal de backup - ${companyName}`;
+    const rows = anomalies.map((anomaly) => `
+        <tr>
+          <td style="padding: 8px; border-bottom: 1px solid #e0e0e0;">${anomaly.workloadName}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #e0e0e0;">${anomaly.workloadType === "vm" ? "VM" : "Computador"}</td>
+          <td style="padding: 8px; border-bottom: 1px solid #e0e0e0; text-align: right;">${anomaly.incrementGB.toFixed(1)} GB</td>
+          <td style="padding: 8px; border-bottom: 1px solid #e0e0e0; text-align: right;">${anomaly.baselineGB.toFixed(1)} GB</td>
+          <td style="padding: 8px; border-bottom: 1px solid #e0e0e0; text-align: right;">${anomaly.sizeGB.toFixed(1)} GB</td>
+        </tr>`).join("");
+
+    const htmlBody = `
+<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="UTF-8">
+</head>
+<body style="margin: 0; padding: 20px; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; color: #1a1a1a;">
+  <p style="font-size: 16px; font-weight: 600; margin: 0 0 12px 0;">
+    Crescimento anormal de backup em ${companyName}
+  </p>
+  <p style="font-size: 14px; color: #444444; margin: 0 0 20px 0;">
+    Os backups dos workloads abaixo cresceram hoje muito acima do habitual. Um aumento repentino pode indicar
+    dados criptografados por ransomware; verifique os servidores antes que os pontos de restauração limpos expirem.
+  </p>
+  <table role="presentation" cellspacing="0" cellpadding="0" style="border-collapse: collapse; font-size: 13px;">
+    <tr style="background-color: #f8f9fa;">
+      <th style="padding: 8px; text-align: left;">Workload</th>
+      <th style="padding: 8px; text-align: left;">Tipo</th>
+      <th style="padding: 8px; text-align: right;">Crescimento</th>
+      <th style="padding: 8px; text-align: right;">Habitual/dia</th>
+      <th style="padding: 8px; text-align: right;">Tamanho</th>
+    </tr>${rows}
+  </table>
+</body>
+</html>
+    `;
+
+    await this.sendEmail({ to: recipients, subject, htmlBody });
+  }
+
   private generateEmailBody(companyName: string, date: string, frequencyLabel: string): string {
     return `
 <!DOCTYPE html>
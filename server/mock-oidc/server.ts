@@ -0,0 +1,200 @@
+// Local stand-in for Microsoft Entra ID: the v2.0 OpenID Connect endpoints used by the dashboard's
+// single sign-on (discovery, authorize with PKCE, token, JWKS). The authorize page lets you pick one of
+// the test users below instead of asking for a password.
+//
+//   npm run mock:oidc
+//   ENTRA_AUTHORITY=http://localhost:1282/mock-tenant ENTRA_CLIENT_ID=mock-client ENTRA_CLIENT_SECRET=mock-secret \
+//     SSO_ADMIN_GROUPS=grp-admins SSO_OPERATOR_GROUPS=grp-noc SSO_VIEWER_GROUPS=grp-interns npm run dev
+
+import express from "express";
+import crypto from "crypto";
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || "1282", 10);
+const TENANT_ID = process.env.MOCK_OIDC_TENANT_ID || "mock-tenant";
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || "mock-client";
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || "mock-secret";
+const TOKEN_TTL_SECONDS = 3600;
+// Authorization codes are single use and short lived, as in Entra ID
+const CODE_TTL_MS = 5 * 60 * 1000;
+
+const BASE_URL = `http://localhost:${PORT}/${TENANT_ID}`;
+const ISSUER = `${BASE_URL}/v2.0`;
+
+interface MockUser {
+  oid: string;
+  name: string;
+  email: string;
+  groups: string[];
+  idp?: string; // set for guests, whose UPN the tenant does not vouch for
+}
+
+// One user per role of the group mapping in the usage above, one outside every group, and a guest
+// claiming the login of the default local admin (must be refused, not linked to it)
+const USERS: MockUser[] = [
+  { oid: "00000000-0000-0000-0000-000000000001", name: "Ana Administradora", email: "ana@provedor.com.br", groups: ["grp-admins", "grp-noc"] },
+  { oid: "00000000-0000-0000-0000-000000000002", name: "Otávio Operador", email: "otavio@provedor.com.br", groups: ["grp-noc"] },
+  { oid: "00000000-0000-0000-0000-000000000003", name: "Vera Estagiária", email: "vera@provedor.com.br", groups: ["grp-interns"] },
+  { oid: "00000000-0000-0000-0000-000000000004", name: "Sérgio Sem Grupo", email: "sergio@provedor.com.br", groups: [] },
+  { oid: "00000000-0000-0000-0000-000000000005", name: "Intruso Convidado", email: "login@sistema.com", groups: ["grp-admins"], idp: "https://sts.windows.net/other-tenant/" },
+];
+
+interface PendingCode {
+  user: MockUser;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+// Tokens are signed like Entra's (RS256, key published in the JWKS) with a key generated per run
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString("hex");
+
+function base64url(value: Buffer | string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function signJwt(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ typ: "JWT", alg: "RS256", kid: KEY_ID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = crypto.sign("RSA-SHA256", Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function redirectWithParams(res: express.Response, redirectUri: string, params: Record<string, string | undefined>) {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(key, value);
+  }
+  res.redirect(url.toString());
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.use((req, res, next) => {
+  console.log(`[MockOIDC] ${req.method} ${req.path}`);
+  next();
+});
+
+app.get(`/${TENANT_ID}/v2.0/.well-known/openid-configuration`, (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${BASE_URL}/oauth2/v2.0/authorize`,
+    token_endpoint: `${BASE_URL}/oauth2/v2.0/token`,
+    end_session_endpoint: `${BASE_URL}/oauth2/v2.0/logout`,
+    jwks_uri: `${BASE_URL}/discovery/v2.0/keys`,
+    response_types_supported: ["code"],
+    scopes_supported: ["openid", "profile", "email", "offline_access"],
+    code_challenge_methods_supported: ["S256"],
+    id_token_signing_alg_values_supported: ["RS256"],
+  });
+});
+
+app.get(`/${TENANT_ID}/discovery/v2.0/keys`, (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, use: "sig", alg: "RS256" }] });
+});
+
+// The sign-in page: one button per test user; the request parameters travel in hidden fields
+app.get(`/${TENANT_ID}/oauth2/v2.0/authorize`, (req, res) => {
+  const { client_id, redirect_uri, response_type, code_challenge, code_challenge_method } = req.query;
+
+  if (client_id !== CLIENT_ID || typeof redirect_uri !== "string") {
+    return res.status(400).send("Unknown client_id or missing redirect_uri");
+  }
+  if (response_type !== "code" || !code_challenge || code_challenge_method !== "S256") {
+    return redirectWithParams(res, redirect_uri, {
+      error: "invalid_request",
+      error_description: "Only the authorization code flow with PKCE (S256) is supported",
+      state: req.query.state as string | undefined,
+    });
+  }
+
+  const hidden = ["client_id", "redirect_uri", "state", "nonce", "code_challenge"]
+    .filter(name => typeof req.query[name] === "string")
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(req.query[name] as string)}">`)
+    .join("");
+  const buttons = USERS
+    .map(user => `<button name="oid" value="${user.oid}">${escapeHtml(user.name)} &lt;${escapeHtml(user.email)}&gt; [${escapeHtml(user.groups.join(", ") || "sem grupos")}]</button>`)
+    .join("<br>");
+
+  res.send(`<!doctype html><html><body style="font-family:sans-serif">
+<h2>Mock Entra ID (${escapeHtml(TENANT_ID)})</h2>
+<form method="post">${hidden}${buttons}<br><button name="oid" value="">Cancelar</button></form>
+</body></html>`);
+});
+
+app.post(`/${TENANT_ID}/oauth2/v2.0/authorize`, (req, res) => {
+  const { oid, client_id, redirect_uri, state, nonce, code_challenge } = req.body;
+  if (client_id !== CLIENT_ID || !redirect_uri) {
+    return res.status(400).send("Unknown client_id or missing redirect_uri");
+  }
+
+  const user = USERS.find(u => u.oid === oid);
+  if (!user) {
+    return redirectWithParams(res, redirect_uri, { error: "access_denied", error_description: "The user canceled the sign-in", state });
+  }
+
+  const code = crypto.randomBytes(24).toString("hex");
+  codes.set(code, { user, clientId: client_id, redirectUri: redirect_uri, codeChallenge: code_challenge, nonce, expiresAt: Date.now() + CODE_TTL_MS });
+  redirectWithParams(res, redirect_uri, { code, state });
+});
+
+app.post(`/${TENANT_ID}/oauth2/v2.0/token`, (req, res) => {
+  const { grant_type, code, redirect_uri, client_id, client_secret, code_verifier } = req.body;
+
+  if (client_id !== CLIENT_ID || client_secret !== CLIENT_SECRET) {
+    return res.status(401).json({ error: "invalid_client", error_description: "Invalid client credentials" });
+  }
+
+  const pending = codes.get(code);
+  codes.delete(code);
+  if (grant_type !== "authorization_code" || !pending || pending.expiresAt < Date.now()) {
+    return res.status(400).json({ error: "invalid_grant", error_description: "Unknown or expired authorization code" });
+  }
+
+  const challenge = crypto.createHash("sha256").update(String(code_verifier || "")).digest("base64url");
+  if (pending.redirectUri !== redirect_uri || pending.clientId !== client_id || challenge !== pending.codeChallenge) {
+    return res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const { user } = pending;
+  const idToken = signJwt({
+    aud: CLIENT_ID,
+    iss: ISSUER,
+    iat: now,
+    nbf: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    sub: crypto.createHash("sha256").update(`${user.oid}:${CLIENT_ID}`).digest("base64url"),
+    oid: user.oid,
+    tid: TENANT_ID,
+    name: user.name,
+    preferred_username: user.email,
+    email: user.email,
+    groups: user.groups,
+    ...(user.idp ? { idp: user.idp } : {}),
+    nonce: pending.nonce,
+    ver: "2.0",
+  });
+
+  res.json({
+    token_type: "Bearer",
+    scope: "openid profile email",
+    expires_in: TOKEN_TTL_SECONDS,
+    access_token: crypto.randomBytes(24).toString("hex"),
+    id_token: idToken,
+    client_info: base64url(JSON.stringify({ uid: user.oid, utid: TENANT_ID })),
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`[MockOIDC] Listening on ${BASE_URL} (client: ${CLIENT_ID}, secret: ${CLIENT_SECRET}, ${USERS.length} test users)`);
+});
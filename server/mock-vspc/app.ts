@@ -0,0 +1,290 @@
+// Express app of the mock VSPC (see server.ts), also started in-process by the VSPC client tests
+
+import express, { type Express } from "express";
+import crypto from "crypto";
+import type { AddressInfo } from "net";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { VeeamAlarm, VeeamCompany } from "@shared/schema";
+import type { BackupJobRecord, BackupServerRecord, RestorePointRecord } from "../backup-data-provider";
+import type { PaginatedResponse, TokenResponse } from "../vspc-client";
+
+export interface MockVspcOptions {
+  apiKey: string;
+  username: string;
+  password: string;
+  // VSPC caps the page size; a small cap makes the client walk several pages
+  maxPageSize: number;
+  // Fault injection for retry/timeout handling: share of requests answered 503, and latency in ms
+  failureRate: number;
+  latencyMs: number;
+  // The next N requests are answered 503 whatever the failure rate (deterministic faults for tests)
+  failNext: number;
+  retryAfterSeconds: number;
+  tokenTtlSeconds: number;
+  // Log every request to the console
+  log: boolean;
+}
+
+export interface MockVspcRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  status: number;
+  body?: Record<string, string>;
+}
+
+export interface MockVspc {
+  app: Express;
+  // Read on every request, so tests can change them while the server runs
+  options: MockVspcOptions;
+  // Every request received, in order
+  requests: MockVspcRequest[];
+  // Invalidates the issued access tokens, as a VSPC restart would
+  revokeAccessTokens(): void;
+}
+
+export const DEFAULT_MOCK_VSPC_OPTIONS: MockVspcOptions = {
+  apiKey: "mock-api-key",
+  username: "mock",
+  password: "mock",
+  maxPageSize: 25,
+  failureRate: 0,
+  latencyMs: 0,
+  failNext: 0,
+  retryAfterSeconds: 1,
+  tokenTtlSeconds: 3600,
+  log: true,
+};
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures");
+
+// A VSPC object as served by the mock: the fixtures are JSON, the mock only reads the filtered properties
+type VspcObject = Record<string, unknown>;
+
+// Fixtures whose objects the client reads with its own types; the others are only counted or
+// filtered by the tests
+interface TypedFixtures {
+  companies: VeeamCompany;
+  backupServers: BackupServerRecord;
+  jobs: BackupJobRecord;
+  virtualMachineRestorePoints: RestorePointRecord;
+  computerRestorePoints: RestorePointRecord;
+  alarms: VeeamAlarm;
+}
+
+export type FixtureName = (typeof ROUTES)[keyof typeof ROUTES];
+export type Fixture<N extends FixtureName> = N extends keyof TypedFixtures ? TypedFixtures[N] : VspcObject;
+
+function readFixture(name: FixtureName): VspcObject[] {
+  const items: unknown = JSON.parse(fs.readFileSync(path.join(fixturesDir, `${name}.json`), "utf-8"));
+  if (!Array.isArray(items) || !items.every(item => typeof item === "object" && item !== null && !Array.isArray(item))) {
+    throw new Error(`Fixture ${name} is not an array of objects`);
+  }
+  return items;
+}
+
+export function loadFixture<N extends FixtureName>(name: N): Fixture<N>[] {
+  return readFixture(name) as Fixture<N>[];
+}
+
+// Endpoint -> fixture; unlisted endpoints answer 404 like VSPC does
+const ROUTES = {
+  "/api/v3/organizations/companies": "companies",
+  "/api/v3/infrastructure/backupServers": "backupServers",
+  "/api/v3/infrastructure/backupServers/jobs": "jobs",
+  "/api/v3/infrastructure/backupServers/repositories": "repositories",
+  "/api/v3/organizations/companies/sites/backupResources": "backupResources",
+  "/api/v3/organizations/companies/sites/backupResources/usage": "backupResourcesUsage",
+  "/api/v3/protectedWorkloads/virtualMachines": "virtualMachines",
+  "/api/v3/protectedWorkloads/virtualMachines/backups": "virtualMachineBackups",
+  "/api/v3/protectedWorkloads/virtualMachines/restorePoints": "virtualMachineRestorePoints",
+  "/api/v3/protectedWorkloads/computersManagedByBackupServer": "computers",
+  "/api/v3/protectedWorkloads/computersManagedByBackupServer/backups": "computerBackups",
+  "/api/v3/protectedWorkloads/computersManagedByBackupServer/restorePoints": "computerRestorePoints",
+  "/api/v3/protectedWorkloads/vb365ProtectedObjects": "vb365ProtectedObjects",
+  "/api/v3/alarms/active": "alarms",
+} as const satisfies Record<string, string>;
+
+interface FilterCondition {
+  property: string;
+  operation: string;
+  value: unknown;
+}
+
+// Body of POST /api/v3/token (form-encoded)
+interface TokenRequest {
+  grant_type?: string;
+  username?: string;
+  password?: string;
+  refresh_token?: string;
+}
+
+interface ErrorResponse {
+  errors: { message: string }[];
+}
+
+function isFilterCondition(value: unknown): value is FilterCondition {
+  if (typeof value !== "object" || value === null) return false;
+  const condition = value as Record<string, unknown>;
+  return typeof condition.property === "string" && typeof condition.operation === "string";
+}
+
+function errorBody(message: string): ErrorResponse {
+  return { errors: [{ message }] };
+}
+
+// Only the "equals" operation of the VSPC filter syntax, which is what the dashboard sends.
+// Throws on a filter that is not a JSON array of conditions
+function applyFilter(items: VspcObject[], filter: unknown): VspcObject[] {
+  if (typeof filter !== "string") return items;
+
+  const conditions: unknown = JSON.parse(filter);
+  if (!Array.isArray(conditions) || !conditions.every(isFilterCondition)) {
+    throw new Error("Invalid filter");
+  }
+  return items.filter(item =>
+    conditions.every(condition =>
+      condition.operation !== "equals" || item[condition.property] === condition.value
+    )
+  );
+}
+
+export function createMockVspc(overrides: Partial<MockVspcOptions> = {}): MockVspc {
+  const options: MockVspcOptions = { ...DEFAULT_MOCK_VSPC_OPTIONS, ...overrides };
+  const fixtures = new Map(Object.entries(ROUTES).map(([route, name]) => [route, readFixture(name)]));
+  const requests: MockVspcRequest[] = [];
+
+  // access token -> expiry, refresh token -> username
+  const accessTokens = new Map<string, number>();
+  const refreshTokens = new Map<string, string>();
+
+  function issueToken(username: string): TokenResponse {
+    const accessToken = crypto.randomBytes(24).toString("hex");
+    const refreshToken = crypto.randomBytes(24).toString("hex");
+    accessTokens.set(accessToken, Date.now() + options.tokenTtlSeconds * 1000);
+    refreshTokens.set(refreshToken, username);
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: options.tokenTtlSeconds,
+      token_type: "bearer",
+    };
+  }
+
+  function isAuthorized(header: string | undefined): boolean {
+    const token = header?.replace(/^Bearer /, "");
+    if (!token) return false;
+    if (token === options.apiKey) return true;
+
+    const expiresAt = accessTokens.get(token);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.use(async (req, res, next) => {
+    res.on("finish", () => {
+      requests.push({
+        method: req.method,
+        path: req.path,
+        query: req.query as Record<string, string>,
+        status: res.statusCode,
+        body: req.method === "POST" ? req.body : undefined,
+      });
+    });
+
+    if (options.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, options.latencyMs));
+    }
+    if (options.failNext > 0 || (options.failureRate > 0 && Math.random() < options.failureRate)) {
+      options.failNext = Math.max(options.failNext - 1, 0);
+      res.set("Retry-After", String(options.retryAfterSeconds));
+      return res.status(503).json(errorBody("Injected failure"));
+    }
+    if (options.log) {
+      console.log(`[MockVSPC] ${req.method} ${req.originalUrl}`);
+    }
+    next();
+  });
+
+  app.post("/api/v3/token", (req, res) => {
+    const { grant_type, username, password, refresh_token }: TokenRequest = req.body ?? {};
+
+    if (grant_type === "password" && username === options.username && password === options.password) {
+      return res.json(issueToken(username));
+    }
+
+    const user = refresh_token !== undefined ? refreshTokens.get(refresh_token) : undefined;
+    if (grant_type === "refresh_token" && refresh_token !== undefined && user !== undefined) {
+      refreshTokens.delete(refresh_token);
+      return res.json(issueToken(user));
+    }
+
+    return res.status(401).json(errorBody("Invalid credentials"));
+  });
+
+  app.get("/api/v3/*", (req, res) => {
+    if (!isAuthorized(req.headers.authorization)) {
+      return res.status(401).json(errorBody("Unauthorized"));
+    }
+
+    const items = fixtures.get(req.path);
+    if (!items) {
+      return res.status(404).json(errorBody(`Unknown endpoint ${req.path}`));
+    }
+
+    let filtered: VspcObject[];
+    try {
+      filtered = applyFilter(items, req.query.filter);
+    } catch {
+      return res.status(400).json(errorBody("Invalid filter"));
+    }
+
+    const limit = Math.min(parseInt(String(req.query.limit || "100"), 10) || 100, options.maxPageSize);
+    const offset = parseInt(String(req.query.offset || "0"), 10) || 0;
+    const page = filtered.slice(offset, offset + limit);
+
+    const body: PaginatedResponse<VspcObject> = {
+      meta: {
+        pagingInfo: {
+          total: filtered.length,
+          count: page.length,
+          offset,
+        },
+      },
+      data: page,
+    };
+    return res.json(body);
+  });
+
+  return {
+    app,
+    options,
+    requests,
+    revokeAccessTokens: () => accessTokens.clear(),
+  };
+}
+
+export interface RunningMockVspc extends MockVspc {
+  url: string;
+  close(): Promise<void>;
+}
+
+// Listens on a free local port, for tests that need their own instance
+export async function startMockVspc(overrides: Partial<MockVspcOptions> = {}): Promise<RunningMockVspc> {
+  const mock = createMockVspc({ log: false, ...overrides });
+  const server = await new Promise<ReturnType<Express["listen"]>>(resolve => {
+    const listening = mock.app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    ...mock,
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
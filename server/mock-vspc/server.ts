@@ -0,0 +1,22 @@
+// Mock Veeam Service Provider Console for development: serves the /api/v3 endpoints used by
+// VspcDataProvider from the JSON fixtures in ./fixtures.
+//
+//   npm run mock:vspc
+//   VEEAM_API_URL=http://localhost:1281 VEEAM_API_KEY=mock-api-key npm run dev
+
+import { createMockVspc, DEFAULT_MOCK_VSPC_OPTIONS } from "./app";
+
+const PORT = parseInt(process.env.MOCK_VSPC_PORT || "1281", 10);
+
+const { app, options } = createMockVspc({
+  apiKey: process.env.MOCK_VSPC_API_KEY || DEFAULT_MOCK_VSPC_OPTIONS.apiKey,
+  username: process.env.MOCK_VSPC_USERNAME || DEFAULT_MOCK_VSPC_OPTIONS.username,
+  password: process.env.MOCK_VSPC_PASSWORD || DEFAULT_MOCK_VSPC_OPTIONS.password,
+  maxPageSize: parseInt(process.env.MOCK_VSPC_MAX_PAGE_SIZE || String(DEFAULT_MOCK_VSPC_OPTIONS.maxPageSize), 10),
+  failureRate: parseFloat(process.env.MOCK_VSPC_FAILURE_RATE || "0"),
+  latencyMs: parseInt(process.env.MOCK_VSPC_LATENCY_MS || "0", 10),
+});
+
+app.listen(PORT, () => {
+  console.log(`[MockVSPC] Listening on http://localhost:${PORT} (API key: ${options.apiKey}, user: ${options.username}, page size cap: ${options.maxPageSize})`);
+});
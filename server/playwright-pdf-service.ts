@@ -97,7 +97,8 @@ class PlaywrightPdfService {
     });
   }
 
-  async generatePdf(companyId: string, baseUrl: string, frequency: string = "weekly"): Promise<Buffer> {
+  // calendar: session calendar period of the report (30d, 90d or 12m)
+  async generatePdf(companyId: string, baseUrl: string, frequency: string = "weekly", calendar: string = "30d"): Promise<Buffer> {
     await this.initialize();
     
     if (!this.browser) {
@@ -108,7 +109,7 @@ class PlaywrightPdfService {
     const page = await context.newPage();
     
     try {
-      const reportUrl = `${baseUrl}/report/print/${companyId}?frequency=${frequency}`;
+      const reportUrl = `${baseUrl}/report/print/${companyId}?frequency=${frequency}&calendar=${calendar}`;
       await this.authenticateAndNavigate(page, baseUrl, reportUrl);
 
       console.log("[PlaywrightPDF] Waiting for report to be ready...");
@@ -124,7 +125,8 @@ class PlaywrightPdfService {
         if (!isReady) {
           const hasError = await page.locator('[data-error="true"]').count() > 0;
           if (hasError) {
-            throw new Error("Report page shows error - data not available for this client");
+            const detail = await page.locator('[data-testid="error-detail"]').textContent().catch(() => null);
+            throw new Error(`Report page shows error - data not available for this client${detail ? `: ${detail}` : ""}`);
           }
           
           const hasSpinner = await page.locator('.animate-spin').count() > 0;
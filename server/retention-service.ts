@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { APP_TIMEZONE, toDateKey, addDays, dateKeyToDate, startOfZonedDay } from "./timezone";
+import type { RetentionReport, RetentionCompanyReport, RetentionStatus } from "@shared/schema";
+
+// Days of daily session_snapshots (and job_sessions) kept; whole months older than that are
+// summed into session_monthly_totals and the daily rows deleted. 0 disables the retention job
+const RETENTION_DAYS = parseInt(process.env.SNAPSHOT_RETENTION_DAYS || "400", 10);
+// Scheduled runs only log what they would roll up and delete
+const RETENTION_DRY_RUN = process.env.SNAPSHOT_RETENTION_DRY_RUN === "true";
+
+// Hour of the day (APP_TIMEZONE) of the scheduled run
+export const RETENTION_HOUR = 3;
+
+export class RetentionService {
+  private running = false;
+  private lastRun: RetentionReport | null = null;
+
+  isEnabled(): boolean {
+    return RETENTION_DAYS > 0;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // First day of the month that contains (today - retention days), today being the day in the company's
+  // timezone, as its snapshots are keyed; only complete months are rolled up, so a month keeps its daily
+  // rows until all of its days are past the retention period
+  getCutoff(timezone: string, now: Date = new Date()): string {
+    const oldestKeptDay = addDays(toDateKey(now, timezone), -RETENTION_DAYS);
+    return `${oldestKeptDay.slice(0, 7)}-01`;
+  }
+
+  // Run of the scheduler: rolls up and purges, or only reports with SNAPSHOT_RETENTION_DRY_RUN=true
+  async runScheduled(): Promise<RetentionReport | null> {
+    if (!this.isEnabled() || this.running) {
+      return null;
+    }
+    return this.run(RETENTION_DRY_RUN);
+  }
+
+  async run(dryRun: boolean): Promise<RetentionReport> {
+    if (this.running) {
+      throw new Error("Retention already running");
+    }
+
+    this.running = true;
+    try {
+      const report = await this.buildReport(dryRun);
+
+      if (!dryRun) {
+        for (const company of report.companies) {
+          const deleted = await storage.rollupSnapshotsBefore(
+            company.companyId,
+            dateKeyToDate(company.cutoff),
+            startOfZonedDay(company.cutoff, company.timezone)
+          );
+          company.snapshotRows = deleted.snapshotRows;
+          company.jobSessionRows = deleted.jobSessionRows;
+        }
+        report.snapshotRows = report.companies.reduce((sum, c) => sum + c.snapshotRows, 0);
+        report.jobSessionRows = report.companies.reduce((sum, c) => sum + c.jobSessionRows, 0);
+      }
+      report.finishedAt = new Date().toISOString();
+      this.lastRun = report;
+
+      const action = dryRun ? "Dry run: would roll up" : "Rolled up";
+      console.log(`[Retention] ${action} ${report.snapshotRows} daily snapshot(s) and purge ${report.jobSessionRows} job session(s) before ${report.cutoff} for ${report.companies.length} company(ies)`);
+      for (const company of report.companies) {
+        console.log(`[Retention]   ${company.companyName} (before ${company.cutoff}, ${company.timezone}): ${company.months.join(", ") || "-"} (${company.snapshotRows} snapshot(s), ${company.jobSessionRows} session(s))`);
+      }
+
+      return report;
+    } catch (error) {
+      console.error("[Retention] Error:", error);
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async getStatus(): Promise<RetentionStatus> {
+    return {
+      enabled: this.isEnabled(),
+      retentionDays: RETENTION_DAYS,
+      dryRun: RETENTION_DRY_RUN,
+      preview: this.isEnabled() ? await this.buildReport(true) : null,
+      lastRun: this.lastRun,
+    };
+  }
+
+  // What a run would roll up and delete now, each company up to the cutoff of its own timezone
+  private async buildReport(dryRun: boolean): Promise<RetentionReport> {
+    const now = new Date();
+    const startedAt = now.toISOString();
+
+    const [companyIds, settings] = await Promise.all([
+      storage.getRetentionCompanyIds(),
+      storage.getAllCompanySettings(),
+    ]);
+    const timezones = new Map(settings.map(s => [s.companyId, s.timezone]));
+
+    const companies: RetentionCompanyReport[] = [];
+    for (const companyId of companyIds) {
+      const timezone = timezones.get(companyId) || APP_TIMEZONE;
+      const cutoff = this.getCutoff(timezone, now);
+
+      const [months, jobSessionRows] = await Promise.all([
+        storage.getSnapshotMonthsBefore(companyId, dateKeyToDate(cutoff)),
+        storage.countJobSessionsBefore(companyId, startOfZonedDay(cutoff, timezone)),
+      ]);
+      if (months.length === 0 && jobSessionRows === 0) {
+        continue;
+      }
+
+      companies.push({
+        companyId,
+        companyName: months[0]?.companyName ?? companyId,
+        timezone,
+        cutoff,
+        months: months.map(month => month.month),
+        snapshotRows: months.reduce((sum, month) => sum + (month.dayCount ?? 0), 0),
+        jobSessionRows,
+      });
+    }
+
+    return {
+      dryRun,
+      retentionDays: RETENTION_DAYS,
+      cutoff: this.getCutoff(APP_TIMEZONE, now),
+      companies,
+      snapshotRows: companies.reduce((sum, c) => sum + c.snapshotRows, 0),
+      jobSessionRows: companies.reduce((sum, c) => sum + c.jobSessionRows, 0),
+      startedAt,
+      finishedAt: startedAt,
+    };
+  }
+}
+
+export const retentionService = new RetentionService();
@@ -4,8 +4,15 @@ import session from "express-session";
 import bcrypt from "bcrypt";
 import crypto from "crypto";
 import { storage } from "./storage";
-import { veeamService } from "./veeam-service";
-import { insertUserSchema, insertEmailScheduleSchema, insertReportScheduleSchema, insertScheduleRecipientSchema } from "@shared/schema";
+import { veeamService, BackfillRunningError, RPO_DEFAULT_HOURS } from "./veeam-service";
+import { retentionService } from "./retention-service";
+import { CollectionRunningError } from "./scheduler-service";
+import { ssoService, SsoError, type PendingSsoLogin, type SsoErrorCode } from "./sso-service";
+import { generateTotpSecret, verifyTotp, buildOtpauthUrl, generateRecoveryCodes, hashRecoveryCode, looksLikeRecoveryCode } from "./totp";
+import { VspcError, VspcThrottledError, type VspcErrorCode } from "./vspc-errors";
+import { APP_TIMEZONE, getCompanyTimezone, isValidTimezone, addDays, dateKeyToDate, toDateKey } from "./timezone";
+import QRCode from "qrcode";
+import { insertUserSchema, passwordSchema, insertRolePolicySchema, insertEmailScheduleSchema, insertReportScheduleSchema, insertScheduleRecipientSchema, insertVspcInstanceSchema, updateUserSchema, type User, type UserRole, type VspcInstance, type CompanyToday, USER_ROLES } from "@shared/schema";
 import { fromZodError } from "zod-validation-error";
 import { z } from "zod";
 
@@ -30,16 +37,21 @@ async function ensureServiceUser(): Promise<string> {
   if (!serviceUser) {
     // Create service user
     console.log("[Service] Creating service user for automated reports...");
+    // Only renders the print report, which needs nothing but read access
     serviceUser = await storage.createUser({
       username: SERVICE_USER_EMAIL,
       password: serviceUserPassword,
       name: "Report Service",
+      role: "viewer",
     });
     console.log("[Service] Service user created");
   } else {
     // Update password to match current session/environment
     console.log("[Service] Updating service user password...");
     await storage.updateUserPassword(serviceUser.id, serviceUserPassword);
+    if (serviceUser.role !== "viewer") {
+      await storage.updateUser(serviceUser.id, { role: "viewer" });
+    }
   }
   
   console.log(`[Service] Service user ready: ${SERVICE_USER_EMAIL}`);
@@ -51,9 +63,155 @@ export function getServiceCredentials(): { username: string; password: string }
   return { username: SERVICE_USER_EMAIL, password: serviceUserPassword };
 }
 
+const VSPC_ERROR_RESPONSES: Record<VspcErrorCode, { status: number; message: string }> = {
+  auth: { status: 502, message: "Falha de autenticação no VSPC. Verifique as credenciais da instância" },
+  not_found: { status: 404, message: "Recurso não encontrado no VSPC" },
+  throttled: { status: 429, message: "O VSPC está limitando as requisições. Tente novamente em instantes" },
+  unreachable: { status: 504, message: "O VSPC não respondeu. Tente novamente em instantes" },
+  api: { status: 502, message: "Erro na API do VSPC" },
+};
+
+// Translate VspcClient errors into HTTP responses; anything else is a 500 with the route's message
+function sendVeeamError(res: any, error: unknown, fallbackMessage: string) {
+  if (error instanceof VspcError) {
+    const { status, message } = VSPC_ERROR_RESPONSES[error.code];
+    if (error instanceof VspcThrottledError && error.retryAfterSeconds !== undefined) {
+      res.set("Retry-After", String(error.retryAfterSeconds));
+    }
+    return res.status(status).json({ message, code: error.code });
+  }
+  return res.status(500).json({ message: fallbackMessage });
+}
+
+const SSO_ERROR_MESSAGES: Record<SsoErrorCode, string> = {
+  canceled: "Login Microsoft cancelado",
+  expired: "O login Microsoft expirou. Tente novamente",
+  failed: "Falha no login Microsoft",
+};
+
+// Single sign-on ends on the login page, with the reason in the query string
+function redirectToLogin(res: any, message: string) {
+  return res.redirect(`/?sso_error=${encodeURIComponent(message)}`);
+}
+
+const MAX_RANGE_DAYS = 366;
+
+// RPO targets are whole hours up to a year
+function isRpoHours(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 8760;
+}
+
+// "YYYY-MM-DD" day parameters, kept as calendar days: the services resolve them in the company's
+// timezone. Null if invalid, reversed or over a year
+function parseDayRange(from: unknown, to: unknown): { startDate: string; endDate: string } | null {
+  const pattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (typeof from !== "string" || typeof to !== "string" || !pattern.test(from) || !pattern.test(to)) {
+    return null;
+  }
+
+  // Rejects impossible dates such as 2025-02-30
+  const isCalendarDay = (key: string) => !isNaN(dateKeyToDate(key).getTime()) && addDays(key, 0) === key;
+  if (!isCalendarDay(from) || !isCalendarDay(to)) {
+    return null;
+  }
+
+  if (to < from || addDays(from, MAX_RANGE_DAYS) < to) {
+    return null;
+  }
+  return { startDate: from, endDate: to };
+}
+
+// Never send VSPC credentials back to the browser
+function toPublicVspcInstance(instance: VspcInstance) {
+  const { apiKey, password, ...rest } = instance;
+  return {
+    ...rest,
+    authMode: apiKey ? "apiKey" : "password",
+    hasApiKey: !!apiKey,
+    hasPassword: !!password,
+  };
+}
+
+// Customer users are read-only and must point at a company of a loaded VSPC instance; null if valid
+async function checkUserScope(role: UserRole, companyId: string | null): Promise<string | null> {
+  if (!companyId) {
+    return null;
+  }
+  if (role !== "viewer") {
+    return "Usuários de cliente devem ter o perfil de visualizador";
+  }
+  const companies = await veeamService.getCompanies();
+  return companies.some(c => c.instanceUid === companyId) ? null : "Empresa não encontrada";
+}
+
+// Never send password hashes or two-factor secrets back to the browser
+function toPublicUser(user: User) {
+  const { password, totpSecret, totpRecoveryCodes, totpLastStep, ...rest } = user;
+  return { ...rest, twoFactorEnabled: !!totpSecret };
+}
+
+// What the login responses tell the browser about the signed-in user
+function toSessionUser(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    role: user.role,
+    companyId: user.companyId,
+  };
+}
+
+// Name shown for the account in the authenticator app
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "Veeam VSPC Dashboard";
+// The code step of the password login must be completed within this time and these attempts
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+// Between a correct password (or Microsoft sign-in) and the authenticator code; kept in the session
+// instead of userId
+interface PendingTwoFactorLogin {
+  userId: string;
+  sso: boolean;
+  attempts: number;
+  expiresAt: number;
+}
+
+// Accepts a code of the authenticator app or, failing that, one of the recovery codes (which is used up)
+async function verifySecondFactor(user: User, code: unknown): Promise<boolean> {
+  if (!user.totpSecret || typeof code !== "string") {
+    return false;
+  }
+
+  const step = verifyTotp(user.totpSecret, code);
+  if (step !== null) {
+    return storage.claimTotpStep(user.id, step);
+  }
+
+  if (looksLikeRecoveryCode(code) && await storage.consumeRecoveryCode(user.id, hashRecoveryCode(code))) {
+    console.log(`[2FA] ${user.username} used a recovery code (${user.totpRecoveryCodes.length - 1} left)`);
+    return true;
+  }
+  return false;
+}
+
+// Admins can require two-factor authentication per role. The service user is exempt: it logs in unattended
+async function isTwoFactorRequired(user: User): Promise<boolean> {
+  if (user.username === SERVICE_USER_EMAIL) {
+    return false;
+  }
+  const policies = await storage.getRolePolicies();
+  return policies.some(p => p.role === user.role && p.requireTwoFactor);
+}
+
 declare module "express-session" {
   interface SessionData {
     userId: string;
+    ssoPending: PendingSsoLogin;
+    // Signed in through Entra ID, whose own MFA (Conditional Access) takes the place of the local one
+    ssoLogin: boolean;
+    twoFactorPending: PendingTwoFactorLogin;
+    // Secret shown in the enrolment QR code, saved to the user once a code from it is confirmed
+    twoFactorSetupSecret: string;
   }
 }
 
@@ -72,35 +230,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     })
   );
 
-  const requireAuth = (req: any, res: any, next: any) => {
+  // Disabling a user ends their open sessions on the next request. The user is kept in
+  // res.locals.user for requireRole, so role changes also apply right away.
+  // Users whose role requires two-factor authentication and who have not enrolled yet only reach the
+  // routes that allow it (allowTwoFactorSetup): their profile, password and the enrolment itself
+  const authenticate = (allowTwoFactorSetup: boolean) => async (req: any, res: any, next: any) => {
     if (!req.session.userId) {
       return res.status(401).json({ message: "Não autenticado" });
     }
+
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (!user || !user.isActive) {
+        return req.session.destroy(() => {
+          res.status(401).json({ message: "Não autenticado" });
+        });
+      }
+      if (!allowTwoFactorSetup && !user.totpSecret && !req.session.ssoLogin && await isTwoFactorRequired(user)) {
+        return res.status(403).json({
+          message: "Ative a autenticação em dois fatores no seu perfil para continuar",
+          code: "two_factor_setup_required",
+        });
+      }
+      res.locals.user = user;
+      next();
+    } catch (error) {
+      console.error("Auth check error:", error);
+      return res.status(500).json({ message: "Erro no servidor" });
+    }
+  };
+  const requireAuth = authenticate(false);
+  const requireSession = authenticate(true);
+
+  // Goes after requireAuth on routes that change data
+  const requireRole = (...roles: UserRole[]) => (req: any, res: any, next: any) => {
+    const user: User | undefined = res.locals.user;
+    if (!user || !roles.includes(user.role)) {
+      return res.status(403).json({ message: "Sem permissão para esta ação" });
+    }
+    next();
+  };
+  const requireAdmin = requireRole("admin");
+  const requireOperator = requireRole("admin", "operator");
+
+  // Customer users (users.companyId set) only reach their own tenant; goes after requireAuth
+  // on every route with a :companyId parameter
+  const requireCompanyAccess = (req: any, res: any, next: any) => {
+    const user: User | undefined = res.locals.user;
+    if (!user || (user.companyId && user.companyId !== req.params.companyId)) {
+      return res.status(403).json({ message: "Acesso negado a esta empresa" });
+    }
+    next();
+  };
+
+  // Provider-wide views (every company at once) are for the provider's own team
+  const requireStaff = (req: any, res: any, next: any) => {
+    const user: User | undefined = res.locals.user;
+    if (!user || user.companyId) {
+      return res.status(403).json({ message: "Sem permissão para esta ação" });
+    }
     next();
   };
 
   // Initialize service user for automated reports
   await ensureServiceUser();
 
+  // Load VSPC connections (.env + database)
+  await veeamService.loadInstances();
+
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { username, password } = req.body;
 
-      // Allow both admin and service user
-      const allowedUsers = ["login@sistema.com", SERVICE_USER_EMAIL];
-      if (!allowedUsers.includes(username)) {
-        return res.status(401).json({
-          success: false,
-          message: "Usuário não autorizado",
-        });
-      }
-
       const user = await storage.getUserByUsername(username);
 
       if (!user) {
         return res.status(401).json({
           success: false,
-          message: "Usuário não encontrado. Reinicie a aplicação.",
+          message: "Usuário não encontrado",
         });
       }
 
@@ -112,15 +319,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (!user.isActive) {
+        return res.status(401).json({
+          success: false,
+          message: "Usuário desativado",
+        });
+      }
+
+      delete req.session.ssoLogin;
+
+      // Right password, but the session is only signed in once the authenticator code is checked
+      if (user.totpSecret) {
+        delete req.session.userId;
+        req.session.twoFactorPending = {
+          userId: user.id,
+          sso: false,
+          attempts: 0,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+        };
+        return res.json({ success: false, twoFactorRequired: true });
+      }
+
       req.session.userId = user.id;
 
       return res.json({
         success: true,
-        user: {
-          id: user.id,
-          username: user.username,
-          name: user.name,
-        },
+        user: toSessionUser(user),
       });
     } catch (error) {
       console.error("Login error:", error);
@@ -131,7 +355,156 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/auth/me", requireAuth, async (req, res) => {
+  // Second step of the password or Microsoft login: authenticator code or recovery code
+  app.post("/api/auth/login/2fa", async (req, res) => {
+    try {
+      const pending = req.session.twoFactorPending;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.twoFactorPending;
+        return res.status(401).json({
+          success: false,
+          message: "O login expirou. Entre novamente com e-mail e senha",
+        });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.isActive) {
+        delete req.session.twoFactorPending;
+        return res.status(401).json({
+          success: false,
+          message: "Usuário desativado",
+        });
+      }
+
+      if (!(await verifySecondFactor(user, req.body.code))) {
+        pending.attempts++;
+        if (pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+          console.warn(`[2FA] Too many wrong codes for ${user.username}, login canceled`);
+          delete req.session.twoFactorPending;
+          return res.status(401).json({
+            success: false,
+            message: "Muitas tentativas. Entre novamente com e-mail e senha",
+          });
+        }
+        return res.status(401).json({
+          success: false,
+          message: "Código inválido",
+        });
+      }
+
+      delete req.session.twoFactorPending;
+      req.session.userId = user.id;
+      if (pending.sso) {
+        req.session.ssoLogin = true;
+      }
+
+      return res.json({
+        success: true,
+        user: toSessionUser(user),
+      });
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Erro no servidor",
+      });
+    }
+  });
+
+  // =====================
+  // SINGLE SIGN-ON (ENTRA ID)
+  // =====================
+
+  app.get("/api/auth/sso/config", (req, res) => {
+    return res.json({ enabled: ssoService.isConfigured() });
+  });
+
+  app.get("/api/auth/sso/login", async (req, res) => {
+    if (!ssoService.isConfigured()) {
+      return redirectToLogin(res, "Login Microsoft não configurado");
+    }
+
+    try {
+      const { url, pending } = await ssoService.beginLogin();
+      req.session.ssoPending = pending;
+      return res.redirect(url);
+    } catch (error) {
+      console.error("SSO login error:", error);
+      return redirectToLogin(res, "Não foi possível iniciar o login Microsoft");
+    }
+  });
+
+  // Just-in-time provisioning: the first sign-in creates the user (or links the local user with the
+  // same UPN, when our tenant vouches for it) and every sign-in brings the role in line with the user's
+  // Entra ID groups
+  app.get("/api/auth/sso/callback", async (req, res) => {
+    const pending = req.session.ssoPending;
+    delete req.session.ssoPending;
+
+    try {
+      const identity = await ssoService.completeLogin(req.query as Record<string, string>, pending);
+
+      let user = await storage.getUserBySsoSubject(identity.subject);
+      if (!user) {
+        const existing = await storage.getUserByUsername(identity.username);
+        if (existing) {
+          // Linked once per account: a local user already linked to another Entra ID object stays with it
+          if (!identity.usernameVerified || existing.ssoSubject || existing.username === SERVICE_USER_EMAIL) {
+            console.warn(`[SSO] Refused to link ${identity.username} (${identity.subject}) to the existing local user`);
+            return redirectToLogin(res, "Já existe um usuário com este login. Peça a um administrador para verificar a sua conta");
+          }
+          user = await storage.linkUserSso(existing.id, identity.subject);
+          console.log(`[SSO] Linked ${user.username} to Entra ID`);
+        }
+      }
+
+      if (user && !user.isActive) {
+        return redirectToLogin(res, "Usuário desativado");
+      }
+
+      // Customer users keep their read-only scope whatever their groups
+      if (!user?.companyId && !identity.role) {
+        console.warn(`[SSO] ${identity.username} is in none of the SSO_*_GROUPS`);
+        return redirectToLogin(res, "Sua conta Microsoft não pertence a nenhum grupo com acesso ao dashboard");
+      }
+
+      if (!user) {
+        // Nobody knows this password: the account is only reachable through single sign-on
+        const created = await storage.createUser({
+          username: identity.username,
+          password: crypto.randomBytes(32).toString("hex"),
+          name: identity.name,
+          role: identity.role!,
+        });
+        user = await storage.linkUserSso(created.id, identity.subject);
+        console.log(`[SSO] Provisioned ${user.username} as ${user.role}`);
+      } else if (!user.companyId && user.role !== identity.role) {
+        console.log(`[SSO] ${user.username} changed from ${user.role} to ${identity.role} by group membership`);
+        user = await storage.updateUser(user.id, { role: identity.role! });
+      }
+
+      // Users who enrolled an authenticator are asked for its code here too, on the login page
+      if (user.totpSecret) {
+        delete req.session.userId;
+        req.session.twoFactorPending = {
+          userId: user.id,
+          sso: true,
+          attempts: 0,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+        };
+        return res.redirect("/?two_factor=1");
+      }
+
+      req.session.userId = user.id;
+      req.session.ssoLogin = true;
+      return res.redirect("/dashboard");
+    } catch (error) {
+      console.error("SSO callback error:", error);
+      return redirectToLogin(res, error instanceof SsoError ? SSO_ERROR_MESSAGES[error.code] : SSO_ERROR_MESSAGES.failed);
+    }
+  });
+
+  app.get("/api/auth/me", requireSession, async (req, res) => {
     try {
       const user = await storage.getUser(req.session.userId!);
       if (!user) {
@@ -139,9 +512,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       return res.json({
-        id: user.id,
-        username: user.username,
-        name: user.name,
+        ...toSessionUser(user),
+        twoFactorEnabled: !!user.totpSecret,
+        // Required by the role and not covered by an Entra ID sign-in
+        twoFactorRequired: !req.session.ssoLogin && await isTwoFactorRequired(user),
+        recoveryCodesLeft: user.totpRecoveryCodes.length,
       });
     } catch (error) {
       console.error("Get user error:", error);
@@ -159,7 +534,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  app.post("/api/auth/change-password", requireAuth, async (req, res) => {
+  app.post("/api/auth/change-password", requireSession, async (req, res) => {
     try {
       const { currentPassword, newPassword } = req.body;
 
@@ -170,10 +545,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      if (newPassword.length < 4) {
+      const passwordCheck = passwordSchema.safeParse(newPassword);
+      if (!passwordCheck.success) {
         return res.status(400).json({
           success: false,
-          message: "A nova senha deve ter no mínimo 4 caracteres",
+          message: passwordCheck.error.issues[0].message,
         });
       }
 
@@ -209,28 +585,493 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // =====================
+  // TWO-FACTOR AUTHENTICATION (TOTP)
+  // =====================
+
+  // Starts the enrolment: a new secret as QR code, confirmed by /enable with a code of the app
+  app.post("/api/auth/2fa/setup", requireSession, async (req, res) => {
+    try {
+      const user: User = res.locals.user;
+      if (user.totpSecret) {
+        return res.status(400).json({ message: "A autenticação em dois fatores já está ativa" });
+      }
+
+      const secret = generateTotpSecret();
+      const otpauthUrl = buildOtpauthUrl(secret, user.username, TOTP_ISSUER);
+      req.session.twoFactorSetupSecret = secret;
+
+      return res.json({
+        secret,
+        otpauthUrl,
+        qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 }),
+      });
+    } catch (error) {
+      console.error("Two-factor setup error:", error);
+      return res.status(500).json({ message: "Erro ao iniciar a configuração" });
+    }
+  });
+
+  // The recovery codes are returned only here and by /recovery-codes; the database keeps their hashes
+  app.post("/api/auth/2fa/enable", requireSession, async (req, res) => {
+    try {
+      const user: User = res.locals.user;
+      const secret = req.session.twoFactorSetupSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Configuração expirada. Comece novamente" });
+      }
+
+      const step = typeof req.body.code === "string" ? verifyTotp(secret, req.body.code) : null;
+      if (step === null) {
+        return res.status(400).json({ message: "Código inválido. Confira o horário do celular e tente novamente" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        totpSecret: secret,
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      });
+      await storage.claimTotpStep(user.id, step);
+      delete req.session.twoFactorSetupSecret;
+      console.log(`[2FA] Enabled for ${user.username}`);
+
+      return res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      console.error("Two-factor enable error:", error);
+      return res.status(500).json({ message: "Erro ao ativar a autenticação em dois fatores" });
+    }
+  });
+
+  // Replaces every recovery code; asks for a current code so an open session alone is not enough
+  app.post("/api/auth/2fa/recovery-codes", requireSession, async (req, res) => {
+    try {
+      const user: User = res.locals.user;
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "A autenticação em dois fatores não está ativa" });
+      }
+      if (!(await verifySecondFactor(user, req.body.code))) {
+        return res.status(400).json({ message: "Código inválido" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(user.id, {
+        totpSecret: user.totpSecret,
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      });
+      console.log(`[2FA] New recovery codes for ${user.username}`);
+
+      return res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      console.error("Recovery codes error:", error);
+      return res.status(500).json({ message: "Erro ao gerar códigos de recuperação" });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", requireSession, async (req, res) => {
+    try {
+      const user: User = res.locals.user;
+      if (!user.totpSecret) {
+        return res.status(400).json({ message: "A autenticação em dois fatores não está ativa" });
+      }
+      if (await isTwoFactorRequired(user)) {
+        return res.status(400).json({ message: "O seu perfil exige autenticação em dois fatores" });
+      }
+      if (!(await verifySecondFactor(user, req.body.code))) {
+        return res.status(400).json({ message: "Código inválido" });
+      }
+
+      await storage.updateUserTwoFactor(user.id, { totpSecret: null, totpRecoveryCodes: [] });
+      console.log(`[2FA] Disabled by ${user.username}`);
+
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Two-factor disable error:", error);
+      return res.status(500).json({ message: "Erro ao desativar a autenticação em dois fatores" });
+    }
+  });
+
+  // =====================
+  // USERS API
+  // =====================
+
+  app.get("/api/users", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      // The service user is managed by the application, not by people
+      return res.json(users.filter(u => u.username !== SERVICE_USER_EMAIL).map(toPublicUser));
+    } catch (error) {
+      console.error("Get users error:", error);
+      return res.status(500).json({ message: "Erro ao buscar usuários" });
+    }
+  });
+
+  app.post("/api/users", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validation = insertUserSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          message: fromZodError(validation.error).toString(),
+        });
+      }
+
+      const username = validation.data.username.trim();
+      const name = validation.data.name.trim();
+      const { password, role = "viewer" } = validation.data;
+      const companyId = validation.data.companyId || null;
+      if (!username || !name) {
+        return res.status(400).json({ message: "Login e nome são obrigatórios" });
+      }
+
+      const scopeError = await checkUserScope(role, companyId);
+      if (scopeError) {
+        return res.status(400).json({ message: scopeError });
+      }
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Já existe um usuário com este login" });
+      }
+
+      const user = await storage.createUser({ username, password, name, role, companyId });
+      console.log(`[Users] User ${user.username} created as ${user.role}${companyId ? ` of company ${companyId}` : ""}`);
+
+      return res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Create user error:", error);
+      return res.status(500).json({ message: "Erro ao criar usuário" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const user = await storage.getUser(id);
+      if (!user || user.username === SERVICE_USER_EMAIL) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+
+      const validation = updateUserSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: fromZodError(validation.error).toString(),
+        });
+      }
+
+      const updateData = { ...validation.data };
+      if (updateData.name !== undefined) {
+        updateData.name = updateData.name.trim();
+        if (!updateData.name) {
+          return res.status(400).json({ message: "O nome é obrigatório" });
+        }
+      }
+
+      // Nobody can lock themselves out
+      if (updateData.isActive === false && id === req.session.userId) {
+        return res.status(400).json({ message: "Você não pode desativar o próprio usuário" });
+      }
+      if (updateData.role !== undefined && updateData.role !== "admin" && id === req.session.userId) {
+        return res.status(400).json({ message: "Você não pode remover o próprio perfil de administrador" });
+      }
+
+      if (updateData.companyId === "") {
+        updateData.companyId = null;
+      }
+      const scopeError = await checkUserScope(
+        updateData.role ?? user.role,
+        updateData.companyId !== undefined ? updateData.companyId : user.companyId,
+      );
+      if (scopeError) {
+        return res.status(400).json({ message: scopeError });
+      }
+
+      const updated = await storage.updateUser(id, updateData);
+      if (updateData.isActive !== undefined && updateData.isActive !== user.isActive) {
+        console.log(`[Users] User ${user.username} ${updateData.isActive ? "enabled" : "disabled"}`);
+      }
+      if (updateData.role !== undefined && updateData.role !== user.role) {
+        console.log(`[Users] User ${user.username} changed from ${user.role} to ${updateData.role}`);
+      }
+      if (updateData.companyId !== undefined && updateData.companyId !== user.companyId) {
+        console.log(`[Users] User ${user.username} scoped to ${updateData.companyId ?? "all companies"}`);
+      }
+
+      return res.json(toPublicUser(updated));
+    } catch (error) {
+      console.error("Update user error:", error);
+      return res.status(500).json({ message: "Erro ao atualizar usuário" });
+    }
+  });
+
+  app.post("/api/users/:id/reset-password", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { newPassword } = req.body;
+
+      const user = await storage.getUser(id);
+      if (!user || user.username === SERVICE_USER_EMAIL) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+
+      const passwordCheck = passwordSchema.safeParse(newPassword);
+      if (!passwordCheck.success) {
+        return res.status(400).json({ message: passwordCheck.error.issues[0].message });
+      }
+
+      await storage.updateUserPassword(user.id, newPassword);
+      console.log(`[Users] Password of ${user.username} reset`);
+
+      return res.json({ success: true, message: "Senha redefinida com sucesso" });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      return res.status(500).json({ message: "Erro ao redefinir senha" });
+    }
+  });
+
+  // For a user who lost both the phone and the recovery codes; they enrol again on their profile
+  app.post("/api/users/:id/reset-2fa", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user || user.username === SERVICE_USER_EMAIL) {
+        return res.status(404).json({ message: "Usuário não encontrado" });
+      }
+
+      const updated = await storage.updateUserTwoFactor(user.id, { totpSecret: null, totpRecoveryCodes: [] });
+      console.log(`[Users] Two-factor authentication of ${user.username} reset by ${(res.locals.user as User).username}`);
+
+      return res.json(toPublicUser(updated));
+    } catch (error) {
+      console.error("Reset two-factor error:", error);
+      return res.status(500).json({ message: "Erro ao redefinir a autenticação em dois fatores" });
+    }
+  });
+
+  // One entry per role; roles never configured get the defaults
+  app.get("/api/role-policies", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const policies = await storage.getRolePolicies();
+      return res.json(USER_ROLES.map(role => ({
+        role,
+        requireTwoFactor: policies.find(p => p.role === role)?.requireTwoFactor ?? false,
+      })));
+    } catch (error) {
+      console.error("Get role policies error:", error);
+      return res.status(500).json({ message: "Erro ao buscar políticas de acesso" });
+    }
+  });
+
+  app.put("/api/role-policies/:role", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const result = insertRolePolicySchema.safeParse({ ...req.body, role: req.params.role });
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).toString() });
+      }
+
+      const policy = await storage.upsertRolePolicy(result.data);
+      console.log(`[Users] Two-factor authentication ${policy.requireTwoFactor ? "required" : "optional"} for ${policy.role} (by ${(res.locals.user as User).username})`);
+
+      return res.json({ role: policy.role, requireTwoFactor: policy.requireTwoFactor });
+    } catch (error) {
+      console.error("Update role policy error:", error);
+      return res.status(500).json({ message: "Erro ao atualizar política de acesso" });
+    }
+  });
+
   app.get("/api/companies", requireAuth, async (req, res) => {
     try {
       const companies = await veeamService.getCompanies();
-      return res.json(companies);
+      const { companyId } = res.locals.user as User;
+      return res.json(companyId ? companies.filter(c => c.instanceUid === companyId) : companies);
     } catch (error) {
       console.error("Get companies error:", error);
-      return res.status(500).json({ message: "Erro ao buscar empresas" });
+      return sendVeeamError(res, error, "Erro ao buscar empresas");
+    }
+  });
+
+  // Date pickers build their YYYY-MM-DD ranges from this day, not from the browser's clock and timezone
+  app.get("/api/companies/:companyId/today", requireAuth, requireCompanyAccess, async (req, res) => {
+    try {
+      const timezone = await getCompanyTimezone(req.params.companyId);
+      const today: CompanyToday = { timezone, today: toDateKey(new Date(), timezone) };
+      return res.json(today);
+    } catch (error) {
+      console.error("Get company today error:", error);
+      return res.status(500).json({ message: "Erro ao buscar a data da empresa" });
+    }
+  });
+
+  // =====================
+  // VSPC INSTANCES API
+  // =====================
+
+  app.get("/api/vspc-instances", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const instances = await storage.getVspcInstances();
+      return res.json(instances.map(toPublicVspcInstance));
+    } catch (error) {
+      console.error("Get VSPC instances error:", error);
+      return res.status(500).json({ message: "Erro ao buscar instâncias VSPC" });
     }
   });
 
-  app.get("/api/dashboard/metrics/:companyId", requireAuth, async (req, res) => {
+  app.post("/api/vspc-instances", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const validation = insertVspcInstanceSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          message: fromZodError(validation.error).toString(),
+        });
+      }
+
+      const { apiKey, username, password } = validation.data;
+      if (!apiKey && !(username && password)) {
+        return res.status(400).json({
+          message: "Informe a chave de API ou usuário e senha do VSPC",
+        });
+      }
+
+      const instance = await storage.createVspcInstance(validation.data);
+      await veeamService.loadInstances();
+
+      return res.json(toPublicVspcInstance(instance));
+    } catch (error) {
+      console.error("Create VSPC instance error:", error);
+      return res.status(500).json({ message: "Erro ao criar instância VSPC" });
+    }
+  });
+
+  app.patch("/api/vspc-instances/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const instance = await storage.getVspcInstanceById(id);
+      if (!instance) {
+        return res.status(404).json({ message: "Instância VSPC não encontrada" });
+      }
+
+      const validation = insertVspcInstanceSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          message: fromZodError(validation.error).toString(),
+        });
+      }
+
+      // Omitted secrets keep the stored value; null clears them when switching auth mode
+      const updateData = { ...validation.data };
+      if (updateData.apiKey === "") delete updateData.apiKey;
+      if (updateData.password === "") delete updateData.password;
+
+      const updated = await storage.updateVspcInstance(id, updateData);
+      await veeamService.loadInstances();
+
+      return res.json(toPublicVspcInstance(updated));
+    } catch (error) {
+      console.error("Update VSPC instance error:", error);
+      return res.status(500).json({ message: "Erro ao atualizar instância VSPC" });
+    }
+  });
+
+  app.delete("/api/vspc-instances/:id", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const instance = await storage.getVspcInstanceById(id);
+      if (!instance) {
+        return res.status(404).json({ message: "Instância VSPC não encontrada" });
+      }
+
+      await storage.deleteVspcInstance(id);
+      await veeamService.loadInstances();
+
+      return res.json({ success: true, message: "Instância VSPC excluída com sucesso" });
+    } catch (error) {
+      console.error("Delete VSPC instance error:", error);
+      return res.status(500).json({ message: "Erro ao excluir instância VSPC" });
+    }
+  });
+
+  // =====================
+  // COMPANY SETTINGS API
+  // =====================
+
+  app.get("/api/company-settings", requireAuth, requireStaff, async (req, res) => {
+    try {
+      const companies = await storage.getAllCompanySettings();
+      return res.json({ defaultTimezone: APP_TIMEZONE, defaultRpoHours: RPO_DEFAULT_HOURS, companies });
+    } catch (error) {
+      console.error("Get company settings error:", error);
+      return res.status(500).json({ message: "Erro ao buscar configurações das empresas" });
+    }
+  });
+
+  // timezone: IANA name (e.g. "America/Manaus"), or null for APP_TIMEZONE; stored sessions are moved
+  // to the days of the new timezone. contractedStorageGB: null uses the Cloud Connect quota.
+  // rpoHours: null uses RPO_DEFAULT_HOURS. Omitted fields are left unchanged.
+  app.put("/api/company-settings/:companyId", requireAuth, requireCompanyAccess, requireAdmin, async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      const { timezone, contractedStorageGB, rpoHours } = req.body;
+
+      if (timezone !== undefined && timezone !== null && (typeof timezone !== "string" || !isValidTimezone(timezone))) {
+        return res.status(400).json({ message: "Fuso horário inválido" });
+      }
+      if (contractedStorageGB !== undefined && contractedStorageGB !== null &&
+          (typeof contractedStorageGB !== "number" || !(contractedStorageGB > 0))) {
+        return res.status(400).json({ message: "Armazenamento contratado inválido" });
+      }
+      if (rpoHours !== undefined && rpoHours !== null && !isRpoHours(rpoHours)) {
+        return res.status(400).json({ message: "RPO inválido: informe horas entre 1 e 8760" });
+      }
+
+      const previousTimezone = await getCompanyTimezone(companyId);
+      const settings = await storage.upsertCompanySettings({ companyId, timezone, contractedStorageGB, rpoHours });
+
+      let rebuiltDays = 0;
+      if (timezone !== undefined && (timezone || APP_TIMEZONE) !== previousTimezone) {
+        rebuiltDays = await veeamService.rebuildSessionSnapshots(companyId, previousTimezone);
+      }
+
+      return res.json({ ...settings, rebuiltDays });
+    } catch (error) {
+      console.error("Update company settings error:", error);
+      return sendVeeamError(res, error, "Erro ao atualizar configurações da empresa");
+    }
+  });
+
+  app.get("/api/dashboard/metrics/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
     try {
       const { companyId } = req.params;
       const metrics = await veeamService.getDashboardMetrics(companyId);
       return res.json(metrics);
     } catch (error) {
       console.error("Get metrics error:", error);
-      return res.status(500).json({ message: "Erro ao buscar métricas" });
+      return sendVeeamError(res, error, "Erro ao buscar métricas");
     }
   });
 
-  app.post("/api/schedules", requireAuth, async (req, res) => {
+  app.get("/api/data-status/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      return res.json(veeamService.getDataStatus(companyId));
+    } catch (error) {
+      console.error("Get data status error:", error);
+      return res.status(500).json({ message: "Erro ao buscar status dos dados" });
+    }
+  });
+
+  app.post("/api/cache/refresh/:companyId", requireAuth, requireCompanyAccess, requireOperator, async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      await veeamService.refreshCompany(companyId);
+      return res.json({ success: true, message: "Dados atualizados" });
+    } catch (error) {
+      console.error("Refresh cache error:", error);
+      return sendVeeamError(res, error, "Erro ao atualizar dados");
+    }
+  });
+
+  app.post("/api/schedules", requireAuth, requireOperator, async (req, res) => {
     try {
       const validation = insertEmailScheduleSchema.safeParse({
         ...req.body,
@@ -261,19 +1102,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/scorecard/:companyId", requireAuth, async (req, res) => {
+  app.get("/api/scorecard/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
     try {
       const { companyId } = req.params;
       const scorecard = await veeamService.getDataPlatformScorecard(companyId);
       return res.json(scorecard);
     } catch (error) {
       console.error("Get scorecard error:", error);
-      return res.status(500).json({ message: "Erro ao buscar scorecard" });
+      return sendVeeamError(res, error, "Erro ao buscar scorecard");
+    }
+  });
+
+  // Workloads with their newest restore point against the RPO target, for the scorecard drill-down
+  app.get("/api/rpo/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      const compliance = await veeamService.getRpoCompliance(companyId);
+      return res.json(compliance);
+    } catch (error) {
+      console.error("Get RPO compliance error:", error);
+      return sendVeeamError(res, error, "Erro ao buscar conformidade de RPO");
     }
   });
 
-  // Collect session snapshot for a company (called by cron or manually)
-  app.post("/api/session-snapshots/collect", requireAuth, async (req, res) => {
+  // RPO target of one job (rpoHours), or null to follow the company's target again
+  app.put("/api/rpo/:companyId/jobs/:jobUid", requireAuth, requireCompanyAccess, requireOperator, async (req, res) => {
+    try {
+      const { companyId, jobUid } = req.params;
+      const { rpoHours, jobName } = req.body;
+
+      if (rpoHours === null) {
+        await storage.deleteJobRpoTarget(companyId, jobUid);
+        return res.json({ success: true });
+      }
+      if (!isRpoHours(rpoHours)) {
+        return res.status(400).json({ message: "RPO inválido: informe horas entre 1 e 8760" });
+      }
+      if (typeof jobName !== "string" || !jobName.trim()) {
+        return res.status(400).json({ message: "Nome do job é obrigatório" });
+      }
+
+      const target = await storage.upsertJobRpoTarget({ companyId, jobUid, jobName: jobName.trim(), rpoHours });
+      return res.json(target);
+    } catch (error) {
+      console.error("Update job RPO target error:", error);
+      return res.status(500).json({ message: "Erro ao atualizar RPO do job" });
+    }
+  });
+
+  // Collect the sessions of one company now (the scheduler collects all companies periodically)
+  app.post("/api/session-snapshots/collect", requireAuth, requireOperator, async (req, res) => {
     try {
       const { companyId } = req.body;
       
@@ -281,72 +1159,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "companyId is required" });
       }
 
-      const result = await veeamService.collectSessionSnapshot(companyId);
+      const companies = await veeamService.getCompanies();
+      const company = companies.find(c => c.instanceUid === companyId);
+      if (!company) {
+        return res.status(404).json({ message: "Empresa não encontrada" });
+      }
+
+      const { schedulerService } = await import("./scheduler-service");
+      const result = await schedulerService.collectCompanySnapshot(company);
       return res.json(result);
     } catch (error) {
+      if (error instanceof CollectionRunningError) {
+        return res.status(409).json({ message: "Já existe uma coleta em andamento, aguarde ela terminar" });
+      }
       console.error("Collect session snapshot error:", error);
-      return res.status(500).json({ message: "Erro ao coletar snapshot" });
+      return sendVeeamError(res, error, "Erro ao coletar snapshot");
     }
   });
 
-  // Collect session snapshots for all companies (authenticated)
-  app.post("/api/session-snapshots/collect-all", requireAuth, async (req, res) => {
+  // Collect session snapshots for all companies now
+  app.post("/api/session-snapshots/collect-all", requireAuth, requireOperator, async (req, res) => {
     try {
-      const companies = await veeamService.getCompanies();
-      const results = [];
-      
-      for (const company of companies) {
-        try {
-          const result = await veeamService.collectSessionSnapshot(company.instanceUid);
-          results.push({ company: company.name, success: true, result });
-        } catch (error) {
-          results.push({ company: company.name, success: false, error: String(error) });
-        }
-      }
-      
+      const { schedulerService } = await import("./scheduler-service");
+      const results = await schedulerService.collectAllSnapshots();
       return res.json({ collected: results.length, results });
     } catch (error) {
+      if (error instanceof CollectionRunningError) {
+        return res.status(409).json({ message: "Já existe uma coleta em andamento, aguarde ela terminar" });
+      }
       console.error("Collect all snapshots error:", error);
       return res.status(500).json({ message: "Erro ao coletar snapshots" });
     }
   });
 
-  // Internal endpoint for cron job - uses API key via header only
-  app.post("/api/internal/collect-snapshots", async (req, res) => {
+  // Last collection per company, for the collection admin page
+  app.get("/api/collection-status", requireAuth, requireStaff, async (req, res) => {
     try {
-      const apiKey = req.headers['x-api-key'];
-      const expectedKey = process.env.INTERNAL_API_KEY || process.env.SESSION_SECRET;
-      
-      if (!apiKey || apiKey !== expectedKey) {
-        console.warn(`[Security] Invalid API key attempt from ${req.ip}`);
-        return res.status(401).json({ message: "Chave de API inválida" });
+      const { schedulerService } = await import("./scheduler-service");
+      const status = await schedulerService.getCollectionStatus();
+      return res.json(status);
+    } catch (error) {
+      console.error("Get collection status error:", error);
+      return res.status(500).json({ message: "Erro ao buscar status da coleta" });
+    }
+  });
+
+  // Snapshot retention policy with a dry-run preview of the next run
+  app.get("/api/retention", requireAuth, requireStaff, async (req, res) => {
+    try {
+      const status = await retentionService.getStatus();
+      return res.json(status);
+    } catch (error) {
+      console.error("Get retention status error:", error);
+      return res.status(500).json({ message: "Erro ao buscar política de retenção" });
+    }
+  });
+
+  // Roll up and purge old snapshots now ({ dryRun: true } only reports)
+  app.post("/api/retention/run", requireAuth, requireAdmin, async (req, res) => {
+    try {
+      if (!retentionService.isEnabled()) {
+        return res.status(400).json({ message: "Retenção desativada (SNAPSHOT_RETENTION_DAYS=0)" });
+      }
+      if (retentionService.isRunning()) {
+        return res.status(409).json({ message: "A retenção já está em execução" });
       }
 
-      const companies = await veeamService.getCompanies();
-      const results = [];
-      
-      for (const company of companies) {
-        try {
-          const result = await veeamService.collectSessionSnapshot(company.instanceUid);
-          results.push({ company: company.name, success: true, result });
-        } catch (error) {
-          results.push({ company: company.name, success: false, error: String(error) });
-        }
+      const report = await retentionService.run(req.body?.dryRun === true);
+      return res.json(report);
+    } catch (error) {
+      console.error("Run retention error:", error);
+      return res.status(500).json({ message: "Erro ao aplicar retenção" });
+    }
+  });
+
+  // Rebuild past session history of a company from VSPC restore points (runs in the background)
+  app.post("/api/session-snapshots/backfill", requireAuth, requireOperator, async (req, res) => {
+    try {
+      const { companyId } = req.body;
+      if (!companyId) {
+        return res.status(400).json({ message: "companyId is required" });
       }
-      
-      console.log(`[Cron] Collected snapshots for ${results.length} companies`);
-      return res.json({ collected: results.length, results });
+
+      const range = parseDayRange(req.body.startDate, req.body.endDate);
+      if (!range) {
+        return res.status(400).json({ message: "Período inválido: informe startDate e endDate (AAAA-MM-DD), com no máximo 1 ano" });
+      }
+
+      if (veeamService.getDataMode() === "demo") {
+        return res.status(400).json({ message: "Modo demonstração: o histórico não é importado do VSPC" });
+      }
+
+      const progress = await veeamService.startBackfill(companyId, range.startDate, range.endDate);
+      return res.status(202).json(progress);
     } catch (error) {
-      console.error("Internal collect snapshots error:", error);
-      return res.status(500).json({ message: "Erro ao coletar snapshots" });
+      if (error instanceof BackfillRunningError) {
+        return res.status(409).json({ message: "Já existe uma importação em andamento para esta empresa" });
+      }
+      console.error("Start backfill error:", error);
+      return sendVeeamError(res, error, "Erro ao iniciar importação do histórico");
+    }
+  });
+
+  app.get("/api/session-snapshots/backfill/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
+    try {
+      const progress = veeamService.getBackfillProgress(req.params.companyId);
+      if (!progress) {
+        return res.status(404).json({ message: "Nenhuma importação iniciada para esta empresa" });
+      }
+      return res.json(progress);
+    } catch (error) {
+      console.error("Get backfill progress error:", error);
+      return res.status(500).json({ message: "Erro ao buscar progresso da importação" });
     }
   });
 
-  // Get session states for calendar (last 30 days)
-  app.get("/api/session-states/:companyId", requireAuth, async (req, res) => {
+  // Get session states for calendar (?from=&to= as YYYY-MM-DD, default last 30 days)
+  app.get("/api/session-states/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
     try {
       const { companyId } = req.params;
-      const sessionStates = await veeamService.getSessionStates(companyId);
+      let range: { startDate: string; endDate: string } | null = null;
+
+      if (req.query.from || req.query.to) {
+        range = parseDayRange(req.query.from, req.query.to);
+        if (!range) {
+          return res.status(400).json({ message: "Período inválido: informe from e to (AAAA-MM-DD), com no máximo 1 ano" });
+        }
+      }
+
+      const sessionStates = await veeamService.getSessionStates(companyId, range?.startDate, range?.endDate);
       return res.json(sessionStates);
     } catch (error) {
       console.error("Get session states error:", error);
@@ -354,11 +1295,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get monthly chart data (last 12 months)
-  app.get("/api/monthly-stats/:companyId", requireAuth, async (req, res) => {
+  // Get monthly chart data (?year=YYYY for a calendar year, default the last 12 months)
+  app.get("/api/monthly-stats/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
     try {
       const { companyId } = req.params;
-      const monthlyStats = await veeamService.getMonthlyStats(companyId);
+      let year: number | undefined;
+
+      if (req.query.year) {
+        year = parseInt(String(req.query.year), 10);
+        if (isNaN(year) || year < 2000 || year > new Date().getFullYear()) {
+          return res.status(400).json({ message: "Ano inválido" });
+        }
+      }
+
+      const monthlyStats = await veeamService.getMonthlyStats(companyId, year);
       return res.json(monthlyStats);
     } catch (error) {
       console.error("Get monthly stats error:", error);
@@ -366,27 +1316,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Protected-data capacity history and growth forecast (?days=30..730, default 365)
+  app.get("/api/capacity/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      let days: number | undefined;
+
+      if (req.query.days) {
+        days = parseInt(String(req.query.days), 10);
+        if (isNaN(days) || days < 30 || days > 730) {
+          return res.status(400).json({ message: "Período inválido: informe days entre 30 e 730" });
+        }
+      }
+
+      const trend = await veeamService.getCapacityTrend(companyId, days);
+      return res.json(trend);
+    } catch (error) {
+      console.error("Get capacity trend error:", error);
+      return res.status(500).json({ message: "Erro ao buscar histórico de capacidade" });
+    }
+  });
+
+  // Get VMs and computers whose backup size grew anomalously (ransomware indicator)
+  app.get("/api/size-anomalies/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      let days: number | undefined;
+
+      if (req.query.days) {
+        days = parseInt(String(req.query.days), 10);
+        if (isNaN(days) || days < 1 || days > 90) {
+          return res.status(400).json({ message: "Período inválido: informe days entre 1 e 90" });
+        }
+      }
+
+      const report = await veeamService.getSizeAnomalies(companyId, days);
+      return res.json(report);
+    } catch (error) {
+      console.error("Get size anomalies error:", error);
+      return res.status(500).json({ message: "Erro ao buscar anomalias de tamanho de backup" });
+    }
+  });
+
   // Get active alarms for a company
-  app.get("/api/alarms/:companyId", requireAuth, async (req, res) => {
+  app.get("/api/alarms/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
     try {
       const { companyId } = req.params;
       const alarms = await veeamService.getActiveAlarms(companyId);
       return res.json(alarms);
     } catch (error) {
       console.error("Get alarms error:", error);
-      return res.status(500).json({ message: "Erro ao buscar alarmes" });
+      return sendVeeamError(res, error, "Erro ao buscar alarmes");
     }
   });
 
   // Get failed jobs for a company
-  app.get("/api/failed-jobs/:companyId", requireAuth, async (req, res) => {
+  app.get("/api/failed-jobs/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
     try {
       const { companyId } = req.params;
       const failedJobs = await veeamService.getFailedJobs(companyId);
       return res.json(failedJobs);
     } catch (error) {
       console.error("Get failed jobs error:", error);
-      return res.status(500).json({ message: "Erro ao buscar jobs com falha" });
+      return sendVeeamError(res, error, "Erro ao buscar jobs com falha");
+    }
+  });
+
+  // Get backup repositories and Cloud Connect quotas for a company
+  app.get("/api/repositories/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
+    try {
+      const { companyId } = req.params;
+      const repositories = await veeamService.getRepositories(companyId);
+      return res.json(repositories);
+    } catch (error) {
+      console.error("Get repositories error:", error);
+      return sendVeeamError(res, error, "Erro ao buscar repositórios");
     }
   });
 
@@ -395,7 +1399,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // =====================
 
   // Create a new report schedule with recipients
-  app.post("/api/report-schedules", requireAuth, async (req, res) => {
+  app.post("/api/report-schedules", requireAuth, requireOperator, async (req, res) => {
     try {
       const { recipients, ...scheduleData } = req.body;
       
@@ -450,10 +1454,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all report schedules for the current user
+  // Schedules belong to the team, not to whoever created them: everyone sees them all
   app.get("/api/report-schedules", requireAuth, async (req, res) => {
     try {
-      const schedules = await storage.getReportSchedules(req.session.userId!);
+      const { companyId } = res.locals.user as User;
+      const schedules = (await storage.getReportSchedules())
+        .filter(schedule => !companyId || schedule.companyId === companyId);
       
       // Fetch recipients for each schedule
       const schedulesWithRecipients = await Promise.all(
@@ -479,15 +1485,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const schedule = await storage.getReportScheduleById(id);
       
-      if (!schedule) {
+      // Schedules of other tenants do not exist for a customer user
+      const { companyId } = res.locals.user as User;
+      if (!schedule || (companyId && schedule.companyId !== companyId)) {
         return res.status(404).json({ message: "Agendamento não encontrado" });
       }
 
-      // Check if user owns this schedule
-      if (schedule.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Acesso negado" });
-      }
-
       const recipients = await storage.getScheduleRecipients(schedule.id);
       const runs = await storage.getScheduleRuns(schedule.id);
 
@@ -503,7 +1506,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update a report schedule
-  app.patch("/api/report-schedules/:id", requireAuth, async (req, res) => {
+  app.patch("/api/report-schedules/:id", requireAuth, requireOperator, async (req, res) => {
     try {
       const { id } = req.params;
       const { recipients, ...updateData } = req.body;
@@ -514,11 +1517,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Agendamento não encontrado" });
       }
 
-      // Check if user owns this schedule
-      if (schedule.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Acesso negado" });
-      }
-
       // Update schedule
       const updated = await storage.updateReportSchedule(id, updateData);
 
@@ -558,7 +1556,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a report schedule
-  app.delete("/api/report-schedules/:id", requireAuth, async (req, res) => {
+  app.delete("/api/report-schedules/:id", requireAuth, requireOperator, async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -568,11 +1566,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Agendamento não encontrado" });
       }
 
-      // Check if user owns this schedule
-      if (schedule.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Acesso negado" });
-      }
-
       await storage.deleteReportSchedule(id);
 
       return res.json({ success: true, message: "Agendamento excluído com sucesso" });
@@ -583,7 +1576,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Toggle schedule active status
-  app.patch("/api/report-schedules/:id/toggle", requireAuth, async (req, res) => {
+  app.patch("/api/report-schedules/:id/toggle", requireAuth, requireOperator, async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -593,11 +1586,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Agendamento não encontrado" });
       }
 
-      // Check if user owns this schedule
-      if (schedule.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Acesso negado" });
-      }
-
       const updated = await storage.updateReportSchedule(id, {
         isActive: !schedule.isActive,
       });
@@ -610,7 +1598,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Manual run of a schedule
-  app.post("/api/report-schedules/:id/run", requireAuth, async (req, res) => {
+  app.post("/api/report-schedules/:id/run", requireAuth, requireOperator, async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -620,11 +1608,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Agendamento não encontrado" });
       }
 
-      // Check if user owns this schedule
-      if (schedule.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Acesso negado" });
-      }
-
       // Import and execute scheduler
       const { schedulerService } = await import("./scheduler-service");
       const result = await schedulerService.executeManually(id);
@@ -647,15 +1630,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const schedule = await storage.getReportScheduleById(id);
       
-      if (!schedule) {
+      // Schedules of other tenants do not exist for a customer user
+      const { companyId } = res.locals.user as User;
+      if (!schedule || (companyId && schedule.companyId !== companyId)) {
         return res.status(404).json({ message: "Agendamento não encontrado" });
       }
 
-      // Check if user owns this schedule
-      if (schedule.userId !== req.session.userId) {
-        return res.status(403).json({ message: "Acesso negado" });
-      }
-
       const runs = await storage.getScheduleRuns(id);
 
       return res.json(runs);
@@ -666,7 +1646,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all report data in a single request (for PDF generation)
-  app.get("/api/report/data/:companyId", requireAuth, async (req, res) => {
+  app.get("/api/report/data/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
     try {
       const { companyId } = req.params;
       
@@ -674,6 +1654,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Company ID é obrigatório" });
       }
 
+      // Session calendar period (?from=&to=), default last 30 days
+      const calendarRange = parseDayRange(req.query.from, req.query.to);
+
       console.log(`[ReportData] Fetching all data for company ${companyId}...`);
 
       const fetchWithFallback = async <T>(
@@ -690,7 +1673,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       };
 
-      const [companiesResult, metricsResult, scorecardResult, sessionStatesResult, monthlyStatsResult, failedJobsResult] = await Promise.all([
+      const [companiesResult, metricsResult, scorecardResult, sessionStatesResult, monthlyStatsResult, failedJobsResult, repositoriesResult, capacityResult] = await Promise.all([
         fetchWithFallback("companies", () => veeamService.getCompanies(), []),
         fetchWithFallback("metrics", () => veeamService.getDashboardMetrics(companyId), { 
           totalBackups: 0, successRate: 0, activeJobs: 0, storageUsedGB: 0, 
@@ -700,22 +1683,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fetchWithFallback("scorecard", () => veeamService.getDataPlatformScorecard(companyId), {
           overallScore: 0, status: "Atenção" as const, statusMessage: "Dados indisponíveis",
           jobSessions: { percentage: 0, okCount: 0, issueCount: 0, title: "Sessões de Jobs" },
-          platformHealth: { percentage: 0, okCount: 0, issueCount: 0, title: "Saúde da Plataforma" }
+          platformHealth: { percentage: 0, okCount: 0, issueCount: 0, title: "Saúde da Plataforma" },
+          rpoCompliance: { percentage: 0, okCount: 0, issueCount: 0, title: "Conformidade de RPO" }
         }),
-        fetchWithFallback("sessionStates", () => veeamService.getSessionStates(companyId), { days: [], hasData: false }),
+        fetchWithFallback("sessionStates", () => veeamService.getSessionStates(companyId, calendarRange?.startDate, calendarRange?.endDate), { days: [], hasData: false }),
         fetchWithFallback("monthlyStats", () => veeamService.getMonthlyStats(companyId), []),
         fetchWithFallback("failedJobs", () => veeamService.getFailedJobs(companyId), []),
+        fetchWithFallback("repositories", () => veeamService.getRepositories(companyId), []),
+        fetchWithFallback("capacity", () => veeamService.getCapacityTrend(companyId), null),
       ]);
 
       const company = companiesResult.data.find(c => c.instanceUid === companyId);
       const companyName = company?.name || "Cliente";
 
+      // Reports go to customers: stale (degraded) or demo numbers are a failure, not a fallback
+      const dataStatus = veeamService.getDataStatus(companyId);
+
+      // Every section of the report is required: one that could not be loaded fails the report
       const errors = [
+        companiesResult.error && `companies: ${companiesResult.error}`,
         metricsResult.error && `metrics: ${metricsResult.error}`,
         scorecardResult.error && `scorecard: ${scorecardResult.error}`,
+        sessionStatesResult.error && `sessionStates: ${sessionStatesResult.error}`,
+        monthlyStatsResult.error && `monthlyStats: ${monthlyStatsResult.error}`,
+        failedJobsResult.error && `failedJobs: ${failedJobsResult.error}`,
+        repositoriesResult.error && `repositories: ${repositoriesResult.error}`,
+        capacityResult.error && `capacity: ${capacityResult.error}`,
+        ...dataStatus.errors.map(error => `VSPC: ${error}`),
+        dataStatus.mode === "demo" && "dados de demonstração (VEEAM_DATA_MODE=demo ou VSPC não configurado)",
       ].filter(Boolean);
 
-      const hasEssentialData = !metricsResult.error && !scorecardResult.error;
+      const hasEssentialData = errors.length === 0;
 
       console.log(`[ReportData] Data fetched for ${companyName}. Essential data: ${hasEssentialData}`);
 
@@ -728,6 +1726,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sessionStates: sessionStatesResult.data,
         monthlyStats: monthlyStatsResult.data,
         failedJobs: failedJobsResult.data,
+        repositories: repositoriesResult.data,
+        capacity: capacityResult.data,
+        dataMode: dataStatus.mode,
         generatedAt: new Date().toISOString(),
         errors: errors.length > 0 ? errors : undefined,
       });
@@ -742,7 +1743,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate PDF report via Playwright (download endpoint)
-  app.get("/api/report/pdf/:companyId", requireAuth, async (req, res) => {
+  app.get("/api/report/pdf/:companyId", requireAuth, requireCompanyAccess, async (req, res) => {
     try {
       const { companyId } = req.params;
       
@@ -761,7 +1762,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const baseUrl = process.env.BASE_URL || `http://localhost:${process.env.PORT || 5000}`;
       
       console.log(`[PDF] Generating PDF for company ${companyId}...`);
-      const pdfBuffer = await playwrightPdfService.generatePdf(companyId, baseUrl);
+      // ?calendar=90d or 12m widens the session calendar (e.g. quarterly business reviews)
+      const calendar = ["30d", "90d", "12m"].includes(String(req.query.calendar)) ? String(req.query.calendar) : "30d";
+      const pdfBuffer = await playwrightPdfService.generatePdf(companyId, baseUrl, "weekly", calendar);
       
       const filename = `Relatorio_BaaS_${sanitizedName}_${new Date().toISOString().split('T')[0]}.pdf`;
       
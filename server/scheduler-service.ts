@@ -2,11 +2,35 @@ import cron from "node-cron";
 import { storage } from "./storage";
 import { playwrightPdfService } from "./playwright-pdf-service";
 import { emailService } from "./email-service";
-import type { ReportSchedule, ScheduleRecipient } from "@shared/schema";
+import { veeamService } from "./veeam-service";
+import { retentionService, RETENTION_HOUR } from "./retention-service";
+import { SIZE_ANOMALY_RECIPIENTS } from "./size-anomaly-detector";
+import { APP_TIMEZONE, getZonedParts, type ZonedParts } from "./timezone";
+import type { ReportSchedule, ScheduleRecipient, VeeamCompany, CollectionStatus, CompanyCollectionStatus, SizeAnomaly } from "@shared/schema";
+
+// Minutes between session collections; 0 disables automatic collection
+const COLLECTION_INTERVAL_MINUTES = parseInt(process.env.SNAPSHOT_COLLECTION_INTERVAL_MINUTES || "15", 10);
+
+export interface CompanyCollectionResult {
+  company: string;
+  success: boolean;
+  sessionCount: number;
+  error?: string;
+}
+
+// A manual collection while another one (scheduled, collect-all or single company) is running
+export class CollectionRunningError extends Error {
+  constructor() {
+    super("A collection is already running");
+    this.name = "CollectionRunningError";
+  }
+}
 
 export class SchedulerService {
   private cronJob: cron.ScheduledTask | null = null;
   private executingSchedules: Set<string> = new Set();
+  private isCollecting = false;
+  private lastCollectionAt: Date | null = null;
 
   start() {
     if (this.cronJob) {
@@ -15,10 +39,20 @@ export class SchedulerService {
     }
 
     this.cronJob = cron.schedule("* * * * *", async () => {
-      await this.checkAndExecuteSchedules();
+      await Promise.allSettled([
+        this.checkAndExecuteSchedules(),
+        this.checkSnapshotCollection(),
+        this.checkRetention(),
+      ]);
     });
 
-    console.log("[Scheduler] Started - checking every minute");
+    const collection = COLLECTION_INTERVAL_MINUTES > 0
+      ? `collecting sessions every ${COLLECTION_INTERVAL_MINUTES} min`
+      : "session collection disabled";
+    const retention = retentionService.isEnabled()
+      ? `snapshot retention daily at ${String(RETENTION_HOUR).padStart(2, "0")}:00`
+      : "snapshot retention disabled";
+    console.log(`[Scheduler] Started - checking every minute, ${collection}, ${retention}`);
   }
 
   stop() {
@@ -31,14 +65,14 @@ export class SchedulerService {
 
   private async checkAndExecuteSchedules() {
     try {
-      // Usar horário de Brasília (GMT-3) para agendamentos
-      const nowBrasilia = new Date(new Date().toLocaleString("en-US", { timeZone: "America/Sao_Paulo" }));
-      const currentHour = nowBrasilia.getHours();
-      const currentMinute = nowBrasilia.getMinutes();
-      const currentDayOfWeek = nowBrasilia.getDay();
-      const currentDayOfMonth = nowBrasilia.getDate();
-
+      // Schedule times are wall-clock times in the company's timezone (APP_TIMEZONE by default)
+      const now = new Date();
       const activeSchedules = await storage.getActiveSchedules();
+      const timezones = new Map(
+        (await storage.getAllCompanySettings())
+          .filter(settings => settings.timezone)
+          .map(settings => [settings.companyId, settings.timezone!])
+      );
 
       const executionPromises: Promise<void>[] = [];
 
@@ -50,10 +84,7 @@ export class SchedulerService {
 
         const shouldRun = this.shouldScheduleRun(
           schedule,
-          currentHour,
-          currentMinute,
-          currentDayOfWeek,
-          currentDayOfMonth
+          getZonedParts(now, timezones.get(schedule.companyId) || APP_TIMEZONE)
         );
 
         if (shouldRun) {
@@ -77,14 +108,8 @@ export class SchedulerService {
     }
   }
 
-  private shouldScheduleRun(
-    schedule: ReportSchedule,
-    hour: number,
-    minute: number,
-    dayOfWeek: number,
-    dayOfMonth: number
-  ): boolean {
-    if (schedule.hour !== hour || schedule.minute !== minute) {
+  private shouldScheduleRun(schedule: ReportSchedule, now: ZonedParts): boolean {
+    if (schedule.hour !== now.hour || schedule.minute !== now.minute) {
       return false;
     }
 
@@ -92,15 +117,16 @@ export class SchedulerService {
       case "daily":
         return true;
       case "weekly":
-        return schedule.dayOfWeek === dayOfWeek;
+        return schedule.dayOfWeek === now.dayOfWeek;
       case "monthly":
-        return schedule.dayOfMonth === dayOfMonth;
+        return schedule.dayOfMonth === now.day;
       default:
         return false;
     }
   }
 
-  private async executeSchedule(schedule: ReportSchedule) {
+  // Records the run as success or failed; a failure is rethrown so manual runs can report it
+  private async executeSchedule(schedule: ReportSchedule): Promise<void> {
     const run = await storage.createScheduleRun({
       scheduleId: schedule.id,
       status: "running",
@@ -119,6 +145,11 @@ export class SchedulerService {
         throw new Error("No recipients configured for this schedule");
       }
 
+      // Never email demo numbers to a customer
+      if (veeamService.getDataMode() === "demo") {
+        throw new Error("VSPC data is in demo mode (VEEAM_DATA_MODE=demo or no VSPC configured); report not sent");
+      }
+
       console.log(`[Scheduler] Generating PDF for ${schedule.companyName}...`);
       const baseUrl = process.env.BASE_URL || "http://localhost:5000";
       const pdfBuffer = await playwrightPdfService.generatePdf(schedule.companyId, baseUrl, schedule.frequency);
@@ -148,7 +179,181 @@ export class SchedulerService {
         errorMessage,
         completedAt: new Date(),
       });
+      throw error;
+    }
+  }
+
+  // First collection runs on the first tick after startup, then every COLLECTION_INTERVAL_MINUTES
+  private async checkSnapshotCollection() {
+    if (COLLECTION_INTERVAL_MINUTES <= 0 || this.isCollecting) {
+      return;
+    }
+
+    const dueAt = this.lastCollectionAt
+      ? this.lastCollectionAt.getTime() + COLLECTION_INTERVAL_MINUTES * 60 * 1000
+      : 0;
+    // 5s slack so a collection started a few ms after the minute tick doesn't slip a whole minute
+    if (Date.now() + 5000 < dueAt) {
+      return;
+    }
+
+    try {
+      await this.collectAllSnapshots();
+    } catch (error) {
+      console.error("[Scheduler] Error collecting snapshots:", error);
+    }
+  }
+
+  // Daily roll-up of old session snapshots into monthly totals (see retention-service.ts)
+  private async checkRetention() {
+    const now = getZonedParts(new Date(), APP_TIMEZONE);
+    if (now.hour !== RETENTION_HOUR || now.minute !== 0) {
+      return;
+    }
+
+    try {
+      await retentionService.runScheduled();
+    } catch (error) {
+      console.error("[Scheduler] Error running snapshot retention:", error);
+    }
+  }
+
+  // Collects the sessions of every company, one collection_runs row each
+  async collectAllSnapshots(): Promise<CompanyCollectionResult[]> {
+    if (this.isCollecting) {
+      throw new CollectionRunningError();
+    }
+
+    this.isCollecting = true;
+    this.lastCollectionAt = new Date();
+    try {
+      if (veeamService.getDataMode() === "demo") {
+        console.log("[Scheduler] Demo data mode, skipping session collection");
+        return [];
+      }
+
+      const companies = await veeamService.getCompanies();
+      const results: CompanyCollectionResult[] = [];
+
+      for (const company of companies) {
+        results.push(await this.collectCompany(company));
+      }
+
+      const failed = results.filter(r => !r.success).length;
+      console.log(`[Scheduler] Collected sessions for ${results.length} companies (${failed} failed)`);
+      return results;
+    } finally {
+      this.isCollecting = false;
+    }
+  }
+
+  // Manual collection of one company; shares the guard of the scheduled and collect-all runs
+  async collectCompanySnapshot(company: VeeamCompany): Promise<CompanyCollectionResult> {
+    if (this.isCollecting) {
+      throw new CollectionRunningError();
+    }
+
+    this.isCollecting = true;
+    try {
+      return await this.collectCompany(company);
+    } finally {
+      this.isCollecting = false;
+    }
+  }
+
+  // Never throws: a failing company gets a failed collection_runs row and the others are still collected
+  private async collectCompany(company: VeeamCompany): Promise<CompanyCollectionResult> {
+    let runId: string | null = null;
+    try {
+      const run = await storage.createCollectionRun({
+        companyId: company.instanceUid,
+        companyName: company.name,
+        status: "running",
+      });
+      runId = run.id;
+
+      const result = await veeamService.collectSessionSnapshot(company.instanceUid);
+      await veeamService.collectCapacitySnapshot(company.instanceUid, company.name);
+      const anomalies = await veeamService.collectWorkloadSizes(company.instanceUid, company.name);
+      if (anomalies.length > 0) {
+        await this.notifySizeAnomalies(company, anomalies);
+      }
+
+      await storage.updateCollectionRun(run.id, {
+        status: result.success ? "success" : "failed",
+        sessionCount: result.sessionCount,
+        errorMessage: result.success ? null : result.message,
+        completedAt: new Date(),
+      });
+
+      return {
+        company: company.name,
+        success: result.success,
+        sessionCount: result.sessionCount,
+        error: result.success ? undefined : result.message,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`[Scheduler] Collection for ${company.name} failed:`, error);
+
+      if (runId) {
+        await storage.updateCollectionRun(runId, {
+          status: "failed",
+          errorMessage,
+          completedAt: new Date(),
+        }).catch(updateError => {
+          console.error(`[Scheduler] Error closing collection run of ${company.name}:`, updateError);
+        });
+      }
+
+      return { company: company.name, success: false, sessionCount: 0, error: errorMessage };
+    }
+  }
+
+  // E-mails SIZE_ANOMALY_ALERT_RECIPIENTS; failures are only logged so the collection still completes
+  private async notifySizeAnomalies(company: VeeamCompany, anomalies: SizeAnomaly[]): Promise<void> {
+    const names = anomalies.map(a => a.workloadName).join(", ");
+    console.warn(`[Scheduler] Anomalous backup growth for ${company.name}: ${names}`);
+
+    if (SIZE_ANOMALY_RECIPIENTS.length === 0 || !emailService.isConfigured()) {
+      return;
     }
+
+    try {
+      await emailService.sendSizeAnomalyAlert(SIZE_ANOMALY_RECIPIENTS, company.name, anomalies);
+      console.log(`[Scheduler] Size anomaly alert for ${company.name} sent to ${SIZE_ANOMALY_RECIPIENTS.length} recipient(s)`);
+    } catch (error) {
+      console.error(`[Scheduler] Error sending size anomaly alert for ${company.name}:`, error);
+    }
+  }
+
+  async getCollectionStatus(): Promise<CollectionStatus> {
+    const [latestRuns, latestSuccesses] = await Promise.all([
+      storage.getLatestCollectionRuns(),
+      storage.getLatestSuccessfulCollectionRuns(),
+    ]);
+
+    const lastSuccessByCompany = new Map(latestSuccesses.map(run => [run.companyId, run.startedAt]));
+
+    const companies: CompanyCollectionStatus[] = latestRuns
+      .map(run => ({
+        companyId: run.companyId,
+        companyName: run.companyName,
+        lastRunAt: run.startedAt.toISOString(),
+        lastStatus: run.status,
+        lastError: run.errorMessage,
+        lastSessionCount: run.sessionCount,
+        lastSuccessAt: lastSuccessByCompany.get(run.companyId)?.toISOString() ?? null,
+      }))
+      .sort((a, b) => a.companyName.localeCompare(b.companyName));
+
+    return {
+      enabled: COLLECTION_INTERVAL_MINUTES > 0,
+      intervalMinutes: COLLECTION_INTERVAL_MINUTES,
+      isCollecting: this.isCollecting,
+      lastCollectionAt: this.lastCollectionAt?.toISOString() ?? null,
+      companies,
+    };
   }
 
   async executeManually(scheduleId: string): Promise<{ success: boolean; message: string }> {
@@ -10,6 +10,7 @@ export async function seedDatabase() {
         username: "login@sistema.com",
         password: "admin",
         name: "Administrador Sistema",
+        role: "admin",
       });
       console.log("✓ Usuário padrão criado: login@sistema.com / admin");
     } else {
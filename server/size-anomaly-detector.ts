@@ -0,0 +1,75 @@
+import { dateKeyToDate } from "./timezone";
+
+// Ransomware indicator: encrypted data no longer deduplicates or compresses, so the backups of a VM or
+// computer suddenly grow far more in a day than they usually do. Each day's growth is compared with the
+// median growth of the preceding days, scaled by the median absolute deviation (robust against the
+// occasional full backup or retention cleanup already in the baseline).
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Days of growth the baseline is computed from
+export const SIZE_ANOMALY_BASELINE_DAYS = 30;
+// Fewer baseline days than this give no meaningful spread
+const MIN_BASELINE_POINTS = 7;
+// Robust standard deviations above the baseline for a day to be flagged
+const SCORE_THRESHOLD = parseFloat(process.env.SIZE_ANOMALY_SCORE || "6");
+// Growth below this is never flagged, however quiet the workload usually is
+const MIN_INCREMENT_GB = parseFloat(process.env.SIZE_ANOMALY_MIN_GB || "5");
+// Addresses e-mailed when the daily collection flags a workload (comma separated); empty disables the alert
+export const SIZE_ANOMALY_RECIPIENTS = (process.env.SIZE_ANOMALY_ALERT_RECIPIENTS || "")
+  .split(",")
+  .map(email => email.trim())
+  .filter(Boolean);
+// MAD of a normal distribution is 0.6745 standard deviations
+const MAD_TO_SIGMA = 1.4826;
+
+export interface SizePoint {
+  date: string; // YYYY-MM-DD
+  sizeGB: number;
+}
+
+export interface SizeAnomalyMatch {
+  date: string;
+  sizeGB: number;
+  incrementGB: number;
+  baselineGB: number;
+  score: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Days from "since" on whose growth deviates from the workload's baseline; history sorted by date
+export function findSizeAnomalies(history: SizePoint[], since: string): SizeAnomalyMatch[] {
+  // Growth per day between consecutive snapshots (a missed collection spreads the growth over the gap)
+  const increments = history.slice(1).map((point, i) => {
+    const gapDays = Math.max((dateKeyToDate(point.date).getTime() - dateKeyToDate(history[i].date).getTime()) / DAY_MS, 1);
+    return { date: point.date, sizeGB: point.sizeGB, incrementGB: (point.sizeGB - history[i].sizeGB) / gapDays };
+  });
+
+  const matches: SizeAnomalyMatch[] = [];
+  increments.forEach((current, i) => {
+    if (current.date < since || current.incrementGB < MIN_INCREMENT_GB) {
+      return;
+    }
+
+    const baseline = increments.slice(Math.max(i - SIZE_ANOMALY_BASELINE_DAYS, 0), i).map(p => p.incrementGB);
+    if (baseline.length < MIN_BASELINE_POINTS) {
+      return;
+    }
+
+    const baselineGB = median(baseline);
+    const mad = median(baseline.map(value => Math.abs(value - baselineGB)));
+    // A perfectly steady workload has no spread: fall back to a tenth of its usual growth
+    const scale = Math.max(mad * MAD_TO_SIGMA, Math.abs(baselineGB) * 0.1, 0.1);
+    const score = (current.incrementGB - baselineGB) / scale;
+
+    if (score >= SCORE_THRESHOLD) {
+      matches.push({ ...current, baselineGB, score });
+    }
+  });
+
+  return matches;
+}
@@ -0,0 +1,204 @@
+import { ConfidentialClientApplication, CryptoProvider, type Configuration } from "@azure/msal-node";
+import type { UserRole } from "@shared/schema";
+
+// Single sign-on with Microsoft Entra ID: OpenID Connect authorization code flow with PKCE.
+// The Entra ID groups of the user (the "groups" claim of the ID token) decide their role.
+
+interface SsoConfig {
+  authority: string;
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+// Between the redirect to Entra ID and the callback; kept in the user's session
+export interface PendingSsoLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+export interface SsoIdentity {
+  subject: string; // Entra ID object id, stable across renames and e-mail changes
+  username: string; // preferred_username (UPN), lowercased
+  // The username is a UPN of a member of our own tenant, so the tenant vouches for it. Guests and
+  // other tenants can put any address there: only verified usernames may be matched to local users
+  usernameVerified: boolean;
+  name: string;
+  role: UserRole | null; // null when none of the user's groups has access
+}
+
+export type SsoErrorCode = 'canceled' | 'expired' | 'failed';
+
+export class SsoError extends Error {
+  constructor(message: string, readonly code: SsoErrorCode) {
+    super(message);
+    this.name = 'SsoError';
+  }
+}
+
+const SCOPES = ["openid", "profile", "email"];
+
+function parseGroups(value: string | undefined): string[] {
+  return (value || "").split(",").map(group => group.trim()).filter(Boolean);
+}
+
+// Highest role first: a member of several mapped groups gets the strongest one
+const ROLE_GROUPS: [UserRole, string[]][] = [
+  ["admin", parseGroups(process.env.SSO_ADMIN_GROUPS)],
+  ["operator", parseGroups(process.env.SSO_OPERATOR_GROUPS)],
+  ["viewer", parseGroups(process.env.SSO_VIEWER_GROUPS)],
+];
+
+export function mapGroupsToRole(groups: string[]): UserRole | null {
+  const match = ROLE_GROUPS.find(([, roleGroups]) => roleGroups.some(group => groups.includes(group)));
+  return match ? match[0] : null;
+}
+
+export class SsoService {
+  private config: SsoConfig | null = null;
+  private client: Promise<ConfidentialClientApplication> | null = null;
+  private cryptoProvider = new CryptoProvider();
+
+  constructor() {
+    const tenantId = process.env.ENTRA_TENANT_ID;
+    const clientId = process.env.ENTRA_CLIENT_ID;
+    const clientSecret = process.env.ENTRA_CLIENT_SECRET;
+    const redirectUri = process.env.ENTRA_REDIRECT_URI || "http://localhost:5000/api/auth/sso/callback";
+    // Overrides the Entra ID authority, e.g. with the local stand-in (server/mock-oidc)
+    const authority = process.env.ENTRA_AUTHORITY?.replace(/\/+$/, "")
+      || (tenantId ? `https://login.microsoftonline.com/${tenantId}` : null);
+
+    if (authority && clientId && clientSecret) {
+      // The tenant is the last segment of the authority when only ENTRA_AUTHORITY is set
+      this.config = {
+        authority,
+        tenantId: tenantId || authority.split("/").pop()!,
+        clientId,
+        clientSecret,
+        redirectUri,
+      };
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.config !== null;
+  }
+
+  private getClient(): Promise<ConfidentialClientApplication> {
+    if (!this.config) {
+      throw new SsoError("Single sign-on not configured", 'failed');
+    }
+    if (!this.client) {
+      // A failed discovery is retried on the next login
+      this.client = this.createClient(this.config).catch(error => {
+        this.client = null;
+        throw error;
+      });
+    }
+    return this.client;
+  }
+
+  private async createClient(config: SsoConfig): Promise<ConfidentialClientApplication> {
+    const auth: Configuration["auth"] = {
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      authority: config.authority,
+    };
+
+    // MSAL only accepts https authorities. The local stand-in serves plain http, so its metadata is
+    // fetched here and handed to MSAL under an https alias; the endpoints in it keep their http URLs
+    if (config.authority.startsWith("http://")) {
+      const response = await fetch(`${config.authority}/v2.0/.well-known/openid-configuration`);
+      if (!response.ok) {
+        throw new Error(`OpenID discovery failed: HTTP ${response.status}`);
+      }
+      auth.authority = config.authority.replace(/^http:/, "https:");
+      auth.knownAuthorities = [new URL(config.authority).host];
+      auth.authorityMetadata = await response.text();
+    }
+
+    return new ConfidentialClientApplication({ auth });
+  }
+
+  // URL of the Entra ID sign-in page, and what the callback needs to check the answer
+  async beginLogin(): Promise<{ url: string; pending: PendingSsoLogin }> {
+    const client = await this.getClient();
+    const { verifier, challenge } = await this.cryptoProvider.generatePkceCodes();
+    const pending: PendingSsoLogin = {
+      state: this.cryptoProvider.createNewGuid(),
+      nonce: this.cryptoProvider.createNewGuid(),
+      codeVerifier: verifier,
+    };
+
+    const url = await client.getAuthCodeUrl({
+      scopes: SCOPES,
+      redirectUri: this.config!.redirectUri,
+      codeChallenge: challenge,
+      codeChallengeMethod: "S256",
+      state: pending.state,
+      nonce: pending.nonce,
+      prompt: "select_account",
+    });
+
+    return { url, pending };
+  }
+
+  // Redeems the authorization code of the callback; MSAL checks the state and the ID token nonce
+  async completeLogin(
+    params: { code?: string; state?: string; error?: string; error_description?: string },
+    pending: PendingSsoLogin | undefined,
+  ): Promise<SsoIdentity> {
+    if (params.error) {
+      console.warn(`[SSO] Sign-in returned ${params.error}: ${params.error_description || "no description"}`);
+      throw new SsoError(params.error_description || params.error, params.error === "access_denied" ? 'canceled' : 'failed');
+    }
+    if (!pending || !params.code) {
+      throw new SsoError("No sign-in in progress for this session", 'expired');
+    }
+
+    const client = await this.getClient();
+    const result = await client.acquireTokenByCode(
+      {
+        code: params.code,
+        scopes: SCOPES,
+        redirectUri: this.config!.redirectUri,
+        codeVerifier: pending.codeVerifier,
+        state: pending.state,
+      },
+      { code: params.code, state: params.state, nonce: pending.nonce },
+    );
+
+    // Only the identity is needed: drop the tokens MSAL cached for the account
+    if (result.account) {
+      await client.getTokenCache().removeAccount(result.account);
+    }
+
+    const claims = (result.idTokenClaims || {}) as Record<string, any>;
+    // Never the "email" claim: Entra ID does not verify it and users or tenants can set it freely
+    const username = String(claims.preferred_username || "").toLowerCase();
+    const subject = String(claims.oid || claims.sub || "");
+    if (!username || !subject) {
+      throw new SsoError("ID token without user identification", 'failed');
+    }
+    // Entra ID only sends "idp" for users signing in with an identity from elsewhere (guests, personal accounts)
+    const usernameVerified = claims.tid === this.config!.tenantId && !claims.idp;
+
+    // Over 200 groups Entra ID sends a link to Graph instead of the list ("group overage")
+    if (claims._claim_names?.groups) {
+      console.warn(`[SSO] Group overage for ${username}: emit only the groups assigned to the application`);
+    }
+    const groups: string[] = Array.isArray(claims.groups) ? claims.groups : [];
+
+    return {
+      subject,
+      username,
+      usernameVerified,
+      name: String(claims.name || username),
+      role: mapGroupsToRole(groups),
+    };
+  }
+}
+
+export const ssoService = new SsoService();
@@ -3,41 +3,102 @@ import {
   users, 
   emailSchedules, 
   sessionSnapshots, 
+  sessionMonthlyTotals,
+  capacitySnapshots,
+  workloadSizeSnapshots,
+  jobSessions,
   reportSchedules, 
   scheduleRecipients, 
   scheduleRuns,
+  collectionRuns,
+  vspcInstances,
+  companySettings,
+  jobRpoTargets,
+  veeamCache,
+  rolePolicies,
   type User, 
   type InsertUser, 
+  type UpdateUser, 
   type EmailSchedule, 
   type InsertEmailSchedule, 
   type SessionSnapshot, 
   type InsertSessionSnapshot,
+  type InsertSessionMonthlyTotals,
+  type CapacitySnapshot,
+  type InsertCapacitySnapshot,
+  type WorkloadSizeSnapshot,
+  type InsertWorkloadSizeSnapshot,
+  type JobSession,
+  type InsertJobSession,
   type ReportSchedule,
   type InsertReportSchedule,
   type ScheduleRecipient,
   type InsertScheduleRecipient,
   type ScheduleRun,
   type InsertScheduleRun,
+  type CollectionRun,
+  type InsertCollectionRun,
+  type VspcInstance,
+  type InsertVspcInstance,
+  type CompanySettings,
+  type InsertCompanySettings,
+  type JobRpoTarget,
+  type InsertJobRpoTarget,
+  type VeeamCacheEntry,
+  type InsertVeeamCacheEntry,
+  type RolePolicy,
+  type InsertRolePolicy,
 } from "@shared/schema";
+import type { MonthlySessionTotals } from "./backup-data-provider";
 import { db } from "./db";
-import { eq, and, gte, lte, desc } from "drizzle-orm";
+import { eq, and, gte, lte, lt, desc, sql, inArray } from "drizzle-orm";
 import bcrypt from "bcrypt";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserBySsoSubject(subject: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, data: UpdateUser): Promise<User>;
+  linkUserSso(id: string, subject: string): Promise<User>;
   updateUserPassword(userId: string, newPassword: string): Promise<void>;
+  updateUserTwoFactor(id: string, data: { totpSecret: string | null; totpRecoveryCodes: string[] }): Promise<User>;
+  claimTotpStep(id: string, step: number): Promise<boolean>;
+  consumeRecoveryCode(id: string, codeHash: string): Promise<boolean>;
   createEmailSchedule(schedule: InsertEmailSchedule): Promise<EmailSchedule>;
   getEmailSchedulesByUser(userId: string): Promise<EmailSchedule[]>;
   createSessionSnapshot(snapshot: InsertSessionSnapshot): Promise<SessionSnapshot>;
   getSessionSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<SessionSnapshot[]>;
   getSnapshotByDateAndCompany(companyId: string, date: Date): Promise<SessionSnapshot | undefined>;
-  upsertSessionSnapshot(snapshot: InsertSessionSnapshot): Promise<SessionSnapshot>;
+  upsertSessionSnapshot(snapshot: InsertSessionSnapshot): Promise<SessionSnapshot | undefined>;
+  getMonthlySessionTotals(companyId: string, startDate: Date, endDate: Date): Promise<MonthlySessionTotals[]>;
+  deleteSessionSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<void>;
+
+  // Capacity Snapshots
+  getCapacitySnapshot(companyId: string, date: Date): Promise<CapacitySnapshot | undefined>;
+  getCapacitySnapshots(companyId: string, startDate: Date, endDate: Date): Promise<CapacitySnapshot[]>;
+  insertCapacitySnapshot(snapshot: InsertCapacitySnapshot): Promise<void>;
+
+  // Workload Size Snapshots
+  hasWorkloadSizeSnapshots(companyId: string, date: Date): Promise<boolean>;
+  getWorkloadSizeSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<WorkloadSizeSnapshot[]>;
+  insertWorkloadSizeSnapshots(snapshots: InsertWorkloadSizeSnapshot[]): Promise<number>;
+  deleteWorkloadSizeSnapshotsBefore(companyId: string, cutoff: Date): Promise<number>;
+
+  // Snapshot Retention
+  getRetentionCompanyIds(): Promise<string[]>;
+  getSnapshotMonthsBefore(companyId: string, cutoffDay: Date): Promise<(InsertSessionMonthlyTotals & { snapshotIds: string[] })[]>;
+  countJobSessionsBefore(companyId: string, cutoffStart: Date): Promise<number>;
+  rollupSnapshotsBefore(companyId: string, cutoffDay: Date, cutoffStart: Date): Promise<{ snapshotRows: number; jobSessionRows: number }>;
+
+  // Job sessions
+  insertJobSessions(sessions: InsertJobSession[]): Promise<JobSession[]>;
+  getJobSessions(companyId: string, startDate: Date, endDate: Date): Promise<JobSession[]>;
   
   // Report Schedules CRUD
   createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule>;
-  getReportSchedules(userId: string): Promise<ReportSchedule[]>;
+  getReportSchedules(): Promise<ReportSchedule[]>;
   getReportScheduleById(id: string): Promise<ReportSchedule | undefined>;
   updateReportSchedule(id: string, data: Partial<InsertReportSchedule>): Promise<ReportSchedule>;
   deleteReportSchedule(id: string): Promise<void>;
@@ -52,6 +113,40 @@ export interface IStorage {
   createScheduleRun(run: InsertScheduleRun): Promise<ScheduleRun>;
   getScheduleRuns(scheduleId: string): Promise<ScheduleRun[]>;
   updateScheduleRun(id: string, data: Partial<InsertScheduleRun>): Promise<ScheduleRun>;
+
+  // Collection Runs
+  createCollectionRun(run: InsertCollectionRun): Promise<CollectionRun>;
+  updateCollectionRun(id: string, data: Partial<InsertCollectionRun>): Promise<CollectionRun>;
+  getLatestCollectionRuns(): Promise<CollectionRun[]>;
+  getLatestSuccessfulCollectionRuns(): Promise<CollectionRun[]>;
+
+  // VSPC Instances CRUD
+  getVspcInstances(): Promise<VspcInstance[]>;
+  getVspcInstanceById(id: string): Promise<VspcInstance | undefined>;
+  createVspcInstance(instance: InsertVspcInstance): Promise<VspcInstance>;
+  updateVspcInstance(id: string, data: Partial<InsertVspcInstance>): Promise<VspcInstance>;
+  deleteVspcInstance(id: string): Promise<void>;
+
+  // Company Settings
+  getCompanySettings(companyId: string): Promise<CompanySettings | undefined>;
+  getAllCompanySettings(): Promise<CompanySettings[]>;
+  upsertCompanySettings(settings: InsertCompanySettings): Promise<CompanySettings>;
+
+  // Job RPO Targets
+  getJobRpoTargets(companyId: string): Promise<JobRpoTarget[]>;
+  upsertJobRpoTarget(target: InsertJobRpoTarget): Promise<JobRpoTarget>;
+  deleteJobRpoTarget(companyId: string, jobUid: string): Promise<void>;
+
+  // Role Policies
+  getRolePolicies(): Promise<RolePolicy[]>;
+  upsertRolePolicy(policy: InsertRolePolicy): Promise<RolePolicy>;
+
+  // Veeam response cache
+  getCacheEntry(key: string): Promise<VeeamCacheEntry | undefined>;
+  // data is any JSON-serializable VeeamService response
+  upsertCacheEntry(entry: Omit<InsertVeeamCacheEntry, 'data'> & { data: unknown }): Promise<void>;
+  deleteCacheEntries(companyId: string): Promise<void>;
+  deleteAllCacheEntries(): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -65,6 +160,15 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserBySsoSubject(subject: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.ssoSubject, subject));
+    return user || undefined;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.name);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     // Hash password before storing
     const hashedPassword = await bcrypt.hash(insertUser.password, 10);
@@ -79,6 +183,24 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, data: UpdateUser): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async linkUserSso(id: string, subject: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ ssoSubject: subject })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   async updateUserPassword(userId: string, newPassword: string): Promise<void> {
     // Hash password before updating
     const hashedPassword = await bcrypt.hash(newPassword, 10);
@@ -89,6 +211,43 @@ export class DatabaseStorage implements IStorage {
       .where(eq(users.id, userId));
   }
 
+  // Enables (secret and recovery code hashes) or disables (null, []) two-factor authentication
+  async updateUserTwoFactor(id: string, data: { totpSecret: string | null; totpRecoveryCodes: string[] }): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Records the time step of an accepted code; false when it (or a later one) was already used,
+  // also when two requests race with the same code
+  async claimTotpStep(id: string, step: number): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(and(
+        eq(users.id, id),
+        sql`(${users.totpLastStep} IS NULL OR ${users.totpLastStep} < ${step})`
+      ))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  // Removes a recovery code (by hash); false when it is not among the unused ones
+  async consumeRecoveryCode(id: string, codeHash: string): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ totpRecoveryCodes: sql`${users.totpRecoveryCodes} - ${codeHash}::text` })
+      .where(and(
+        eq(users.id, id),
+        sql`${users.totpRecoveryCodes} ? ${codeHash}::text`
+      ))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
   async createEmailSchedule(schedule: InsertEmailSchedule): Promise<EmailSchedule> {
     const [result] = await db
       .insert(emailSchedules)
@@ -125,11 +284,224 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  // Daily snapshots summed per month in a single query; months already rolled up by the
+  // retention job are read from session_monthly_totals instead
+  async getMonthlySessionTotals(companyId: string, startDate: Date, endDate: Date): Promise<MonthlySessionTotals[]> {
+    const month = sql<string>`to_char(date_trunc('month', ${sessionSnapshots.date}), 'YYYY-MM')`;
+
+    const daily = await db
+      .select({
+        month,
+        successCount: sql<number>`sum(${sessionSnapshots.successCount})::int`,
+        warningCount: sql<number>`sum(${sessionSnapshots.warningCount})::int`,
+        failedCount: sql<number>`sum(${sessionSnapshots.failedCount})::int`,
+        totalCount: sql<number>`sum(${sessionSnapshots.totalCount})::int`,
+      })
+      .from(sessionSnapshots)
+      .where(
+        and(
+          eq(sessionSnapshots.companyId, companyId),
+          gte(sessionSnapshots.date, startDate),
+          lte(sessionSnapshots.date, endDate)
+        )
+      )
+      .groupBy(month)
+      .orderBy(month);
+
+    const rolledUp = await db
+      .select({
+        month: sessionMonthlyTotals.month,
+        successCount: sessionMonthlyTotals.successCount,
+        warningCount: sessionMonthlyTotals.warningCount,
+        failedCount: sessionMonthlyTotals.failedCount,
+        totalCount: sessionMonthlyTotals.totalCount,
+      })
+      .from(sessionMonthlyTotals)
+      .where(
+        and(
+          eq(sessionMonthlyTotals.companyId, companyId),
+          gte(sessionMonthlyTotals.month, startDate.toISOString().slice(0, 7)),
+          lte(sessionMonthlyTotals.month, endDate.toISOString().slice(0, 7))
+        )
+      );
+
+    const rolledUpMonths = new Set(rolledUp.map(m => m.month));
+    return [...rolledUp, ...daily.filter(m => !rolledUpMonths.has(m.month))]
+      .sort((a, b) => a.month.localeCompare(b.month));
+  }
+
+  async deleteSessionSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<void> {
+    await db
+      .delete(sessionSnapshots)
+      .where(
+        and(
+          eq(sessionSnapshots.companyId, companyId),
+          gte(sessionSnapshots.date, startDate),
+          lte(sessionSnapshots.date, endDate)
+        )
+      );
+  }
+
+  // Capacity Snapshots
+  async getCapacitySnapshot(companyId: string, date: Date): Promise<CapacitySnapshot | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(capacitySnapshots)
+      .where(and(eq(capacitySnapshots.companyId, companyId), eq(capacitySnapshots.date, date)));
+    return snapshot || undefined;
+  }
+
+  async getCapacitySnapshots(companyId: string, startDate: Date, endDate: Date): Promise<CapacitySnapshot[]> {
+    return await db
+      .select()
+      .from(capacitySnapshots)
+      .where(
+        and(
+          eq(capacitySnapshots.companyId, companyId),
+          gte(capacitySnapshots.date, startDate),
+          lte(capacitySnapshots.date, endDate)
+        )
+      )
+      .orderBy(capacitySnapshots.date);
+  }
+
+  // One row per company and day; a second capture of the same day is ignored
+  async insertCapacitySnapshot(snapshot: InsertCapacitySnapshot): Promise<void> {
+    await db
+      .insert(capacitySnapshots)
+      .values(snapshot)
+      .onConflictDoNothing({ target: [capacitySnapshots.companyId, capacitySnapshots.date] });
+  }
+
+  // Workload Size Snapshots
+  async hasWorkloadSizeSnapshots(companyId: string, date: Date): Promise<boolean> {
+    const [row] = await db
+      .select({ id: workloadSizeSnapshots.id })
+      .from(workloadSizeSnapshots)
+      .where(and(eq(workloadSizeSnapshots.companyId, companyId), eq(workloadSizeSnapshots.date, date)))
+      .limit(1);
+    return !!row;
+  }
+
+  async getWorkloadSizeSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<WorkloadSizeSnapshot[]> {
+    return await db
+      .select()
+      .from(workloadSizeSnapshots)
+      .where(
+        and(
+          eq(workloadSizeSnapshots.companyId, companyId),
+          gte(workloadSizeSnapshots.date, startDate),
+          lte(workloadSizeSnapshots.date, endDate)
+        )
+      )
+      .orderBy(workloadSizeSnapshots.date);
+  }
+
+  // One row per workload and day; returns how many rows were new
+  async insertWorkloadSizeSnapshots(snapshots: InsertWorkloadSizeSnapshot[]): Promise<number> {
+    if (snapshots.length === 0) {
+      return 0;
+    }
+
+    const inserted = await db
+      .insert(workloadSizeSnapshots)
+      .values(snapshots)
+      .onConflictDoNothing({
+        target: [workloadSizeSnapshots.companyId, workloadSizeSnapshots.workloadUid, workloadSizeSnapshots.date],
+      })
+      .returning({ id: workloadSizeSnapshots.id });
+    return inserted.length;
+  }
+
+  async deleteWorkloadSizeSnapshotsBefore(companyId: string, cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(workloadSizeSnapshots)
+      .where(and(eq(workloadSizeSnapshots.companyId, companyId), lt(workloadSizeSnapshots.date, cutoff)))
+      .returning({ id: workloadSizeSnapshots.id });
+    return deleted.length;
+  }
+
+  // Snapshot Retention
+  // Each company has its own cutoff (its timezone), so the retention job works company by company.
+  // cutoffDay is the cutoff as stored in session_snapshots.date, cutoffStart the first instant of that
+  // day in the company's timezone, compared with job_sessions.start_time.
+
+  // Companies with daily snapshots or job sessions
+  async getRetentionCompanyIds(): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ companyId: sessionSnapshots.companyId })
+      .from(sessionSnapshots)
+      .union(db.selectDistinct({ companyId: jobSessions.companyId }).from(jobSessions));
+    return rows.map(row => row.companyId);
+  }
+
+  // Daily rows of a company before the cutoff summed per month
+  async getSnapshotMonthsBefore(companyId: string, cutoffDay: Date): Promise<(InsertSessionMonthlyTotals & { snapshotIds: string[] })[]> {
+    const month = sql<string>`to_char(date_trunc('month', ${sessionSnapshots.date}), 'YYYY-MM')`;
+
+    return await db
+      .select({
+        companyId: sessionSnapshots.companyId,
+        companyName: sql<string>`max(${sessionSnapshots.companyName})`,
+        month,
+        successCount: sql<number>`sum(${sessionSnapshots.successCount})::int`,
+        warningCount: sql<number>`sum(${sessionSnapshots.warningCount})::int`,
+        failedCount: sql<number>`sum(${sessionSnapshots.failedCount})::int`,
+        totalCount: sql<number>`sum(${sessionSnapshots.totalCount})::int`,
+        dayCount: sql<number>`count(*)::int`,
+        snapshotIds: sql<string[]>`array_agg(${sessionSnapshots.id})`,
+      })
+      .from(sessionSnapshots)
+      .where(and(eq(sessionSnapshots.companyId, companyId), lt(sessionSnapshots.date, cutoffDay)))
+      .groupBy(sessionSnapshots.companyId, month)
+      .orderBy(month);
+  }
+
+  async countJobSessionsBefore(companyId: string, cutoffStart: Date): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(jobSessions)
+      .where(and(eq(jobSessions.companyId, companyId), lt(jobSessions.startTime, cutoffStart)));
+    return row?.count ?? 0;
+  }
+
+  // Adds the company's daily rows before the cutoff to session_monthly_totals and deletes them, together
+  // with the job sessions they were counted from, in one transaction. Only the rows that were summed are
+  // deleted. A month that is already in session_monthly_totals is final: daily rows still found for it
+  // (written after its roll-up) were never read and are deleted without being added a second time.
+  async rollupSnapshotsBefore(companyId: string, cutoffDay: Date, cutoffStart: Date): Promise<{ snapshotRows: number; jobSessionRows: number }> {
+    const months = await this.getSnapshotMonthsBefore(companyId, cutoffDay);
+
+    return await db.transaction(async (tx) => {
+      let snapshotRows = 0;
+      for (const { snapshotIds, ...totals } of months) {
+        await tx
+          .insert(sessionMonthlyTotals)
+          .values(totals)
+          .onConflictDoNothing({ target: [sessionMonthlyTotals.companyId, sessionMonthlyTotals.month] });
+
+        const deleted = await tx
+          .delete(sessionSnapshots)
+          .where(inArray(sessionSnapshots.id, snapshotIds))
+          .returning({ id: sessionSnapshots.id });
+        snapshotRows += deleted.length;
+      }
+
+      const deletedSessions = await tx
+        .delete(jobSessions)
+        .where(and(eq(jobSessions.companyId, companyId), lt(jobSessions.startTime, cutoffStart)))
+        .returning({ id: jobSessions.id });
+
+      return { snapshotRows, jobSessionRows: deletedSessions.length };
+    });
+  }
+
+  // Snapshot dates are calendar days stored as UTC midnight (see timezone.ts)
   async getSnapshotByDateAndCompany(companyId: string, date: Date): Promise<SessionSnapshot | undefined> {
     const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
+    startOfDay.setUTCHours(0, 0, 0, 0);
     const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    endOfDay.setUTCHours(23, 59, 59, 999);
 
     const [snapshot] = await db
       .select()
@@ -144,7 +516,22 @@ export class DatabaseStorage implements IStorage {
     return snapshot || undefined;
   }
 
-  async upsertSessionSnapshot(snapshot: InsertSessionSnapshot): Promise<SessionSnapshot> {
+  // undefined when the month of the snapshot was already rolled up by the retention job: a daily row
+  // for it would be ignored by reads and counted again by the next roll-up
+  async upsertSessionSnapshot(snapshot: InsertSessionSnapshot): Promise<SessionSnapshot | undefined> {
+    const [rolledUp] = await db
+      .select({ id: sessionMonthlyTotals.id })
+      .from(sessionMonthlyTotals)
+      .where(
+        and(
+          eq(sessionMonthlyTotals.companyId, snapshot.companyId),
+          eq(sessionMonthlyTotals.month, snapshot.date.toISOString().slice(0, 7))
+        )
+      );
+    if (rolledUp) {
+      return undefined;
+    }
+
     const existing = await this.getSnapshotByDateAndCompany(snapshot.companyId, snapshot.date);
     
     if (existing) {
@@ -164,6 +551,34 @@ export class DatabaseStorage implements IStorage {
     return this.createSessionSnapshot(snapshot);
   }
 
+  // Job sessions
+  // Sessions already stored (same sessionUid) are skipped; returns only the new rows
+  async insertJobSessions(sessions: InsertJobSession[]): Promise<JobSession[]> {
+    if (sessions.length === 0) {
+      return [];
+    }
+
+    return await db
+      .insert(jobSessions)
+      .values(sessions)
+      .onConflictDoNothing({ target: jobSessions.sessionUid })
+      .returning();
+  }
+
+  async getJobSessions(companyId: string, startDate: Date, endDate: Date): Promise<JobSession[]> {
+    return await db
+      .select()
+      .from(jobSessions)
+      .where(
+        and(
+          eq(jobSessions.companyId, companyId),
+          gte(jobSessions.startTime, startDate),
+          lte(jobSessions.startTime, endDate)
+        )
+      )
+      .orderBy(jobSessions.startTime);
+  }
+
   // Report Schedules CRUD
   async createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule> {
     const [result] = await db
@@ -173,11 +588,10 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getReportSchedules(userId: string): Promise<ReportSchedule[]> {
+  async getReportSchedules(): Promise<ReportSchedule[]> {
     return await db
       .select()
       .from(reportSchedules)
-      .where(eq(reportSchedules.userId, userId))
       .orderBy(desc(reportSchedules.createdAt));
   }
 
@@ -258,6 +672,176 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return updated;
   }
+
+  // Collection Runs
+  async createCollectionRun(run: InsertCollectionRun): Promise<CollectionRun> {
+    const [result] = await db
+      .insert(collectionRuns)
+      .values(run)
+      .returning();
+    return result;
+  }
+
+  async updateCollectionRun(id: string, data: Partial<InsertCollectionRun>): Promise<CollectionRun> {
+    const [updated] = await db
+      .update(collectionRuns)
+      .set(data)
+      .where(eq(collectionRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Most recent run of each company
+  async getLatestCollectionRuns(): Promise<CollectionRun[]> {
+    return await db
+      .selectDistinctOn([collectionRuns.companyId])
+      .from(collectionRuns)
+      .orderBy(collectionRuns.companyId, desc(collectionRuns.startedAt));
+  }
+
+  async getLatestSuccessfulCollectionRuns(): Promise<CollectionRun[]> {
+    return await db
+      .selectDistinctOn([collectionRuns.companyId])
+      .from(collectionRuns)
+      .where(eq(collectionRuns.status, "success"))
+      .orderBy(collectionRuns.companyId, desc(collectionRuns.startedAt));
+  }
+
+  // VSPC Instances CRUD
+  async getVspcInstances(): Promise<VspcInstance[]> {
+    return await db
+      .select()
+      .from(vspcInstances)
+      .orderBy(vspcInstances.name);
+  }
+
+  async getVspcInstanceById(id: string): Promise<VspcInstance | undefined> {
+    const [instance] = await db
+      .select()
+      .from(vspcInstances)
+      .where(eq(vspcInstances.id, id));
+    return instance || undefined;
+  }
+
+  async createVspcInstance(instance: InsertVspcInstance): Promise<VspcInstance> {
+    const [result] = await db
+      .insert(vspcInstances)
+      .values(instance)
+      .returning();
+    return result;
+  }
+
+  async updateVspcInstance(id: string, data: Partial<InsertVspcInstance>): Promise<VspcInstance> {
+    const [updated] = await db
+      .update(vspcInstances)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(vspcInstances.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteVspcInstance(id: string): Promise<void> {
+    await db.delete(vspcInstances).where(eq(vspcInstances.id, id));
+  }
+
+  // Company Settings
+  async getCompanySettings(companyId: string): Promise<CompanySettings | undefined> {
+    const [settings] = await db
+      .select()
+      .from(companySettings)
+      .where(eq(companySettings.companyId, companyId));
+    return settings || undefined;
+  }
+
+  async getAllCompanySettings(): Promise<CompanySettings[]> {
+    return await db.select().from(companySettings);
+  }
+
+  // Omitted fields keep their stored value
+  async upsertCompanySettings(settings: InsertCompanySettings): Promise<CompanySettings> {
+    const { companyId, ...values } = settings;
+    const [result] = await db
+      .insert(companySettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: companySettings.companyId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return result;
+  }
+
+  // Job RPO Targets
+  async getJobRpoTargets(companyId: string): Promise<JobRpoTarget[]> {
+    return await db
+      .select()
+      .from(jobRpoTargets)
+      .where(eq(jobRpoTargets.companyId, companyId))
+      .orderBy(jobRpoTargets.jobName);
+  }
+
+  async upsertJobRpoTarget(target: InsertJobRpoTarget): Promise<JobRpoTarget> {
+    const [result] = await db
+      .insert(jobRpoTargets)
+      .values(target)
+      .onConflictDoUpdate({
+        target: [jobRpoTargets.companyId, jobRpoTargets.jobUid],
+        set: { jobName: target.jobName, rpoHours: target.rpoHours, updatedAt: new Date() },
+      })
+      .returning();
+    return result;
+  }
+
+  async deleteJobRpoTarget(companyId: string, jobUid: string): Promise<void> {
+    await db
+      .delete(jobRpoTargets)
+      .where(and(eq(jobRpoTargets.companyId, companyId), eq(jobRpoTargets.jobUid, jobUid)));
+  }
+
+  // Role Policies
+  async getRolePolicies(): Promise<RolePolicy[]> {
+    return await db.select().from(rolePolicies);
+  }
+
+  async upsertRolePolicy(policy: InsertRolePolicy): Promise<RolePolicy> {
+    const { role, ...values } = policy;
+    const [result] = await db
+      .insert(rolePolicies)
+      .values(policy)
+      .onConflictDoUpdate({
+        target: rolePolicies.role,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return result;
+  }
+
+  // Veeam response cache
+  async getCacheEntry(key: string): Promise<VeeamCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(veeamCache)
+      .where(eq(veeamCache.key, key));
+    return entry || undefined;
+  }
+
+  async upsertCacheEntry(entry: Omit<InsertVeeamCacheEntry, 'data'> & { data: unknown }): Promise<void> {
+    await db
+      .insert(veeamCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: veeamCache.key,
+        set: { data: entry.data, fetchedAt: entry.fetchedAt },
+      });
+  }
+
+  async deleteCacheEntries(companyId: string): Promise<void> {
+    await db.delete(veeamCache).where(eq(veeamCache.companyId, companyId));
+  }
+
+  async deleteAllCacheEntries(): Promise<void> {
+    await db.delete(veeamCache);
+  }
 }
 
 export const storage = new DatabaseStorage();
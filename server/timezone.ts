@@ -0,0 +1,119 @@
+import { storage } from "./storage";
+
+// Calendar days and schedule times are evaluated in a timezone instead of the server's local time:
+// APP_TIMEZONE by default, overridden per company in company_settings.
+//
+// Session snapshots store a calendar day as UTC midnight of that day ("2025-03-14T00:00:00Z" is
+// March 14 in the company's timezone), so day keys never shift with the server timezone.
+
+const FALLBACK_TIMEZONE = "America/Sao_Paulo";
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function readAppTimezone(): string {
+  const configured = process.env.APP_TIMEZONE;
+  if (configured && !isValidTimezone(configured)) {
+    console.warn(`[Timezone] Invalid APP_TIMEZONE "${configured}", using ${FALLBACK_TIMEZONE}`);
+    return FALLBACK_TIMEZONE;
+  }
+  return configured || FALLBACK_TIMEZONE;
+}
+
+export const APP_TIMEZONE = readAppTimezone();
+
+// Timezone of a company's calendar and schedules
+export async function getCompanyTimezone(companyId: string): Promise<string> {
+  const settings = await storage.getCompanySettings(companyId);
+  return settings?.timezone || APP_TIMEZONE;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  dayOfWeek: number; // 0-6 (Sunday-Saturday)
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock date and time of an instant in a timezone
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = Object.fromEntries(getFormatter(timezone).formatToParts(date).map(p => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+// "YYYY-MM-DD" of the day an instant falls on in a timezone
+export function toDateKey(date: Date, timezone: string): string {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Calendar day as stored in session_snapshots.date
+export function dateKeyToDate(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+export function addDays(key: string, days: number): string {
+  const date = dateKeyToDate(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+// Milliseconds the timezone is ahead of UTC at an instant
+function getOffsetMs(date: Date, timezone: string): number {
+  const { year, month, day, hour, minute } = getZonedParts(date, timezone);
+  const second = date.getUTCSeconds();
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - (date.getTime() - date.getUTCMilliseconds());
+}
+
+// First instant of a calendar day in a timezone (DST-aware)
+export function startOfZonedDay(key: string, timezone: string): Date {
+  const midnightUtc = dateKeyToDate(key).getTime();
+  const guess = midnightUtc - getOffsetMs(new Date(midnightUtc), timezone);
+  return new Date(midnightUtc - getOffsetMs(new Date(guess), timezone));
+}
+
+// Instants bounding calendar days "from".."to" (inclusive) in a timezone
+export function zonedDayRange(from: string, to: string, timezone: string): { start: Date; end: Date } {
+  return {
+    start: startOfZonedDay(from, timezone),
+    end: new Date(startOfZonedDay(addDays(to, 1), timezone).getTime() - 1),
+  };
+}
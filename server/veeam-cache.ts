@@ -0,0 +1,183 @@
+import { storage } from "./storage";
+
+// Cache for VeeamService responses, keyed by resource and company.
+// Fresh entries are served directly; stale entries are served while a background
+// refresh runs (stale-while-revalidate); expired entries are loaded synchronously.
+
+export type CacheResource =
+  | 'companies'
+  | 'metrics'
+  | 'scorecard'
+  | 'alarms'
+  | 'failedJobs'
+  | 'repositories'
+  | 'restorePoints';
+
+interface CacheEntry<T> {
+  data: T;
+  fetchedAt: Date;
+}
+
+export interface CachedResult<T> {
+  data: T;
+  fetchedAt: Date;
+}
+
+// Default freshness per resource, in seconds (override with VEEAM_CACHE_TTL_<RESOURCE>)
+const DEFAULT_TTL_SECONDS: Record<CacheResource, number> = {
+  companies: 600,
+  metrics: 300,
+  scorecard: 300,
+  alarms: 120,
+  failedJobs: 300,
+  repositories: 900,
+  restorePoints: 300,
+};
+
+function readSeconds(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export class VeeamCache {
+  private entries: Map<string, CacheEntry<unknown>> = new Map();
+  private refreshing: Map<string, Promise<unknown>> = new Map();
+  // Last refresh failure per key, cleared by the next successful load
+  private errors: Map<string, string> = new Map();
+  private persist = process.env.VEEAM_CACHE_PERSIST === 'true';
+  // How long past its TTL an entry may still be served while it revalidates
+  private staleSeconds = readSeconds('VEEAM_CACHE_STALE_SECONDS', 3600);
+
+  private key(resource: CacheResource, companyId: string): string {
+    return `${resource}:${companyId}`;
+  }
+
+  private ttlMs(resource: CacheResource): number {
+    return readSeconds(`VEEAM_CACHE_TTL_${resource.toUpperCase()}`, DEFAULT_TTL_SECONDS[resource]) * 1000;
+  }
+
+  private async readEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (entry || !this.persist) {
+      return entry;
+    }
+
+    // Warm start: fall back to the copy persisted by a previous process
+    try {
+      const persisted = await storage.getCacheEntry(key);
+      if (persisted) {
+        const restored = { data: persisted.data as T, fetchedAt: persisted.fetchedAt };
+        this.entries.set(key, restored);
+        return restored;
+      }
+    } catch (error) {
+      console.error(`[VeeamCache] Error reading persisted entry ${key}:`, error);
+    }
+
+    return undefined;
+  }
+
+  private async load<T>(key: string, companyId: string, loader: () => Promise<T>): Promise<CacheEntry<T>> {
+    // Concurrent requests for the same key share one load
+    let pending = this.refreshing.get(key) as Promise<CacheEntry<T>> | undefined;
+    if (!pending) {
+      pending = loader()
+        .then((data) => {
+          const entry = { data, fetchedAt: new Date() };
+          this.entries.set(key, entry);
+          this.errors.delete(key);
+
+          if (this.persist) {
+            storage.upsertCacheEntry({ key, companyId, data, fetchedAt: entry.fetchedAt }).catch((error) => {
+              console.error(`[VeeamCache] Error persisting entry ${key}:`, error);
+            });
+          }
+
+          return entry;
+        })
+        .catch((error) => {
+          this.errors.set(key, error instanceof Error ? error.message : String(error));
+          throw error;
+        })
+        .finally(() => {
+          this.refreshing.delete(key);
+        });
+      this.refreshing.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  async get<T>(resource: CacheResource, companyId: string, loader: () => Promise<T>): Promise<CachedResult<T>> {
+    const key = this.key(resource, companyId);
+    const entry = await this.readEntry<T>(key);
+    const age = entry ? Date.now() - entry.fetchedAt.getTime() : Infinity;
+    const ttl = this.ttlMs(resource);
+
+    if (entry && age <= ttl) {
+      return entry;
+    }
+
+    if (entry && age <= ttl + this.staleSeconds * 1000) {
+      this.load(key, companyId, loader).catch((error) => {
+        console.error(`[VeeamCache] Background refresh of ${key} failed, serving stale data:`, error);
+      });
+      return entry;
+    }
+
+    try {
+      return await this.load(key, companyId, loader);
+    } catch (error) {
+      // Past the stale window but VSPC is failing: the old copy beats no data, and the error
+      // recorded by load() marks it as degraded
+      if (entry) {
+        console.error(`[VeeamCache] Refresh of ${key} failed, serving data from ${entry.fetchedAt.toISOString()}:`, error);
+        return entry;
+      }
+      throw error;
+    }
+  }
+
+  // Oldest fetch time among the cached resources of a company
+  getFetchedAt(companyId: string): Date | null {
+    let oldest: Date | null = null;
+    this.entries.forEach((entry, key) => {
+      if (key.endsWith(`:${companyId}`) && (!oldest || entry.fetchedAt < oldest)) {
+        oldest = entry.fetchedAt;
+      }
+    });
+    return oldest;
+  }
+
+  // Refresh failures currently affecting a company's data
+  getErrors(companyId: string): string[] {
+    const errors: string[] = [];
+    this.errors.forEach((message, key) => {
+      if (key.endsWith(`:${companyId}`)) {
+        errors.push(message);
+      }
+    });
+    return errors;
+  }
+
+  async invalidate(companyId: string): Promise<void> {
+    const keys = Array.from(this.entries.keys()).filter(key => key.endsWith(`:${companyId}`));
+    keys.forEach(key => this.entries.delete(key));
+    Array.from(this.errors.keys())
+      .filter(key => key.endsWith(`:${companyId}`))
+      .forEach(key => this.errors.delete(key));
+
+    if (this.persist) {
+      await storage.deleteCacheEntries(companyId);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.errors.clear();
+
+    if (this.persist) {
+      await storage.deleteAllCacheEntries();
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertJobSession, JobSession } from "@shared/schema";
+import { VeeamService } from "./veeam-service";
+import { storage } from "./storage";
+import { loadFixture, startMockVspc, type RunningMockVspc } from "./mock-vspc/app";
+
+const COMPANY_ID = "11111111-0000-4000-8000-000000000001";
+const OTHER_COMPANY_ID = "11111111-0000-4000-8000-000000000003";
+const JOBS_ENDPOINT = "/api/v3/infrastructure/backupServers/jobs";
+
+describe("VeeamService against the mock VSPC", () => {
+  let mock: RunningMockVspc;
+  let service: VeeamService;
+
+  beforeAll(async () => {
+    mock = await startMockVspc({ retryAfterSeconds: 0 });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    vi.stubEnv("VEEAM_API_URL", mock.url);
+    vi.stubEnv("VEEAM_API_KEY", mock.options.apiKey);
+    vi.stubEnv("VEEAM_DATA_MODE", "live");
+    vi.spyOn(storage, "getCompanySettings").mockResolvedValue(undefined);
+    vi.spyOn(storage, "getJobRpoTargets").mockResolvedValue([]);
+    vi.spyOn(storage, "getMonthlySessionTotals").mockResolvedValue([]);
+    service = new VeeamService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    mock.requests.length = 0;
+    mock.options.failNext = 0;
+  });
+
+  it("serves live companies with a healthy data status", async () => {
+    const companies = await service.getCompanies();
+
+    expect(companies).toHaveLength(loadFixture("companies").length);
+    expect(service.getDataStatus(COMPANY_ID)).toMatchObject({ mode: "live", degraded: false, errors: [] });
+  });
+
+  it("builds the dashboard metrics of a company", async () => {
+    const month = new Date().toISOString().slice(0, 7);
+    vi.mocked(storage.getMonthlySessionTotals).mockResolvedValue([
+      { month, successCount: 45, warningCount: 3, failedCount: 2, totalCount: 50 },
+    ]);
+
+    const metrics = await service.getDashboardMetrics(COMPANY_ID);
+
+    expect(metrics.totalBackups).toBe(loadFixture("jobs").filter(job => job.organizationUid === COMPANY_ID).length);
+    expect(metrics.protectedWorkloads.length).toBeGreaterThan(0);
+    expect(metrics.repositories.length).toBeGreaterThan(0);
+    expect(metrics.monthlySuccessRates).toEqual([{ month: expect.any(String), rate: 90 }]);
+  });
+
+  it("keeps serving the last data while VSPC fails and reports it as degraded", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const companies = await service.getCompanies();
+
+    // Past the companies TTL (and the client's shared download), inside the stale window
+    mock.options.failNext = 100;
+    vi.setSystemTime(Date.now() + 700 * 1000);
+
+    expect(await service.getCompanies()).toEqual(companies);
+    await vi.waitFor(() => expect(service.getDataStatus(COMPANY_ID).degraded).toBe(true));
+    expect(service.getDataStatus(COMPANY_ID).errors).toEqual([expect.stringContaining("503")]);
+
+    // VSPC is back: the next background refresh clears the error
+    mock.options.failNext = 0;
+    await service.getCompanies();
+    await vi.waitFor(() => expect(service.getDataStatus(COMPANY_ID).degraded).toBe(false));
+  });
+
+  it("fails instead of returning empty monthly stats when the history can't be read", async () => {
+    vi.mocked(storage.getMonthlySessionTotals).mockRejectedValue(new Error("connection refused"));
+    await expect(service.getMonthlyStats(COMPANY_ID)).rejects.toThrow("connection refused");
+  });
+
+  it("collects the last session of every job from one shared job download", async () => {
+    // Fixture jobs last ran on 2026-10-18; keeps them inside the retention period
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T12:00:00Z"));
+
+    const inserted: InsertJobSession[] = [];
+    vi.spyOn(storage, "insertJobSessions").mockImplementation(async sessions => {
+      inserted.push(...sessions);
+      return sessions.map((session, index) => ({ ...session, id: `session-${inserted.length + index}` }) as JobSession);
+    });
+    vi.spyOn(storage, "getJobSessions").mockResolvedValue([]);
+    const upsert = vi.spyOn(storage, "upsertSessionSnapshot").mockResolvedValue(undefined);
+
+    const first = await service.collectSessionSnapshot(COMPANY_ID);
+    const second = await service.collectSessionSnapshot(OTHER_COMPANY_ID);
+
+    expect(first.success).toBe(true);
+    expect(second.success).toBe(true);
+    expect(first.sessionCount).toBeGreaterThan(0);
+    expect(inserted.filter(session => session.companyId === COMPANY_ID)).toHaveLength(first.sessionCount);
+    expect(upsert).toHaveBeenCalled();
+    expect(mock.requests.filter(request => request.path === JOBS_ENDPOINT)).toHaveLength(1);
+  });
+});
@@ -1,769 +1,1041 @@
 import type {
   VeeamCompany,
-  VeeamBackupJob,
   VeeamRepository,
   BackupFailure,
   DashboardMetrics,
-  ProtectedWorkload,
   DataPlatformScorecard,
   SessionStatesData,
   DaySessionState,
   VeeamAlarm,
   FailedJob,
+  DataMode,
+  DataStatus,
+  InsertJobSession,
+  BackfillProgress,
+  MonthlyChartData,
+  MonthlyStatsValues,
+  JobSession,
+  CapacityTrend,
+  SizeAnomaly,
+  SizeAnomalyReport,
+  RpoCompliance,
+  RpoJob,
+  RpoWorkloadStatus,
+  ScorecardMetric,
 } from "@shared/schema";
 import { storage } from "./storage";
-
-interface VeeamConfig {
-  apiUrl: string;
-  apiKey: string;
+import { VeeamCache, type CacheResource } from "./veeam-cache";
+import type { BackupDataProvider, BackupJobRecord, RestorePointRecord, WorkloadRestorePointRecord } from "./backup-data-provider";
+import { VspcDataProvider } from "./vspc-data-provider";
+import { DemoDataProvider } from "./demo-data-provider";
+import { VspcNotFoundError } from "./vspc-errors";
+import { emailService } from "./email-service";
+import { fitCapacityModel, predictCapacity } from "./capacity-forecast";
+import { findSizeAnomalies, SIZE_ANOMALY_BASELINE_DAYS, SIZE_ANOMALY_RECIPIENTS } from "./size-anomaly-detector";
+import { getCompanyTimezone, toDateKey, dateKeyToDate, addDays, zonedDayRange, getZonedParts } from "./timezone";
+import { retentionService } from "./retention-service";
+
+// Job statuses that mean the last session finished with a result
+const SESSION_RESULTS = ['Success', 'Warning', 'Failed'];
+
+// Restore points of one job closer than this belong to the same backfilled session
+const BACKFILL_SESSION_GAP_MS = 60 * 60 * 1000;
+// Rows per INSERT when storing backfilled sessions
+const BACKFILL_INSERT_BATCH = 500;
+
+// Capacity history shown by default and forecast horizon, in days; the date the contracted
+// storage is exceeded is searched further ahead than the chart shows
+const CAPACITY_HISTORY_DAYS = 365;
+const CAPACITY_FORECAST_DAYS = 365;
+const CAPACITY_EXCEED_SEARCH_DAYS = 730;
+
+function readHours(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
 }
 
-interface PaginatedResponse<T> {
-  meta?: {
-    pagingInfo?: {
-      total: number;
-      count: number;
-      offset: number;
-    };
-  };
-  data: T[];
+// RPO target, in hours, of companies without their own
+export const RPO_DEFAULT_HOURS = readHours('RPO_DEFAULT_HOURS', 24);
+
+// Days of size anomalies listed by default; per-workload sizes are kept long enough for the longest
+// listing (90 days) plus its baseline, older rows are deleted at collection
+const SIZE_ANOMALY_DAYS = 30;
+const WORKLOAD_SIZE_RETENTION_DAYS = 90 + SIZE_ANOMALY_BASELINE_DAYS + 1;
+
+// startBackfill for a company whose backfill has not finished yet
+export class BackfillRunningError extends Error {
+  constructor(companyId: string) {
+    super(`A backfill is already running for company ${companyId}`);
+    this.name = 'BackfillRunningError';
+  }
 }
 
 export class VeeamService {
-  private config: VeeamConfig | null = null;
+  private vspc = new VspcDataProvider();
+  private demo = new DemoDataProvider();
+  private cache = new VeeamCache();
+  private instancesLoaded = false;
+  // Last backfill per company, kept in memory for progress polling
+  private backfills: Map<string, BackfillProgress> = new Map();
+
+  // Rebuild the VSPC connections from .env plus the active instances stored in the database
+  async loadInstances(): Promise<void> {
+    await this.vspc.loadInstances();
+
+    // On reload (not at startup), cached data may belong to instances that were removed or reconfigured
+    if (this.instancesLoaded) {
+      await this.cache.clear();
+    }
+    this.instancesLoaded = true;
 
-  constructor() {
-    const apiUrl = process.env.VEEAM_API_URL;
-    const apiKey = process.env.VEEAM_API_KEY;
+    console.log(`[VeeamService] Data mode: ${this.getDataMode()}`);
+  }
 
-    if (apiUrl && apiKey) {
-      this.config = { apiUrl, apiKey };
+  // Demo data only when asked for (VEEAM_DATA_MODE=demo) or when no VSPC is configured at all;
+  // in live mode failures are errors, never demo numbers
+  getDataMode(): DataMode {
+    const mode = process.env.VEEAM_DATA_MODE;
+    if (mode === 'demo' || mode === 'live') {
+      return mode;
     }
+    return this.vspc.hasInstances() ? 'live' : 'demo';
+  }
+
+  private isDemoMode(): boolean {
+    return this.getDataMode() === 'demo';
   }
 
-  private isConfigured(): boolean {
-    return this.config !== null;
+  private getProvider(): BackupDataProvider {
+    return this.isDemoMode() ? this.demo : this.vspc;
   }
 
-  private async fetchVeeamAPI<T>(endpoint: string): Promise<T> {
-    if (!this.config) {
-      throw new Error("Veeam API not configured");
+  // Key used for the company list, which isn't scoped to a single company
+  private static readonly ALL_COMPANIES = 'all';
+
+  private async cached<T>(resource: CacheResource, companyId: string, loader: () => Promise<T>): Promise<T> {
+    const result = await this.cache.get(resource, companyId, loader);
+    return result.data;
+  }
+
+  async getCompanies(): Promise<VeeamCompany[]> {
+    return this.cached('companies', VeeamService.ALL_COMPANIES, () => this.getProvider().getCompanies());
+  }
+
+  getDataStatus(companyId: string): DataStatus {
+    const mode = this.getDataMode();
+    if (mode === 'demo') {
+      return { mode, fetchedAt: null, degraded: false, errors: [] };
     }
 
-    const response = await fetch(`${this.config.apiUrl}${endpoint}`, {
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    });
+    const fetchedAt = this.cache.getFetchedAt(companyId);
+    const errors = [
+      ...this.cache.getErrors(companyId),
+      ...this.cache.getErrors(VeeamService.ALL_COMPANIES),
+      // Partial failures: the company list loaded, but some instance's part of it is the last known one
+      ...this.vspc.getInstanceErrors(companyId),
+    ];
+
+    return {
+      mode,
+      fetchedAt: fetchedAt ? fetchedAt.toISOString() : null,
+      degraded: errors.length > 0,
+      errors,
+    };
+  }
 
-    if (!response.ok) {
-      throw new Error(`Veeam API error: ${response.statusText}`);
+  // Drop everything cached for a company so the next requests hit VSPC again
+  async refreshCompany(companyId: string): Promise<void> {
+    await this.cache.invalidate(companyId);
+    await this.cache.invalidate(VeeamService.ALL_COMPANIES);
+    this.vspc.clearSharedFetches();
+  }
+
+  async getDashboardMetrics(companyId: string): Promise<DashboardMetrics> {
+    return this.cached('metrics', companyId, () => this.fetchDashboardMetrics(companyId));
+  }
+
+  private async fetchDashboardMetrics(companyId: string): Promise<DashboardMetrics> {
+    console.log(`[VeeamService] Fetching metrics for company: ${companyId}`);
+    const provider = this.getProvider();
+
+    const [protectedWorkloads, companyJobs, companies, repositories, monthlyStats] = await Promise.all([
+      provider.getProtectedWorkloads(companyId),
+      provider.getJobs(companyId),
+      this.getCompanies(),
+      this.getRepositories(companyId),
+      this.getMonthlyStats(companyId),
+    ]);
+    const companyName = companies.find(c => c.instanceUid === companyId)?.name || '';
+
+    // Success rate uses the same "ok" statuses as the scorecard job sessions
+    const okJobs = companyJobs.filter(job => this.isJobStatusOk(job.status)).length;
+    const successRate = companyJobs.length > 0
+      ? Math.round((okJobs / companyJobs.length) * 1000) / 10
+      : 100;
+
+    const activeJobs = companyJobs.filter(job => job.isEnabled !== false).length;
+    const storageUsedGB = protectedWorkloads.reduce((sum, w) => sum + w.sizeGB, 0);
+
+    let healthStatus: DashboardMetrics['healthStatus'];
+    if (successRate >= 90) {
+      healthStatus = 'healthy';
+    } else if (successRate >= 70) {
+      healthStatus = 'warning';
+    } else {
+      healthStatus = 'critical';
     }
 
-    return response.json();
+    // Last 6 months of the rolling window that have collected snapshots
+    const monthlySuccessRates = monthlyStats
+      .filter(m => m.totalCount > 0)
+      .slice(-6)
+      .map(m => ({ month: m.month, rate: m.successRate }));
+
+    const recentFailures = this.getRecentFailures(companyJobs, companyName);
+
+    console.log(`[VeeamService] Metrics - Jobs: ${companyJobs.length}, Active: ${activeJobs}, Success: ${successRate}%, Repositories: ${repositories.length}, Failures: ${recentFailures.length}`);
+
+    return {
+      totalBackups: companyJobs.length,
+      successRate,
+      activeJobs,
+      storageUsedGB,
+      healthStatus,
+      repositories,
+      monthlySuccessRates,
+      recentFailures,
+      protectedWorkloads,
+    };
   }
 
-  private async fetchAllPages<T>(endpoint: string, limit: number = 500): Promise<T[]> {
-    const allItems: T[] = [];
-    let offset = 0;
-    let total = 0;
+  private isJobStatusOk(status: string): boolean {
+    return status === 'Success' || status === 'Running' || status === 'Idle';
+  }
 
-    do {
-      const separator = endpoint.includes('?') ? '&' : '?';
-      const response = await this.fetchVeeamAPI<PaginatedResponse<T>>(
-        `${endpoint}${separator}limit=${limit}&offset=${offset}`
-      );
-      
-      const items = response.data || [];
-      allItems.push(...items);
-      
-      total = response.meta?.pagingInfo?.total || items.length;
-      offset += items.length;
-      
-      if (items.length === 0) break;
-    } while (offset < total);
+  async getRepositories(companyId: string): Promise<VeeamRepository[]> {
+    return this.cached('repositories', companyId, () => this.getProvider().getRepositories(companyId));
+  }
+
+  private getRecentFailures(companyJobs: BackupJobRecord[], companyName: string): BackupFailure[] {
+    const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+
+    return companyJobs
+      .filter(job => {
+        const lastRun = new Date(job.lastEndTime || job.lastRun || 0).getTime();
+        return job.status === 'Failed' && lastRun >= sevenDaysAgo;
+      })
+      .sort((a, b) =>
+        new Date(b.lastEndTime || b.lastRun || 0).getTime() - new Date(a.lastEndTime || a.lastRun || 0).getTime()
+      )
+      .map(job => {
+        const failedTasks = (job.lastSessionTasks || []).filter(
+          task => task.status === 'Failed' || task.failureMessage
+        );
 
-    return allItems;
+        return {
+          id: job.instanceUid || '',
+          // dd/MM/yyyy - the PDF groups failures by month from this format
+          date: new Date(job.lastEndTime || job.lastRun || 0).toLocaleDateString('pt-BR'),
+          clientName: companyName,
+          jobName: job.name || '',
+          errorMessage: job.failureMessage || failedTasks[0]?.failureMessage || 'Falha no job',
+          vmName: failedTasks.map(task => task.objectName).filter(Boolean).join(', ') || '-',
+        };
+      });
   }
 
-  async getCompanies(): Promise<VeeamCompany[]> {
-    if (!this.isConfigured()) {
-      return this.getDemoCompanies();
+  // Job and server metrics are cached; RPO compliance is recomputed from the cached restore points
+  // on every call, so a changed RPO target shows up immediately
+  async getDataPlatformScorecard(companyId: string): Promise<DataPlatformScorecard> {
+    const [{ jobSessions, platformHealth }, rpo] = await Promise.all([
+      this.cached('scorecard', companyId, () => this.fetchScorecardMetrics(companyId)),
+      this.getRpoCompliance(companyId),
+    ]);
+
+    const rpoCompliance: ScorecardMetric = {
+      percentage: rpo.percentage,
+      okCount: rpo.compliantCount,
+      issueCount: rpo.violationCount,
+      title: 'Conformidade de RPO',
+    };
+
+    // Calculate overall score (average of 3 metrics: Jobs + Health + RPO)
+    const overallScore = Math.round((jobSessions.percentage + platformHealth.percentage + rpoCompliance.percentage) / 3 * 10) / 10;
+
+    // Determine status
+    let status: 'Excelente' | 'Atenção' | 'Crítico';
+    let statusMessage: string;
+    
+    if (overallScore >= 90) {
+      status = 'Excelente';
+      statusMessage = 'O Score da Plataforma de Dados está acima de 90%.';
+    } else if (overallScore >= 70) {
+      status = 'Atenção';
+      statusMessage = 'O Score da Plataforma de Dados precisa de atenção.';
+    } else {
+      status = 'Crítico';
+      statusMessage = 'O Score da Plataforma de Dados está crítico.';
     }
 
-    try {
-      const response = await this.fetchVeeamAPI<PaginatedResponse<VeeamCompany>>('/api/v3/organizations/companies');
-      return response.data || [];
-    } catch (error) {
-      console.error('Error fetching companies from Veeam:', error);
-      return this.getDemoCompanies();
+    return { overallScore, status, statusMessage, jobSessions, platformHealth, rpoCompliance };
+  }
+
+  private async fetchScorecardMetrics(companyId: string): Promise<Pick<DataPlatformScorecard, 'jobSessions' | 'platformHealth'>> {
+    console.log(`[VeeamService] Fetching scorecard for company: ${companyId}`);
+    const provider = this.getProvider();
+
+    // Fetch jobs and backup servers
+    const [companyJobs, companyServers] = await Promise.all([
+      provider.getJobs(companyId),
+      provider.getBackupServers(companyId),
+    ]);
+
+    console.log(`[VeeamService] Company has ${companyJobs.length} jobs`);
+
+    // Calculate Job Sessions Overview
+    let jobsOk = 0;
+    let jobsIssue = 0;
+    
+    for (const job of companyJobs) {
+      if (this.isJobStatusOk(job.status)) {
+        jobsOk++;
+      } else {
+        jobsIssue++;
+      }
     }
+    
+    const jobsTotal = jobsOk + jobsIssue;
+    const jobsPercentage = jobsTotal > 0 ? Math.round((jobsOk / jobsTotal) * 100) : 100;
+
+    // Calculate Platform Health (backup servers status for this company)
+    let healthyServers = 0;
+    let unhealthyServers = 0;
+    
+    for (const server of companyServers) {
+      if (server.status === 'Healthy') {
+        healthyServers++;
+      } else {
+        unhealthyServers++;
+      }
+    }
+    
+    const healthTotal = healthyServers + unhealthyServers;
+    const healthPercentage = healthTotal > 0 ? Math.round((healthyServers / healthTotal) * 100) : 100;
+
+    console.log(`[VeeamService] Scorecard - Jobs: ${companyJobs.length}, Servers: ${companyServers.length}`);
+    console.log(`[VeeamService] Scorecard - Jobs: ${jobsPercentage}% (${jobsOk}/${jobsTotal}), Health: ${healthPercentage}% (${healthyServers}/${healthTotal})`);
+
+    return {
+      jobSessions: {
+        percentage: jobsPercentage,
+        okCount: jobsOk,
+        issueCount: jobsIssue,
+        title: 'Sessões de Jobs',
+      },
+      platformHealth: {
+        percentage: healthPercentage,
+        okCount: healthyServers,
+        issueCount: unhealthyServers,
+        title: 'Saúde da Plataforma',
+      },
+    };
   }
 
-  async getDashboardMetrics(companyId: string): Promise<DashboardMetrics> {
-    if (!this.isConfigured()) {
-      return this.getDemoMetrics(companyId);
+  // Workloads whose newest restore point is older than their RPO target: the job's target when
+  // it has one, otherwise the company's (company_settings.rpoHours or RPO_DEFAULT_HOURS)
+  async getRpoCompliance(companyId: string): Promise<RpoCompliance> {
+    const [records, settings, jobTargets] = await Promise.all([
+      this.cached('restorePoints', companyId, () => this.fetchWorkloadRestorePoints(companyId)),
+      storage.getCompanySettings(companyId),
+      storage.getJobRpoTargets(companyId),
+    ]);
+
+    const companyRpoHours = settings?.rpoHours ?? RPO_DEFAULT_HOURS;
+    const jobRpoHours = new Map(jobTargets.map(target => [target.jobUid, target.rpoHours]));
+    const restorePointTime = (record: WorkloadRestorePointRecord) =>
+      record.latestRestorePointDate ? new Date(record.latestRestorePointDate).getTime() : -Infinity;
+
+    // Newest restore point of each workload across its jobs
+    const newest = new Map<string, WorkloadRestorePointRecord & { jobName: string | null }>();
+    const jobs = new Map<string, RpoJob>();
+    for (const record of records) {
+      const current = newest.get(record.workloadUid);
+      if (!current || restorePointTime(record) > restorePointTime(current)) {
+        newest.set(record.workloadUid, record);
+      }
+
+      if (record.jobUid) {
+        const job = jobs.get(record.jobUid) || {
+          jobUid: record.jobUid,
+          jobName: record.jobName || record.jobUid,
+          rpoHours: jobRpoHours.get(record.jobUid) ?? null,
+          workloadCount: 0,
+        };
+        job.workloadCount++;
+        jobs.set(record.jobUid, job);
+      }
+    }
+    // Targets of jobs that no longer protect anything stay listed so they can be removed
+    for (const target of jobTargets) {
+      if (!jobs.has(target.jobUid)) {
+        jobs.set(target.jobUid, { jobUid: target.jobUid, jobName: target.jobName, rpoHours: target.rpoHours, workloadCount: 0 });
+      }
     }
 
-    try {
-      console.log(`[VeeamService] Fetching metrics for company: ${companyId}`);
-      
-      const protectedWorkloads = await this.getProtectedWorkloads(companyId);
+    const now = Date.now();
+    const workloads: RpoWorkloadStatus[] = Array.from(newest.values()).map(record => {
+      const jobTarget = record.jobUid ? jobRpoHours.get(record.jobUid) : undefined;
+      const rpoHours = jobTarget ?? companyRpoHours;
+      const time = restorePointTime(record);
+      const ageHours = Number.isFinite(time) ? Math.max((now - time) / (60 * 60 * 1000), 0) : null;
 
       return {
-        totalBackups: 0,
-        successRate: 0,
-        activeJobs: 0,
-        storageUsedGB: 0,
-        healthStatus: 'healthy',
-        repositories: [],
-        monthlySuccessRates: [],
-        recentFailures: [],
-        protectedWorkloads,
+        workloadUid: record.workloadUid,
+        workloadName: record.workloadName,
+        workloadType: record.workloadType,
+        jobUid: record.jobUid ?? null,
+        jobName: record.jobName,
+        latestRestorePointDate: record.latestRestorePointDate ?? null,
+        rpoHours,
+        rpoSource: jobTarget !== undefined ? 'job' : settings?.rpoHours != null ? 'company' : 'default',
+        ageHours,
+        compliant: ageHours !== null && ageHours <= rpoHours,
       };
-    } catch (error) {
-      console.error('Error fetching metrics from Veeam:', error);
-      return this.getDemoMetrics(companyId);
-    }
+    });
+
+    // Violations first, oldest first; workloads without any restore point lead
+    workloads.sort((a, b) => {
+      if (a.compliant !== b.compliant) return Number(a.compliant) - Number(b.compliant);
+      if (a.ageHours === b.ageHours) return 0;
+      if (a.ageHours === null) return -1;
+      if (b.ageHours === null) return 1;
+      return b.ageHours - a.ageHours;
+    });
+
+    const compliantCount = workloads.filter(w => w.compliant).length;
+    return {
+      rpoHours: companyRpoHours,
+      rpoSource: settings?.rpoHours != null ? 'company' : 'default',
+      percentage: workloads.length > 0 ? Math.round((compliantCount / workloads.length) * 100) : 100,
+      compliantCount,
+      violationCount: workloads.length - compliantCount,
+      workloads,
+      jobs: Array.from(jobs.values()).sort((a, b) => a.jobName.localeCompare(b.jobName)),
+      hasData: workloads.length > 0,
+    };
+  }
+
+  private async fetchWorkloadRestorePoints(companyId: string): Promise<(WorkloadRestorePointRecord & { jobName: string | null })[]> {
+    const provider = this.getProvider();
+    const [records, jobs] = await Promise.all([
+      provider.getWorkloadRestorePoints(companyId),
+      provider.getJobs(companyId),
+    ]);
+
+    const jobNames = new Map(jobs.map(job => [job.instanceUid, job.name]));
+    return records.map(record => ({ ...record, jobName: record.jobUid ? jobNames.get(record.jobUid) ?? null : null }));
   }
 
-  private async getProtectedWorkloads(companyId: string): Promise<ProtectedWorkload[]> {
-    if (!this.isConfigured()) {
-      return this.getDemoProtectedWorkloads();
+  // Records the last finished session of each job in job_sessions, then rebuilds the daily
+  // session_snapshots of the days that received new sessions. VSPC only exposes the last
+  // session per job, so collecting often enough (at least once per job schedule) keeps history complete.
+  async collectSessionSnapshot(companyId: string): Promise<{ success: boolean; message: string; sessionCount: number }> {
+    if (this.isDemoMode()) {
+      return { success: false, message: 'Demo data mode: snapshots are not collected', sessionCount: 0 };
     }
 
     try {
-      console.log(`[VeeamService] Fetching protected workloads for company: ${companyId}`);
-      
-      const [vms, vb365Objects, computers] = await Promise.all([
-        this.fetchAllPages<any>('/api/v3/protectedWorkloads/virtualMachines'),
-        this.fetchAllPages<any>('/api/v3/protectedWorkloads/vb365ProtectedObjects'),
-        this.fetchAllPages<any>('/api/v3/protectedWorkloads/computersManagedByBackupServer'),
-      ]);
-
-      console.log(`[VeeamService] Total fetched - VMs: ${vms.length}, VB365: ${vb365Objects.length}, Computers: ${computers.length}`);
-      
-      const companyVMs = vms.filter((vm: any) => vm.organizationUid === companyId);
-      const companyVB365 = vb365Objects.filter((obj: any) => obj.organizationUid === companyId);
-      const companyComputers = computers.filter((c: any) => c.organizationUid === companyId);
+      const companies = await this.getCompanies();
+      const company = companies.find(c => c.instanceUid === companyId);
       
-      console.log(`[VeeamService] Filtered - VMs: ${companyVMs.length}, VB365: ${companyVB365.length}, Computers: ${companyComputers.length}`);
-
-      // Fetch VM backups and sum totalRestorePointSize (all backup types)
-      let vmTotalSizeBytes = 0;
-      if (companyVMs.length > 0) {
-        console.log(`[VeeamService] Fetching backups for VMs...`);
-        
-        const allVMBackups = await this.fetchAllPages<any>(
-          '/api/v3/protectedWorkloads/virtualMachines/backups'
-        );
-        
-        console.log(`[VeeamService] Total VM backups fetched: ${allVMBackups.length}`);
-        
-        const companyVMUids = new Set(companyVMs.map((vm: any) => vm.instanceUid));
-        
-        // Filter backups for this company's VMs (all backup types - Backup + Copy)
-        const companyVMBackups = allVMBackups.filter(
-          (b: any) => companyVMUids.has(b.virtualMachineUid)
-        );
-        
-        console.log(`[VeeamService] Company VM backups: ${companyVMBackups.length}`);
-        
-        // Sum totalRestorePointSize for all backups
-        for (const backup of companyVMBackups) {
-          vmTotalSizeBytes += backup.totalRestorePointSize || 0;
-        }
-        
-        console.log(`[VeeamService] VMs total size: ${(vmTotalSizeBytes / (1024 ** 4)).toFixed(2)} TB`);
+      if (!company) {
+        return { success: false, message: 'Company not found', sessionCount: 0 };
       }
-      const vmTotalSizeTB = vmTotalSizeBytes / (1024 ** 4);
-
-      // Fetch backups for computers and sum totalRestorePointSize (jobKind=Backup only)
-      let computersTotalSizeBytes = 0;
-      if (companyComputers.length > 0) {
-        console.log(`[VeeamService] Fetching backups for computers...`);
-        
-        // Get all backups for computers
-        const allBackups = await this.fetchAllPages<any>(
-          '/api/v3/protectedWorkloads/computersManagedByBackupServer/backups'
-        );
-        
-        console.log(`[VeeamService] Total backups fetched: ${allBackups.length}`);
-        
-        // Get the computer instanceUids for this company
-        const companyComputerUids = new Set(companyComputers.map((c: any) => c.instanceUid));
-        
-        // Filter backups for this company's computers (jobKind=Backup only, not Copy)
-        const companyBackups = allBackups.filter(
-          (b: any) => companyComputerUids.has(b.backupAgentUid) && b.jobKind === 'Backup'
-        );
-        
-        console.log(`[VeeamService] Company backups (Backup only): ${companyBackups.length}`);
-        
-        // Sum totalRestorePointSize for all backups
-        for (const backup of companyBackups) {
-          computersTotalSizeBytes += backup.totalRestorePointSize || 0;
-        }
-        
-        console.log(`[VeeamService] Computers total size: ${(computersTotalSizeBytes / (1024 ** 4)).toFixed(2)} TB (from ${companyBackups.length} backups)`);
+
+      // One shared job download for all companies during collect-all
+      const companyJobs = await this.vspc.getJobsFromSharedList(companyId);
+
+      const timezone = await getCompanyTimezone(companyId);
+      // A job whose last run is older than the retention cutoff belongs to a month that is rolled up
+      const retainedFrom = this.getRetainedFrom(timezone);
+      const sessions = companyJobs
+        .map(job => this.toJobSession(job, companyId))
+        .filter((session): session is InsertJobSession =>
+          session !== null && (!retainedFrom || toDateKey(session.startTime, timezone) >= retainedFrom));
+
+      const inserted = await storage.insertJobSessions(sessions);
+
+      const touchedDays = new Set(inserted.map(session => toDateKey(session.startTime, timezone)));
+
+      for (const day of Array.from(touchedDays)) {
+        await this.rollupSessionDay(companyId, company.name, day, timezone);
       }
-      const computersTotalSizeTB = computersTotalSizeBytes / (1024 ** 4);
-
-      // VB365 API doesn't return size information
-      const vb365TotalSizeTB = 0;
-
-      console.log(`[VeeamService] Sizes - VMs: ${vmTotalSizeTB.toFixed(1)} TB, Computers: ${computersTotalSizeTB.toFixed(2)} TB, VB365: N/A`);
-
-      return [
-        {
-          name: 'Computers',
-          quantity: companyComputers.length,
-          sizeGB: computersTotalSizeTB * 1024,
-          color: '#00B4D8',
-        },
-        {
-          name: 'Virtual Machines',
-          quantity: companyVMs.length,
-          sizeGB: vmTotalSizeTB * 1024,
-          color: '#90E0EF',
-        },
-        {
-          name: 'Cloud Instances',
-          quantity: 0,
-          sizeGB: 0,
-          color: '#0077B6',
-        },
-        {
-          name: 'Microsoft 365 Objects',
-          quantity: companyVB365.length,
-          sizeGB: vb365TotalSizeTB * 1024,
-          color: '#C77DFF',
-        },
-      ];
+
+      console.log(`[VeeamService] Collected sessions for ${company.name}: ${inserted.length} new of ${sessions.length} finished, ${touchedDays.size} day(s) updated`);
+
+      return { success: true, message: `${inserted.length} new sessions collected for ${company.name}`, sessionCount: inserted.length };
     } catch (error) {
-      console.error('Error fetching protected workloads:', error);
-      return this.getDemoProtectedWorkloads();
+      console.error('Error collecting session snapshot:', error);
+      return { success: false, message: error instanceof Error ? error.message : String(error), sessionCount: 0 };
     }
   }
 
-  private getDemoProtectedWorkloads(): ProtectedWorkload[] {
-    return [
-      {
-        name: 'Computers',
-        quantity: 19,
-        sizeGB: 670 * 1024,
-        color: '#00B4D8',
-      },
-      {
-        name: 'Virtual Machines',
-        quantity: 655,
-        sizeGB: 2.8 * 1024 * 1024,
-        color: '#90E0EF',
-      },
-      {
-        name: 'Cloud Instances',
-        quantity: 12,
-        sizeGB: 946.5,
-        color: '#0077B6',
-      },
-      {
-        name: 'Microsoft 365 Objects',
-        quantity: 1544,
-        sizeGB: 22.9 * 1024 * 1024,
-        color: '#C77DFF',
-      },
-    ];
+  // First day (YYYY-MM-DD, company timezone) that may still get daily snapshots, or null without retention
+  private getRetainedFrom(timezone: string): string | null {
+    return retentionService.isEnabled() ? retentionService.getCutoff(timezone) : null;
   }
 
-  private getDemoCompanies(): VeeamCompany[] {
-    return [
-      {
-        instanceUid: 'demo-company-1',
-        name: 'Empresa Demonstração Alpha',
-        status: 'Active',
-        organizationType: 'Company',
-      },
-      {
-        instanceUid: 'demo-company-2',
-        name: 'Empresa Demonstração Beta',
-        status: 'Active',
-        organizationType: 'Company',
-      },
-      {
-        instanceUid: 'demo-company-3',
-        name: 'Empresa Demonstração Gamma',
-        status: 'Active',
-        organizationType: 'Company',
-      },
-    ];
-  }
+  // Last session of a job, or null while it runs / if it never finished with a result
+  private toJobSession(job: BackupJobRecord, companyId: string): InsertJobSession | null {
+    if (!job.lastRun || !job.lastEndTime || !SESSION_RESULTS.includes(job.status)) {
+      return null;
+    }
+
+    const startTime = new Date(job.lastRun);
+    const endTime = new Date(job.lastEndTime);
+    // A job that started again after its last end has no finished session yet
+    if (endTime < startTime) {
+      return null;
+    }
 
-  private getDemoMetrics(companyId: string): DashboardMetrics {
     return {
-      totalBackups: 0,
-      successRate: 0,
-      activeJobs: 0,
-      storageUsedGB: 0,
-      healthStatus: 'healthy',
-      repositories: [],
-      monthlySuccessRates: [],
-      recentFailures: [],
-      protectedWorkloads: this.getDemoProtectedWorkloads(),
+      sessionUid: `${job.instanceUid}:${startTime.toISOString()}`,
+      companyId,
+      jobUid: job.instanceUid,
+      jobName: job.name,
+      jobType: job.type,
+      result: job.status,
+      startTime,
+      endTime,
+      durationSeconds: job.lastDuration ?? Math.round((endTime.getTime() - startTime.getTime()) / 1000),
+      transferredBytes: job.transferredData ?? 0,
     };
   }
 
-  async getDataPlatformScorecard(companyId: string): Promise<DataPlatformScorecard> {
-    if (!this.isConfigured()) {
-      return this.getDemoScorecard();
+  // Recounts one calendar day (YYYY-MM-DD in the company's timezone) from its job sessions
+  private async rollupSessionDay(companyId: string, companyName: string, day: string, timezone: string): Promise<void> {
+    const { start, end } = zonedDayRange(day, day, timezone);
+    const sessions = await storage.getJobSessions(companyId, start, end);
+    await this.saveSessionDay(companyId, companyName, day, sessions);
+  }
+
+  private async saveSessionDay(companyId: string, companyName: string, day: string, sessions: JobSession[]): Promise<void> {
+    await storage.upsertSessionSnapshot({
+      date: dateKeyToDate(day),
+      companyId,
+      companyName,
+      successCount: sessions.filter(s => s.result === 'Success').length,
+      warningCount: sessions.filter(s => s.result === 'Warning').length,
+      failedCount: sessions.filter(s => s.result === 'Failed').length,
+      totalCount: sessions.length,
+    });
+  }
+
+  // Moves the stored sessions of a company to the days of its current timezone after it changed.
+  // Only days that hold job sessions are touched; returns the number of days rebuilt.
+  async rebuildSessionSnapshots(companyId: string, previousTimezone: string): Promise<number> {
+    if (this.isDemoMode()) {
+      return 0;
+    }
+
+    const companies = await this.getCompanies();
+    const companyName = companies.find(c => c.instanceUid === companyId)?.name || companyId;
+    const timezone = await getCompanyTimezone(companyId);
+
+    const sessions = await storage.getJobSessions(companyId, new Date(0), new Date());
+    const sessionsByDay = new Map<string, JobSession[]>();
+    const previousDays = new Set<string>();
+    for (const session of sessions) {
+      const day = toDateKey(session.startTime, timezone);
+      sessionsByDay.set(day, [...(sessionsByDay.get(day) || []), session]);
+      previousDays.add(toDateKey(session.startTime, previousTimezone));
+    }
+
+    for (const day of Array.from(previousDays)) {
+      if (!sessionsByDay.has(day)) {
+        await storage.deleteSessionSnapshots(companyId, dateKeyToDate(day), new Date(dateKeyToDate(addDays(day, 1)).getTime() - 1));
+      }
+    }
+    for (const [day, daySessions] of Array.from(sessionsByDay)) {
+      await this.saveSessionDay(companyId, companyName, day, daySessions);
+    }
+
+    console.log(`[VeeamService] Rebuilt ${sessionsByDay.size} session day(s) of ${companyName} for timezone ${timezone}`);
+    return sessionsByDay.size;
+  }
+
+  // Stores the protected-data sizes of a company once per day (the first collection of the day).
+  // Errors are logged only: a missing day just leaves a gap in the capacity history
+  async collectCapacitySnapshot(companyId: string, companyName: string): Promise<boolean> {
+    if (this.isDemoMode()) {
+      return false;
     }
 
     try {
-      console.log(`[VeeamService] Fetching scorecard for company: ${companyId}`);
+      const date = dateKeyToDate(toDateKey(new Date(), await getCompanyTimezone(companyId)));
+      if (await storage.getCapacitySnapshot(companyId, date)) {
+        return false;
+      }
 
-      // Fetch jobs and backup servers
-      const [jobs, backupServers] = await Promise.all([
-        this.fetchAllPages<any>('/api/v3/infrastructure/backupServers/jobs'),
-        this.fetchAllPages<any>('/api/v3/infrastructure/backupServers'),
+      // Straight from VSPC, not through the cache: a stale copy would be stored as today's point for good
+      const [protectedWorkloads, repositories] = await Promise.all([
+        this.vspc.getProtectedWorkloads(companyId),
+        this.vspc.getRepositories(companyId),
       ]);
-      
-      console.log(`[VeeamService] Fetched ${jobs.length} jobs total`);
+      const workloads = protectedWorkloads.map(({ name, quantity, sizeGB }) => ({ name, quantity, sizeGB }));
+      const totalSizeGB = workloads.reduce((sum, w) => sum + w.sizeGB, 0);
+
+      await storage.insertCapacitySnapshot({
+        date,
+        companyId,
+        companyName,
+        workloads,
+        totalSizeGB,
+        quotaGB: this.getQuotaGB(repositories),
+      });
 
-      // Filter by company
-      const companyJobs = jobs.filter((job: any) => job.organizationUid === companyId);
-      
-      console.log(`[VeeamService] Company has ${companyJobs.length} jobs`);
+      console.log(`[VeeamService] Capacity snapshot for ${companyName}: ${totalSizeGB.toFixed(1)} GB`);
+      return true;
+    } catch (error) {
+      console.error(`[VeeamService] Error collecting capacity snapshot for ${companyName}:`, error);
+      return false;
+    }
+  }
 
-      // Calculate Job Sessions Overview
-      let jobsOk = 0;
-      let jobsIssue = 0;
-      
-      for (const job of companyJobs) {
-        const status = job.status;
-        if (status === 'Success' || status === 'Running' || status === 'Idle') {
-          jobsOk++;
-        } else {
-          jobsIssue++;
-        }
+  // Cloud Connect quota of the company in GB; null when it has none or only unlimited ones
+  private getQuotaGB(repositories: VeeamRepository[]): number | null {
+    const quotas = repositories.filter(repo => repo.type === 'CloudConnect' && !repo.isUnlimited && repo.capacity > 0);
+    if (quotas.length === 0) {
+      return null;
+    }
+    return quotas.reduce((sum, repo) => sum + repo.capacity, 0) / (1024 ** 3);
+  }
+
+  // Daily protected-data history with a growth forecast and the day the contracted storage runs out
+  async getCapacityTrend(companyId: string, days: number = CAPACITY_HISTORY_DAYS): Promise<CapacityTrend> {
+    const today = toDateKey(new Date(), await getCompanyTimezone(companyId));
+    const start = addDays(today, -(days - 1));
+
+    const [snapshots, settings] = await Promise.all([
+      this.getProvider().getCapacitySnapshots(companyId, dateKeyToDate(start), dateKeyToDate(today)),
+      storage.getCompanySettings(companyId),
+    ]);
+
+    const history = snapshots.map(s => ({
+      date: new Date(s.date).toISOString().split('T')[0],
+      totalSizeGB: s.totalSizeGB,
+      workloads: s.workloads,
+    }));
+
+    const latestQuotaGB = [...snapshots].reverse().find(s => s.quotaGB !== null)?.quotaGB ?? null;
+    const contractedGB = settings?.contractedStorageGB ?? latestQuotaGB;
+    const contractedSource = settings?.contractedStorageGB != null ? 'settings' : latestQuotaGB !== null ? 'quota' : null;
+
+    const model = fitCapacityModel(history.map(point => ({ date: point.date, value: point.totalSizeGB })));
+    const last = history[history.length - 1];
+
+    const forecast: CapacityTrend['forecast'] = [];
+    if (model && last) {
+      for (let i = 7; i <= CAPACITY_FORECAST_DAYS; i += 7) {
+        const day = addDays(last.date, i);
+        forecast.push({ date: day, sizeGB: predictCapacity(model, day) });
       }
-      
-      const jobsTotal = jobsOk + jobsIssue;
-      const jobsPercentage = jobsTotal > 0 ? Math.round((jobsOk / jobsTotal) * 100) : 100;
+    }
 
-      // Calculate Platform Health (backup servers status for this company)
-      const companyServers = backupServers.filter((s: any) => s.organizationUid === companyId);
-      let healthyServers = 0;
-      let unhealthyServers = 0;
-      
-      for (const server of companyServers) {
-        if (server.status === 'Healthy') {
-          healthyServers++;
-        } else {
-          unhealthyServers++;
+    let exceedsOn: string | null = null;
+    if (contractedGB !== null && last) {
+      if (last.totalSizeGB >= contractedGB) {
+        exceedsOn = last.date;
+      } else if (model) {
+        for (let i = 1; i <= CAPACITY_EXCEED_SEARCH_DAYS; i++) {
+          const day = addDays(last.date, i);
+          if (predictCapacity(model, day) >= contractedGB) {
+            exceedsOn = day;
+            break;
+          }
         }
       }
-      
-      const healthTotal = healthyServers + unhealthyServers;
-      const healthPercentage = healthTotal > 0 ? Math.round((healthyServers / healthTotal) * 100) : 100;
+    }
+
+    return {
+      history,
+      forecast,
+      contractedGB,
+      contractedSource,
+      method: model?.method ?? null,
+      growthGBPerMonth: model ? model.slopePerDay * 30 : null,
+      exceedsOn,
+      hasData: history.length > 0,
+    };
+  }
 
-      // Calculate overall score (average of 2 metrics: Jobs + Health)
-      const overallScore = Math.round((jobsPercentage + healthPercentage) / 2 * 10) / 10;
+  // Stores today's backup size of every VM and computer of a company (once per day) and returns
+  // the workloads whose growth today is anomalous
+  async collectWorkloadSizes(companyId: string, companyName: string): Promise<SizeAnomaly[]> {
+    if (this.isDemoMode()) {
+      return [];
+    }
 
-      // Determine status
-      let status: 'Excelente' | 'Atenção' | 'Crítico';
-      let statusMessage: string;
-      
-      if (overallScore >= 90) {
-        status = 'Excelente';
-        statusMessage = 'O Score da Plataforma de Dados está acima de 90%.';
-      } else if (overallScore >= 70) {
-        status = 'Atenção';
-        statusMessage = 'O Score da Plataforma de Dados precisa de atenção.';
-      } else {
-        status = 'Crítico';
-        statusMessage = 'O Score da Plataforma de Dados está crítico.';
+    try {
+      const today = toDateKey(new Date(), await getCompanyTimezone(companyId));
+      const date = dateKeyToDate(today);
+      if (await storage.hasWorkloadSizeSnapshots(companyId, date)) {
+        return [];
       }
 
-      console.log(`[VeeamService] Scorecard - Jobs: ${companyJobs.length}, Servers: ${companyServers.length}`);
-      console.log(`[VeeamService] Scorecard - Jobs: ${jobsPercentage}% (${jobsOk}/${jobsTotal}), Health: ${healthPercentage}% (${healthyServers}/${healthTotal}), Overall: ${overallScore}%`);
+      const sizes = await this.vspc.getWorkloadSizes(companyId);
+      const inserted = await storage.insertWorkloadSizeSnapshots(sizes.map(size => ({ ...size, date, companyId })));
+      await storage.deleteWorkloadSizeSnapshotsBefore(companyId, dateKeyToDate(addDays(today, -WORKLOAD_SIZE_RETENTION_DAYS)));
 
-      return {
-        overallScore,
-        status,
-        statusMessage,
-        jobSessions: {
-          percentage: jobsPercentage,
-          okCount: jobsOk,
-          issueCount: jobsIssue,
-          title: 'Sessões de Jobs',
-        },
-        platformHealth: {
-          percentage: healthPercentage,
-          okCount: healthyServers,
-          issueCount: unhealthyServers,
-          title: 'Saúde da Plataforma',
-        },
-      };
+      const { anomalies } = await this.detectSizeAnomalies(companyId, today, today);
+      console.log(`[VeeamService] Workload sizes for ${companyName}: ${inserted} workload(s), ${anomalies.length} anomaly(ies)`);
+      return anomalies;
     } catch (error) {
-      console.error('Error fetching scorecard from Veeam:', error);
-      return this.getDemoScorecard();
+      console.error(`[VeeamService] Error collecting workload sizes for ${companyName}:`, error);
+      return [];
     }
   }
 
-  private getDemoScorecard(): DataPlatformScorecard {
+  // Workloads whose backup size grew anomalously in the last days, newest first
+  async getSizeAnomalies(companyId: string, days: number = SIZE_ANOMALY_DAYS): Promise<SizeAnomalyReport> {
+    const today = toDateKey(new Date(), await getCompanyTimezone(companyId));
+    const { anomalies, workloadCount } = await this.detectSizeAnomalies(companyId, addDays(today, -(days - 1)), today);
+
     return {
-      overallScore: 98.5,
-      status: 'Excelente',
-      statusMessage: 'O Score da Plataforma de Dados está acima de 90%.',
-      jobSessions: {
-        percentage: 97,
-        okCount: 58,
-        issueCount: 2,
-        title: 'Sessões de Jobs',
-      },
-      platformHealth: {
-        percentage: 100,
-        okCount: 2,
-        issueCount: 0,
-        title: 'Saúde da Plataforma',
-      },
+      anomalies,
+      days,
+      workloadCount,
+      notificationsEnabled: SIZE_ANOMALY_RECIPIENTS.length > 0 && emailService.isConfigured(),
+      hasData: workloadCount > 0,
     };
   }
 
-  async collectSessionSnapshot(companyId: string): Promise<{ success: boolean; message: string }> {
+  private async detectSizeAnomalies(companyId: string, since: string, today: string): Promise<{ anomalies: SizeAnomaly[]; workloadCount: number }> {
+    // The first day checked needs its own growth plus a full baseline before it
+    const start = addDays(since, -(SIZE_ANOMALY_BASELINE_DAYS + 1));
+    const snapshots = await this.getProvider().getWorkloadSizeSnapshots(companyId, dateKeyToDate(start), dateKeyToDate(today));
+
+    const workloads = new Map<string, typeof snapshots>();
+    for (const snapshot of snapshots) {
+      const history = workloads.get(snapshot.workloadUid) || [];
+      history.push(snapshot);
+      workloads.set(snapshot.workloadUid, history);
+    }
+
+    const anomalies: SizeAnomaly[] = [];
+    Array.from(workloads.values()).forEach(history => {
+      const { workloadUid, workloadName, workloadType } = history[history.length - 1];
+      const points = history.map(s => ({ date: new Date(s.date).toISOString().split('T')[0], sizeGB: s.sizeGB }));
+      for (const match of findSizeAnomalies(points, since)) {
+        anomalies.push({ ...match, workloadUid, workloadName, workloadType });
+      }
+    });
+
+    anomalies.sort((a, b) => b.date.localeCompare(a.date) || b.score - a.score);
+    return { anomalies, workloadCount: workloads.size };
+  }
+
+  getBackfillProgress(companyId: string): BackfillProgress | null {
+    return this.backfills.get(companyId) || null;
+  }
+
+  // Starts rebuilding past sessions of a company from VSPC restore points; progress via getBackfillProgress.
+  // Days (YYYY-MM-DD in the company's timezone) that already have collected sessions are left as they are.
+  async startBackfill(companyId: string, startDate: string, endDate: string): Promise<BackfillProgress> {
+    // Checked and claimed before the first await, so concurrent requests cannot both start one
+    const previous = this.backfills.get(companyId);
+    if (previous?.status === 'running') {
+      throw new BackfillRunningError(companyId);
+    }
+
+    const progress: BackfillProgress = {
+      companyId,
+      status: 'running',
+      startDate,
+      endDate,
+      totalJobs: 0,
+      processedJobs: 0,
+      sessionCount: 0,
+      daysFilled: 0,
+      error: null,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+    };
+    this.backfills.set(companyId, progress);
+
+    let company: VeeamCompany | undefined;
     try {
       const companies = await this.getCompanies();
-      const company = companies.find(c => c.instanceUid === companyId);
-      
+      company = companies.find(c => c.instanceUid === companyId);
       if (!company) {
-        return { success: false, message: 'Company not found' };
+        throw new VspcNotFoundError(`Company ${companyId} not found`);
       }
-
-      // Get current job statuses
-      const jobs = await this.fetchAllPages<any>('/api/v3/infrastructure/backupServers/jobs');
-      const companyJobs = jobs.filter((job: any) => job.organizationUid === companyId);
-
-      let successCount = 0;
-      let warningCount = 0;
-      let failedCount = 0;
-
-      for (const job of companyJobs) {
-        const status = job.status;
-        if (status === 'Success' || status === 'Running' || status === 'Idle') {
-          successCount++;
-        } else if (status === 'Warning') {
-          warningCount++;
-        } else {
-          failedCount++;
-        }
+    } catch (error) {
+      // Nothing was started: the progress endpoint goes back to the previous run
+      if (previous) {
+        this.backfills.set(companyId, previous);
+      } else {
+        this.backfills.delete(companyId);
       }
+      throw error;
+    }
 
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      await storage.upsertSessionSnapshot({
-        date: today,
-        companyId: companyId,
-        companyName: company.name,
-        successCount,
-        warningCount,
-        failedCount,
-        totalCount: companyJobs.length,
+    this.runBackfill(company, startDate, endDate, progress)
+      .then(() => {
+        progress.status = 'completed';
+        console.log(`[VeeamService] Backfill for ${company.name}: ${progress.sessionCount} sessions, ${progress.daysFilled} day(s) filled`);
+      })
+      .catch(error => {
+        progress.status = 'failed';
+        progress.error = error instanceof Error ? error.message : String(error);
+        console.error(`[VeeamService] Backfill for ${company.name} failed:`, error);
+      })
+      .finally(() => {
+        progress.finishedAt = new Date().toISOString();
       });
 
-      console.log(`[VeeamService] Collected snapshot for ${company.name}: ${successCount} success, ${warningCount} warning, ${failedCount} failed`);
+    return progress;
+  }
 
-      return { success: true, message: `Snapshot collected for ${company.name}` };
-    } catch (error) {
-      console.error('Error collecting session snapshot:', error);
-      return { success: false, message: String(error) };
+  private async runBackfill(company: VeeamCompany, startDate: string, endDate: string, progress: BackfillProgress): Promise<void> {
+    const companyId = company.instanceUid;
+    const timezone = await getCompanyTimezone(companyId);
+
+    // Months before the retention cutoff are rolled up; their totals are final
+    const retainedFrom = this.getRetainedFrom(timezone);
+    if (retainedFrom && startDate < retainedFrom) {
+      console.log(`[VeeamService] Backfill for ${company.name}: days before ${retainedFrom} are rolled up, starting there`);
+      startDate = retainedFrom;
+      progress.startDate = retainedFrom;
+      if (startDate > endDate) {
+        return;
+      }
     }
-  }
 
-  async getSessionStates(companyId: string): Promise<SessionStatesData> {
-    try {
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - 30);
+    const { start, end } = zonedDayRange(startDate, endDate, timezone);
+    const jobs = await this.vspc.getJobs(companyId);
+    progress.totalJobs = jobs.length;
+
+    const collectedDays = new Set(
+      (await storage.getJobSessions(companyId, start, end))
+        .filter(session => !session.sessionUid.includes(':rp:'))
+        .map(session => toDateKey(session.startTime, timezone))
+    );
+
+    const sessions: InsertJobSession[] = [];
+    for (const job of jobs) {
+      const points = (await this.vspc.getJobRestorePoints(companyId, job)).filter(point => {
+        const created = new Date(point.backupCreationTime);
+        return created >= start && created <= end && !collectedDays.has(toDateKey(created, timezone));
+      });
+      sessions.push(...this.restorePointsToSessions(job, companyId, points));
+      progress.processedJobs++;
+    }
 
-      const snapshots = await storage.getSessionSnapshots(companyId, startDate, endDate);
+    const touchedDays = new Set<string>();
+    for (let i = 0; i < sessions.length; i += BACKFILL_INSERT_BATCH) {
+      const inserted = await storage.insertJobSessions(sessions.slice(i, i + BACKFILL_INSERT_BATCH));
+      progress.sessionCount += inserted.length;
+      for (const session of inserted) {
+        touchedDays.add(toDateKey(session.startTime, timezone));
+      }
+    }
 
-      if (snapshots.length === 0) {
-        return {
-          days: [],
-          hasData: false,
-          message: 'Dados históricos estão sendo coletados. O calendário será preenchido automaticamente ao longo do tempo.',
-        };
+    for (const day of Array.from(touchedDays)) {
+      await this.rollupSessionDay(companyId, company.name, day, timezone);
+      progress.daysFilled++;
+    }
+  }
+
+  // A restore point only exists when a run succeeded (possibly with warnings), so failed runs can't be backfilled
+  private restorePointsToSessions(job: BackupJobRecord, companyId: string, points: RestorePointRecord[]): InsertJobSession[] {
+    const times = points
+      .map(point => ({ time: new Date(point.backupCreationTime), size: point.size ?? point.incrementRawDataSize ?? 0 }))
+      .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    const sessions: InsertJobSession[] = [];
+    let current: InsertJobSession | null = null;
+
+    for (const { time, size } of times) {
+      if (current && time.getTime() - current.endTime!.getTime() <= BACKFILL_SESSION_GAP_MS) {
+        current.endTime = time;
+        current.durationSeconds = Math.round((time.getTime() - current.startTime.getTime()) / 1000);
+        current.transferredBytes = (current.transferredBytes ?? 0) + size;
+        continue;
       }
 
-      const days: DaySessionState[] = [];
+      current = {
+        sessionUid: `${job.instanceUid}:rp:${time.toISOString()}`,
+        companyId,
+        jobUid: job.instanceUid,
+        jobName: job.name,
+        jobType: job.type,
+        result: 'Success',
+        startTime: time,
+        endTime: time,
+        durationSeconds: 0,
+        transferredBytes: size,
+      };
+      sessions.push(current);
+    }
 
-      // Generate all 30 days in chronological order (oldest first)
-      for (let i = 29; i >= 0; i--) {
-        const date = new Date();
-        date.setDate(date.getDate() - i);
-        date.setHours(0, 0, 0, 0);
+    return sessions;
+  }
 
-        const dateStr = date.toISOString().split('T')[0];
-        const snapshot = snapshots.find(s => {
-          const snapshotDate = new Date(s.date);
-          snapshotDate.setHours(0, 0, 0, 0);
-          return snapshotDate.toISOString().split('T')[0] === dateStr;
-        });
+  // One entry per day from startDate to endDate (YYYY-MM-DD in the company's timezone,
+  // default: the last 30 days), oldest first
+  async getSessionStates(companyId: string, startDate?: string, endDate?: string): Promise<SessionStatesData> {
+    const end = endDate || toDateKey(new Date(), await getCompanyTimezone(companyId));
+    const start = startDate || addDays(end, -29);
 
-        if (snapshot && snapshot.totalCount > 0) {
-          days.push({
-            date: dateStr,
-            successPercent: Math.round((snapshot.successCount / snapshot.totalCount) * 100),
-            warningPercent: Math.round((snapshot.warningCount / snapshot.totalCount) * 100),
-            failedPercent: Math.round((snapshot.failedCount / snapshot.totalCount) * 100),
-            successCount: snapshot.successCount,
-            warningCount: snapshot.warningCount,
-            failedCount: snapshot.failedCount,
-            totalCount: snapshot.totalCount,
-          });
-        } else {
-          // No data for this day - will show "Sem dados" in UI
-          days.push({
-            date: dateStr,
-            successPercent: 0,
-            warningPercent: 0,
-            failedPercent: 0,
-            successCount: 0,
-            warningCount: 0,
-            failedCount: 0,
-            totalCount: 0,
-          });
-        }
-      }
+    const snapshots = await this.getProvider().getSessionSnapshots(
+      companyId,
+      dateKeyToDate(start),
+      new Date(dateKeyToDate(addDays(end, 1)).getTime() - 1)
+    );
 
-      return {
-        days,
-        hasData: true,
-      };
-    } catch (error) {
-      console.error('Error getting session states:', error);
+    if (snapshots.length === 0) {
       return {
         days: [],
         hasData: false,
-        message: 'Erro ao carregar dados históricos.',
+        message: 'Dados históricos estão sendo coletados. O calendário será preenchido automaticamente ao longo do tempo.',
       };
     }
-  }
 
-  async getMonthlyStats(companyId: string): Promise<{ month: string; errors: number; warnings: number; successRate: number }[]> {
-    try {
-      const monthNames = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
-      const results: { month: string; errors: number; warnings: number; successRate: number }[] = [];
-      
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      
-      for (let monthIndex = 0; monthIndex < 12; monthIndex++) {
-        const startOfMonth = new Date(currentYear, monthIndex, 1);
-        const endOfMonth = new Date(currentYear, monthIndex + 1, 0, 23, 59, 59, 999);
-        
-        if (startOfMonth > now) {
-          results.push({
-            month: monthNames[monthIndex],
-            errors: 0,
-            warnings: 0,
-            successRate: 0,
-          });
-          continue;
-        }
-        
-        const snapshots = await storage.getSessionSnapshots(companyId, startOfMonth, endOfMonth);
-        
-        let totalErrors = 0;
-        let totalWarnings = 0;
-        let totalSuccess = 0;
-        let totalCount = 0;
-        
-        for (const snapshot of snapshots) {
-          totalErrors += snapshot.failedCount;
-          totalWarnings += snapshot.warningCount;
-          totalSuccess += snapshot.successCount;
-          totalCount += snapshot.totalCount;
-        }
-        
-        const successRate = totalCount > 0 ? Math.round((totalSuccess / totalCount) * 100) : 0;
-        
-        results.push({
-          month: monthNames[monthIndex],
-          errors: totalErrors,
-          warnings: totalWarnings,
-          successRate,
+    const snapshotsByDay = new Map(snapshots.map(s => [new Date(s.date).toISOString().split('T')[0], s]));
+
+    const days: DaySessionState[] = [];
+
+    for (let dateStr = start; dateStr <= end; dateStr = addDays(dateStr, 1)) {
+      const snapshot = snapshotsByDay.get(dateStr);
+
+      if (snapshot && snapshot.totalCount > 0) {
+        days.push({
+          date: dateStr,
+          successPercent: Math.round((snapshot.successCount / snapshot.totalCount) * 100),
+          warningPercent: Math.round((snapshot.warningCount / snapshot.totalCount) * 100),
+          failedPercent: Math.round((snapshot.failedCount / snapshot.totalCount) * 100),
+          successCount: snapshot.successCount,
+          warningCount: snapshot.warningCount,
+          failedCount: snapshot.failedCount,
+          totalCount: snapshot.totalCount,
+        });
+      } else {
+        // No data for this day - will show "Sem dados" in UI
+        days.push({
+          date: dateStr,
+          successPercent: 0,
+          warningPercent: 0,
+          failedPercent: 0,
+          successCount: 0,
+          warningCount: 0,
+          failedCount: 0,
+          totalCount: 0,
         });
       }
-      
-      return results;
-    } catch (error) {
-      console.error('Error getting monthly stats:', error);
-      return [];
     }
+
+    return {
+      days,
+      hasData: true,
+    };
   }
 
-  async getActiveAlarms(companyId: string): Promise<VeeamAlarm[]> {
-    if (!this.isConfigured()) {
-      return this.getDemoAlarms();
-    }
+  // Twelve months of job results: a calendar year, or the rolling window ending this month (default).
+  // Each month also carries the same month of the year before, all from one aggregate query.
+  async getMonthlyStats(companyId: string, year?: number): Promise<MonthlyChartData[]> {
+    const monthNames = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+    // Snapshot dates are calendar days at UTC midnight, so months are computed in UTC;
+    // only "this month" depends on the company's timezone
+    const now = getZonedParts(new Date(), await getCompanyTimezone(companyId));
+
+    const firstMonth = year !== undefined
+      ? new Date(Date.UTC(year, 0, 1))
+      : new Date(Date.UTC(now.year, now.month - 1 - 11, 1));
+    const endOfWindow = new Date(Date.UTC(firstMonth.getUTCFullYear() + 1, firstMonth.getUTCMonth(), 1) - 1);
+    const startOfPreviousWindow = new Date(Date.UTC(firstMonth.getUTCFullYear() - 1, firstMonth.getUTCMonth(), 1));
+
+    const totals = await this.getProvider().getMonthlySessionTotals(companyId, startOfPreviousWindow, endOfWindow);
+    const totalsByMonth = new Map(totals.map(t => [t.month, t]));
+
+    const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+    const toValues = (key: string): MonthlyStatsValues => {
+      const month = totalsByMonth.get(key);
+      if (!month || month.totalCount === 0) {
+        return { errors: 0, warnings: 0, successRate: 0, totalCount: 0 };
+      }
+      return {
+        errors: month.failedCount,
+        warnings: month.warningCount,
+        successRate: Math.round((month.successCount / month.totalCount) * 100),
+        totalCount: month.totalCount,
+      };
+    };
 
-    try {
-      console.log(`[VeeamService] Fetching active alarms for company: ${companyId}`);
-      
-      const alarms = await this.fetchAllPages<VeeamAlarm>('/api/v3/alarms/active');
-      
-      console.log(`[VeeamService] Total alarms fetched: ${alarms.length}`);
-      
-      const companyAlarms = alarms.filter(
-        (alarm) => alarm.object?.organizationUid === companyId
-      );
-      
-      console.log(`[VeeamService] Company alarms: ${companyAlarms.length}`);
-      
-      companyAlarms.sort((a, b) => {
-        const dateA = new Date(a.lastActivation?.time || 0);
-        const dateB = new Date(b.lastActivation?.time || 0);
-        return dateB.getTime() - dateA.getTime();
+    const results: MonthlyChartData[] = [];
+    for (let i = 0; i < 12; i++) {
+      const date = new Date(Date.UTC(firstMonth.getUTCFullYear(), firstMonth.getUTCMonth() + i, 1));
+      const previousDate = new Date(Date.UTC(date.getUTCFullYear() - 1, date.getUTCMonth(), 1));
+      const key = monthKey(date);
+      // The rolling window spans two years, so its labels carry the year
+      const label = year !== undefined
+        ? monthNames[date.getUTCMonth()]
+        : `${monthNames[date.getUTCMonth()]}/${String(date.getUTCFullYear()).slice(-2)}`;
+
+      results.push({
+        month: label,
+        monthKey: key,
+        ...toValues(key),
+        previous: toValues(monthKey(previousDate)),
       });
-      
-      return companyAlarms;
-    } catch (error) {
-      console.error('Error fetching active alarms:', error);
-      return this.getDemoAlarms();
-    }
-  }
-
-  private getDemoAlarms(): VeeamAlarm[] {
-    return [
-      {
-        instanceUid: 'demo-alarm-1',
-        alarmTemplateUid: 'demo-template-1',
-        repeatCount: 3,
-        object: {
-          instanceUid: 'demo-obj-1',
-          type: 'BackupServer',
-          organizationUid: 'demo-company-1',
-          locationUid: 'demo-loc-1',
-          computerName: 'SERVIDOR-BACKUP-01',
-          objectUid: 'demo-obj-uid-1',
-          objectName: 'Job Backup Diário',
-        },
-        lastActivation: {
-          time: new Date().toISOString(),
-          status: 'Warning',
-          message: 'Backup completed with warnings. Some VMs were skipped.',
-          remark: 'Check VM connectivity.',
-        },
-        area: 'vspc',
-      },
-      {
-        instanceUid: 'demo-alarm-2',
-        alarmTemplateUid: 'demo-template-2',
-        repeatCount: 1,
-        object: {
-          instanceUid: 'demo-obj-2',
-          type: 'BackupServer',
-          organizationUid: 'demo-company-1',
-          locationUid: 'demo-loc-1',
-          computerName: 'SERVIDOR-BACKUP-02',
-          objectUid: 'demo-obj-uid-2',
-          objectName: 'Job Replicação',
-        },
-        lastActivation: {
-          time: new Date(Date.now() - 86400000).toISOString(),
-          status: 'Resolved',
-          message: 'All metrics are back to normal.',
-          remark: 'The alarm has been automatically resolved.',
-        },
-        area: 'vspc',
-      },
-    ];
+    }
+
+    return results;
+  }
+
+  async getActiveAlarms(companyId: string): Promise<VeeamAlarm[]> {
+    return this.cached('alarms', companyId, () => this.getProvider().getActiveAlarms(companyId));
   }
 
   async getFailedJobs(companyId: string): Promise<FailedJob[]> {
-    if (!this.isConfigured()) {
-      return this.getDemoFailedJobs(companyId);
-    }
+    return this.cached('failedJobs', companyId, () => this.fetchFailedJobs(companyId));
+  }
 
-    try {
-      console.log(`[VeeamService] Fetching failed jobs for company: ${companyId}`);
-      
-      // Fetch jobs - each job already contains status, failureMessage, lastEndTime
-      const jobs = await this.fetchAllPages<any>('/api/v3/infrastructure/backupServers/jobs');
-      
-      console.log(`[VeeamService] Total jobs fetched: ${jobs.length}`);
-      
-      // Filter by company
-      const companyJobs = jobs.filter((job: any) => job.organizationUid === companyId);
-      
-      console.log(`[VeeamService] Company jobs: ${companyJobs.length}`);
-      
-      // Filter jobs with failed/warning status
-      const failedJobsList = companyJobs.filter((job: any) => {
-        const status = (job.status || '').toLowerCase();
-        return status === 'failed' || status === 'warning' || status === 'error';
-      });
-      
-      console.log(`[VeeamService] Jobs with issues: ${failedJobsList.length}`);
-      
-      // Sort by lastEndTime (most recent first)
-      failedJobsList.sort((a: any, b: any) => 
-        new Date(b.lastEndTime || 0).getTime() - new Date(a.lastEndTime || 0).getTime()
-      );
-      
-      // Map to FailedJob format
-      const failedJobs: FailedJob[] = failedJobsList.map((job: any) => ({
-        instanceUid: job.instanceUid || '',
-        name: job.name || '',
-        type: job.type || '',
-        status: job.status || '',
-        lastRun: job.lastEndTime || job.lastRun || '',
-        lastResult: job.status || '',
-        description: job.description || '',
-        lastSessionMessage: job.failureMessage || job.bottleneck || '',
-      }));
-      
-      console.log(`[VeeamService] Failed jobs returned: ${failedJobs.length}`);
-      
-      return failedJobs;
-    } catch (error) {
-      console.error('Error fetching failed jobs:', error);
-      return this.getDemoFailedJobs(companyId);
-    }
-  }
-
-  private getDemoFailedJobs(companyId: string): FailedJob[] {
-    if (companyId === 'demo-company-1') {
-      return [
-        {
-          instanceUid: 'demo-failed-1',
-          name: 'Backup Servidor Alpha',
-          type: 'VMBackup',
-          status: 'Failed',
-          lastRun: new Date(Date.now() - 3600000).toISOString(),
-          lastResult: 'Failed',
-          description: 'Created by ADMIN at 14/12/2022 07:10.',
-          lastSessionMessage: 'Failed to connect to storage. Error: Connection timeout after 30 seconds.',
-        },
-      ];
-    }
-    if (companyId === 'demo-company-2') {
-      return [
-        {
-          instanceUid: 'demo-failed-2',
-          name: 'Backup SQL Beta',
-          type: 'VMBackup',
-          status: 'Warning',
-          lastRun: new Date(Date.now() - 7200000).toISOString(),
-          lastResult: 'Warning',
-          description: 'Created by ADMIN at 29/08/2024 16:54.',
-          lastSessionMessage: 'Backup completed with warnings. 2 VMs were skipped due to CBT issues.',
-        },
-      ];
-    }
-    return [];
+  private async fetchFailedJobs(companyId: string): Promise<FailedJob[]> {
+    console.log(`[VeeamService] Fetching failed jobs for company: ${companyId}`);
+    // Each job already contains status, failureMessage, lastEndTime
+    const companyJobs = await this.getProvider().getJobs(companyId);
+
+    console.log(`[VeeamService] Company jobs: ${companyJobs.length}`);
+    
+    // Filter jobs with failed/warning status
+    const failedJobsList = companyJobs.filter(job => {
+      const status = (job.status || '').toLowerCase();
+      return status === 'failed' || status === 'warning' || status === 'error';
+    });
+    
+    console.log(`[VeeamService] Jobs with issues: ${failedJobsList.length}`);
+    
+    // Sort by lastEndTime (most recent first)
+    failedJobsList.sort((a, b) => 
+      new Date(b.lastEndTime || 0).getTime() - new Date(a.lastEndTime || 0).getTime()
+    );
+    
+    // Map to FailedJob format
+    const failedJobs: FailedJob[] = failedJobsList.map(job => ({
+      instanceUid: job.instanceUid || '',
+      name: job.name || '',
+      type: job.type || '',
+      status: job.status || '',
+      lastRun: job.lastEndTime || job.lastRun || '',
+      lastResult: job.status || '',
+      description: job.description || '',
+      lastSessionMessage: job.failureMessage || job.bottleneck || '',
+    }));
+    
+    console.log(`[VeeamService] Failed jobs returned: ${failedJobs.length}`);
+    
+    return failedJobs;
   }
 }
 
@@ -0,0 +1,167 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { VspcClient } from "./vspc-client";
+import { VspcAuthError, VspcNotFoundError, VspcUnreachableError } from "./vspc-errors";
+import { loadFixture, startMockVspc, type RunningMockVspc } from "./mock-vspc/app";
+
+const COMPANY_ID = "11111111-0000-4000-8000-000000000002";
+const VMS_ENDPOINT = "/api/v3/protectedWorkloads/virtualMachines";
+const JOBS_ENDPOINT = "/api/v3/infrastructure/backupServers/jobs";
+
+describe("VspcClient against the mock VSPC", () => {
+  let mock: RunningMockVspc;
+
+  const apiKeyClient = () => new VspcClient({ id: "test", name: "Test", apiUrl: mock.url, apiKey: mock.options.apiKey });
+  const passwordClient = () => new VspcClient({ id: "test", name: "Test", apiUrl: mock.url, username: "mock", password: "mock" });
+  const requestsTo = (path: string) => mock.requests.filter(request => request.path === path);
+
+  beforeAll(async () => {
+    // Retry-After: 0 keeps the fault injection tests fast; one test sets it back to 1s
+    mock = await startMockVspc({ maxPageSize: 25, retryAfterSeconds: 0 });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  afterEach(() => {
+    mock.requests.length = 0;
+    mock.options.failNext = 0;
+    mock.options.retryAfterSeconds = 0;
+    mock.options.tokenTtlSeconds = 3600;
+    vi.useRealTimers();
+  });
+
+  describe("paging", () => {
+    it("walks every page when VSPC caps the page size", async () => {
+      const vms = await apiKeyClient().fetchAllPages<{ instanceUid: string }>(VMS_ENDPOINT);
+
+      expect(vms).toHaveLength(loadFixture("virtualMachines").length);
+      expect(new Set(vms.map(vm => vm.instanceUid)).size).toBe(vms.length);
+      expect(requestsTo(VMS_ENDPOINT).map(request => request.query.offset)).toEqual(["0", "25", "50", "75", "100", "125"]);
+    });
+
+    it("downloads a shared list once for concurrent callers", async () => {
+      const client = apiKeyClient();
+      const [first, second] = await Promise.all([
+        client.fetchAllPagesShared(JOBS_ENDPOINT),
+        client.fetchAllPagesShared(JOBS_ENDPOINT),
+      ]);
+
+      expect(first).toBe(second);
+      expect(requestsTo(JOBS_ENDPOINT)).toHaveLength(1);
+    });
+  });
+
+  describe("filtering", () => {
+    it("sends an equals filter and gets only the company's rows", async () => {
+      const jobs = await apiKeyClient().fetchFiltered<{ organizationUid: string }>(JOBS_ENDPOINT, "organizationUid", COMPANY_ID);
+
+      const expected = loadFixture("jobs").filter(job => job.organizationUid === COMPANY_ID);
+      expect(jobs).toHaveLength(expected.length);
+      expect(jobs.every(job => job.organizationUid === COMPANY_ID)).toBe(true);
+      expect(JSON.parse(requestsTo(JOBS_ENDPOINT)[0].query.filter)).toEqual([
+        { property: "organizationUid", operation: "equals", value: COMPANY_ID },
+      ]);
+    });
+
+    it("pages through a filtered list", async () => {
+      const points = loadFixture("virtualMachineRestorePoints");
+      const jobUid = points[0].jobUid;
+      const expected = points.filter(point => point.jobUid === jobUid).length;
+      expect(expected).toBeGreaterThan(25);
+
+      const endpoint = "/api/v3/protectedWorkloads/virtualMachines/restorePoints";
+      const result = await apiKeyClient().fetchFiltered(endpoint, "jobUid", jobUid);
+
+      expect(result).toHaveLength(expected);
+      expect(requestsTo(endpoint)).toHaveLength(Math.ceil(expected / 25));
+    });
+  });
+
+  describe("authentication", () => {
+    it("logs in once for parallel requests and reuses the token", async () => {
+      const client = passwordClient();
+      await Promise.all([client.fetchAllPages(JOBS_ENDPOINT), client.fetchAllPages(VMS_ENDPOINT)]);
+      await client.fetchAllPages(JOBS_ENDPOINT);
+
+      const tokenRequests = requestsTo("/api/v3/token");
+      expect(tokenRequests).toHaveLength(1);
+      expect(tokenRequests[0].body?.grant_type).toBe("password");
+    });
+
+    it("refreshes the access token when it expires", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      const client = passwordClient();
+      await client.fetchAllPages(JOBS_ENDPOINT);
+
+      vi.setSystemTime(Date.now() + 3600 * 1000);
+      const jobs = await client.fetchAllPages(JOBS_ENDPOINT);
+
+      expect(jobs).toHaveLength(loadFixture("jobs").length);
+      expect(requestsTo("/api/v3/token").map(request => request.body?.grant_type)).toEqual(["password", "refresh_token"]);
+    });
+
+    it("keeps short-lived tokens until they are about to expire", async () => {
+      mock.options.tokenTtlSeconds = 30;
+      const client = passwordClient();
+      for (let i = 0; i < 3; i++) {
+        await client.fetchAllPages(JOBS_ENDPOINT);
+      }
+
+      expect(requestsTo("/api/v3/token")).toHaveLength(1);
+    });
+
+    it("gets a new token and retries once when VSPC rejects the current one", async () => {
+      const client = passwordClient();
+      await client.fetchAllPages(JOBS_ENDPOINT);
+      mock.revokeAccessTokens();
+
+      const jobs = await client.fetchAllPages(JOBS_ENDPOINT);
+
+      expect(jobs).toHaveLength(loadFixture("jobs").length);
+      expect(requestsTo(JOBS_ENDPOINT).map(request => request.status)).toEqual([200, 401, 200]);
+      expect(requestsTo("/api/v3/token")).toHaveLength(2);
+    });
+
+    it("fails with VspcAuthError on wrong credentials", async () => {
+      const client = new VspcClient({ id: "test", name: "Test", apiUrl: mock.url, username: "mock", password: "wrong" });
+      await expect(client.fetchAllPages(JOBS_ENDPOINT)).rejects.toBeInstanceOf(VspcAuthError);
+    });
+  });
+
+  describe("fault injection", () => {
+    it("retries 503 responses until VSPC answers", async () => {
+      mock.options.failNext = 2;
+      const jobs = await apiKeyClient().fetchAllPages(JOBS_ENDPOINT);
+
+      expect(jobs).toHaveLength(loadFixture("jobs").length);
+      expect(requestsTo(JOBS_ENDPOINT).map(request => request.status)).toEqual([503, 503, 200]);
+    });
+
+    it("waits for the Retry-After of a 503", async () => {
+      mock.options.failNext = 1;
+      mock.options.retryAfterSeconds = 1;
+
+      const startedAt = Date.now();
+      await apiKeyClient().fetchAllPages(JOBS_ENDPOINT);
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+    });
+
+    it("gives up with VspcUnreachableError after the last retry", async () => {
+      mock.options.failNext = 100;
+
+      const error = await apiKeyClient().fetchAllPages(JOBS_ENDPOINT).catch(err => err);
+
+      expect(error).toBeInstanceOf(VspcUnreachableError);
+      expect(error.status).toBe(503);
+      // First attempt plus VEEAM_MAX_RETRIES (default 3)
+      expect(requestsTo(JOBS_ENDPOINT)).toHaveLength(4);
+    });
+
+    it("does not retry endpoints VSPC does not have", async () => {
+      await expect(apiKeyClient().fetchAllPages("/api/v3/unknown")).rejects.toBeInstanceOf(VspcNotFoundError);
+      expect(requestsTo("/api/v3/unknown")).toHaveLength(1);
+    });
+  });
+});
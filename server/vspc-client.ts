@@ -0,0 +1,337 @@
+// HTTP client for a single Veeam Service Provider Console instance
+
+import {
+  VspcError,
+  VspcAuthError,
+  VspcNotFoundError,
+  VspcThrottledError,
+  VspcUnreachableError,
+} from "./vspc-errors";
+
+export interface VspcConnectionConfig {
+  id: string;
+  name: string;
+  apiUrl: string;
+  apiKey?: string | null;
+  username?: string | null;
+  password?: string | null;
+}
+
+export interface PaginatedResponse<T> {
+  meta?: {
+    pagingInfo?: {
+      total: number;
+      count: number;
+      offset: number;
+    };
+  };
+  data: T[];
+}
+
+export interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  token_type?: string;
+}
+
+// Refresh the access token this long before VSPC would expire it, but never more than this share
+// of the token's lifetime: short-lived tokens would otherwise count as expired on arrival
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+const TOKEN_EXPIRY_MARGIN_RATIO = 0.25;
+
+// How long a shared (unfiltered) list is reused across companies, e.g. during collect-all
+const SHARED_FETCH_TTL_MS = 60 * 1000;
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Per-request timeout, retries for 429/5xx/network errors and parallel requests per instance
+const REQUEST_TIMEOUT_MS = readNumber('VEEAM_REQUEST_TIMEOUT_MS', 30 * 1000);
+const MAX_RETRIES = readNumber('VEEAM_MAX_RETRIES', 3);
+const MAX_CONCURRENT_REQUESTS = Math.max(readNumber('VEEAM_MAX_CONCURRENT_REQUESTS', 4), 1);
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+function backoffDelay(attempt: number): number {
+  const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  // Jitter keeps parallel fetches from retrying in lockstep
+  return Math.min(delay + Math.random() * delay * 0.2, RETRY_MAX_DELAY_MS);
+}
+
+// Caps how many requests a client has in flight; the rest wait in FIFO order
+class ConcurrencyLimiter {
+  private active = 0;
+  private queue: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    }
+
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.queue.shift()?.();
+    }
+  }
+}
+
+interface SharedFetchEntry {
+  expiresAt: number;
+  promise: Promise<unknown[]>;
+}
+
+// VSPC filter query parameter: a JSON array of { property, operation, value } conditions
+export function equalsFilter(property: string, value: string): string {
+  return `filter=${encodeURIComponent(JSON.stringify([{ property, operation: 'equals', value }]))}`;
+}
+
+export class VspcClient {
+  private accessToken: string | null = null;
+  private refreshToken: string | null = null;
+  private tokenExpiresAt = 0;
+  private tokenRequest: Promise<string> | null = null;
+  private sharedFetches: Map<string, SharedFetchEntry> = new Map();
+  private limiter = new ConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+
+  constructor(private config: VspcConnectionConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  private usesTokenAuth(): boolean {
+    return !this.config.apiKey;
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<string> {
+    const response = await this.send('/api/v3/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+
+    if (!response.ok) {
+      const message = `Veeam token error (${this.config.name}): ${response.status} ${response.statusText}`;
+      if (response.status === 400 || response.status === 401 || response.status === 403) {
+        throw new VspcAuthError(message, response.status);
+      }
+      throw new VspcUnreachableError(message, response.status);
+    }
+
+    const token: TokenResponse = await response.json();
+    this.accessToken = token.access_token;
+    this.refreshToken = token.refresh_token || null;
+    const lifetimeMs = (token.expires_in || 3600) * 1000;
+    this.tokenExpiresAt = Date.now() + lifetimeMs - Math.min(TOKEN_EXPIRY_MARGIN_MS, lifetimeMs * TOKEN_EXPIRY_MARGIN_RATIO);
+
+    return token.access_token;
+  }
+
+  private async obtainToken(): Promise<string> {
+    if (this.refreshToken) {
+      try {
+        console.log(`[VspcClient:${this.config.name}] Refreshing access token`);
+        return await this.requestToken({
+          grant_type: 'refresh_token',
+          refresh_token: this.refreshToken,
+        });
+      } catch (error) {
+        console.warn(`[VspcClient:${this.config.name}] Token refresh failed, logging in again:`, error);
+        this.refreshToken = null;
+      }
+    }
+
+    console.log(`[VspcClient:${this.config.name}] Requesting access token for ${this.config.username}`);
+    return this.requestToken({
+      grant_type: 'password',
+      username: this.config.username || '',
+      password: this.config.password || '',
+    });
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    // Share one in-flight token request between the parallel fetches
+    if (!this.tokenRequest) {
+      this.tokenRequest = this.obtainToken().finally(() => {
+        this.tokenRequest = null;
+      });
+    }
+
+    return this.tokenRequest;
+  }
+
+  private async getAuthorizationHeader(): Promise<string> {
+    if (this.config.apiKey) {
+      return `Bearer ${this.config.apiKey}`;
+    }
+    return `Bearer ${await this.getAccessToken()}`;
+  }
+
+  // One HTTP request with timeout; network failures and timeouts become VspcUnreachableError
+  private async send(endpoint: string, init: RequestInit): Promise<Response> {
+    try {
+      return await fetch(`${this.config.apiUrl}${endpoint}`, {
+        ...init,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const reason = error instanceof Error && error.name === 'TimeoutError'
+        ? `timed out after ${REQUEST_TIMEOUT_MS} ms`
+        : String(error);
+      throw new VspcUnreachableError(`Veeam API unreachable (${this.config.name}) at ${endpoint}: ${reason}`);
+    }
+  }
+
+  private async fetchOnce<T>(endpoint: string, isRetry: boolean): Promise<T> {
+    const response = await this.limiter.run(async () =>
+      this.send(endpoint, {
+        headers: {
+          'Authorization': await this.getAuthorizationHeader(),
+          'Content-Type': 'application/json',
+        },
+      })
+    );
+
+    // Access token revoked or expired early: drop it and retry once with a fresh one
+    if (response.status === 401 && this.usesTokenAuth() && !isRetry) {
+      this.accessToken = null;
+      this.tokenExpiresAt = 0;
+      return this.fetchOnce<T>(endpoint, true);
+    }
+
+    if (response.ok) {
+      return response.json();
+    }
+
+    const message = `Veeam API error (${this.config.name}) at ${endpoint}: ${response.status} ${response.statusText}`;
+
+    if (response.status === 401 || response.status === 403) {
+      throw new VspcAuthError(message, response.status);
+    }
+    if (response.status === 404) {
+      throw new VspcNotFoundError(message);
+    }
+    // VSPC (and proxies in front of it) may send Retry-After with 429 and with 503
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    const retryAfterSeconds = retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : undefined;
+    if (response.status === 429) {
+      throw new VspcThrottledError(message, retryAfterSeconds);
+    }
+    if (RETRYABLE_STATUSES.has(response.status)) {
+      throw new VspcUnreachableError(message, response.status, retryAfterSeconds);
+    }
+    throw new VspcError(message, 'api', response.status);
+  }
+
+  async fetchVeeamAPI<T>(endpoint: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchOnce<T>(endpoint, false);
+      } catch (error) {
+        const retryable = error instanceof VspcThrottledError || error instanceof VspcUnreachableError;
+        if (!retryable || attempt >= MAX_RETRIES) {
+          throw error;
+        }
+
+        // The server's Retry-After wins over our own backoff
+        const delay = error.retryAfterSeconds !== undefined
+          ? Math.min(error.retryAfterSeconds * 1000, RETRY_MAX_DELAY_MS)
+          : backoffDelay(attempt);
+
+        console.warn(`[VspcClient:${this.config.name}] ${error.message}; retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)} ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  async fetchAllPages<T>(endpoint: string, limit: number = 500): Promise<T[]> {
+    const allItems: T[] = [];
+    let offset = 0;
+    let total = 0;
+
+    do {
+      const separator = endpoint.includes('?') ? '&' : '?';
+      const response = await this.fetchVeeamAPI<PaginatedResponse<T>>(
+        `${endpoint}${separator}limit=${limit}&offset=${offset}`
+      );
+
+      const items = response.data || [];
+      allItems.push(...items);
+
+      total = response.meta?.pagingInfo?.total || items.length;
+      offset += items.length;
+
+      if (items.length === 0) break;
+    } while (offset < total);
+
+    return allItems;
+  }
+
+  // Server-side filtered list, e.g. only one company's jobs
+  async fetchFiltered<T>(endpoint: string, property: string, value: string): Promise<T[]> {
+    const separator = endpoint.includes('?') ? '&' : '?';
+    return this.fetchAllPages<T>(`${endpoint}${separator}${equalsFilter(property, value)}`);
+  }
+
+  // Global lists that VSPC can't filter by company: download once and share between callers
+  async fetchAllPagesShared<T>(endpoint: string): Promise<T[]> {
+    const now = Date.now();
+    const cached = this.sharedFetches.get(endpoint);
+    if (cached && cached.expiresAt > now) {
+      return cached.promise as Promise<T[]>;
+    }
+
+    const promise = this.fetchAllPages<T>(endpoint);
+    this.sharedFetches.set(endpoint, { expiresAt: now + SHARED_FETCH_TTL_MS, promise });
+
+    // Failed downloads must not be served to the next caller
+    promise.catch(() => {
+      if (this.sharedFetches.get(endpoint)?.promise === promise) {
+        this.sharedFetches.delete(endpoint);
+      }
+    });
+
+    return promise;
+  }
+
+  clearSharedFetches(): void {
+    this.sharedFetches.clear();
+  }
+}
@@ -0,0 +1,108 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { VspcInstance } from "@shared/schema";
+import { VspcDataProvider } from "./vspc-data-provider";
+import { VspcNotFoundError } from "./vspc-errors";
+import { storage } from "./storage";
+import { loadFixture, startMockVspc, type RunningMockVspc } from "./mock-vspc/app";
+
+const COMPANY_ID = "11111111-0000-4000-8000-000000000001";
+
+function instance(id: string, name: string, apiUrl: string): VspcInstance {
+  return {
+    id,
+    name,
+    apiUrl,
+    apiKey: "mock-api-key",
+    username: null,
+    password: null,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("VspcDataProvider against the mock VSPC", () => {
+  let mock: RunningMockVspc;
+  let second: RunningMockVspc;
+
+  beforeAll(async () => {
+    mock = await startMockVspc({ retryAfterSeconds: 0 });
+    second = await startMockVspc({ retryAfterSeconds: 0 });
+    vi.stubEnv("VEEAM_API_URL", mock.url);
+    vi.stubEnv("VEEAM_API_KEY", mock.options.apiKey);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await Promise.all([mock.close(), second.close()]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    mock.options.failNext = 0;
+    second.options.failNext = 0;
+  });
+
+  it("lists the companies of the .env instance", async () => {
+    const companies = await new VspcDataProvider().getCompanies();
+
+    expect(companies.map(c => c.instanceUid)).toEqual(loadFixture("companies").map(c => c.instanceUid));
+    expect(companies.every(c => c.vspcInstanceId === "env")).toBe(true);
+  });
+
+  it("gets only the jobs of one company", async () => {
+    const jobs = await new VspcDataProvider().getJobs(COMPANY_ID);
+
+    expect(jobs).toHaveLength(loadFixture("jobs").filter(job => job.organizationUid === COMPANY_ID).length);
+    expect(jobs.every(job => job.organizationUid === COMPANY_ID)).toBe(true);
+  });
+
+  it("collects every restore point of a job across pages", async () => {
+    const provider = new VspcDataProvider();
+    const [job] = (await provider.getJobs(COMPANY_ID)).filter(j => !/agent|copy/i.test(j.type));
+    const expected = loadFixture("virtualMachineRestorePoints").filter(point => point.jobUid === job.instanceUid);
+
+    const points = await provider.getJobRestorePoints(COMPANY_ID, job);
+
+    expect(points).toHaveLength(expected.length);
+  });
+
+  it("groups the company's protected VMs and computers", async () => {
+    const workloads = await new VspcDataProvider().getProtectedWorkloads(COMPANY_ID);
+
+    const vms = loadFixture("virtualMachines").filter(vm => vm.organizationUid === COMPANY_ID);
+    const total = workloads.reduce((sum, workload) => sum + workload.quantity, 0);
+    expect(workloads.length).toBeGreaterThan(0);
+    expect(total).toBeGreaterThanOrEqual(vms.length);
+  });
+
+  it("rejects a company no instance knows", async () => {
+    await expect(new VspcDataProvider().getJobs("unknown-company")).rejects.toBeInstanceOf(VspcNotFoundError);
+  });
+
+  it("keeps the last companies of a failing instance and reports its error", async () => {
+    vi.spyOn(storage, "getVspcInstances").mockResolvedValue([instance("second", "Second", second.url)]);
+    const provider = new VspcDataProvider();
+    await provider.loadInstances();
+
+    const before = await provider.getCompanies();
+    expect(before.filter(c => c.vspcInstanceId === "second")).toHaveLength(3);
+    expect(provider.getInstanceErrors("unknown-company")).toEqual([]);
+
+    second.options.failNext = 100;
+    provider.clearSharedFetches();
+    const after = await provider.getCompanies();
+
+    expect(after).toHaveLength(before.length);
+    expect(provider.getInstanceErrors("unknown-company")).toEqual([expect.stringMatching(/^Second: .*503/)]);
+  });
+
+  it("throws the instance's error when every instance fails", async () => {
+    mock.options.failNext = 100;
+    const provider = new VspcDataProvider();
+
+    await expect(provider.getCompanies()).rejects.toMatchObject({ code: "unreachable", status: 503 });
+    // Reported once, through the thrown error, not a second time as a partial failure
+    expect(provider.getInstanceErrors(COMPANY_ID)).toEqual([]);
+  });
+});
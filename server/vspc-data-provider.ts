@@ -0,0 +1,509 @@
+import type {
+  VeeamCompany,
+  VeeamRepository,
+  ProtectedWorkload,
+  VeeamAlarm,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { VspcClient } from "./vspc-client";
+import { VspcNotFoundError } from "./vspc-errors";
+import type {
+  BackupDataProvider,
+  BackupJobRecord,
+  BackupServerRecord,
+  CapacitySnapshotRecord,
+  MonthlySessionTotals,
+  RestorePointRecord,
+  SessionSnapshotRecord,
+  WorkloadSizeRecord,
+  WorkloadRestorePointRecord,
+  WorkloadSizeSnapshotRecord,
+} from "./backup-data-provider";
+
+// Id of the connection configured through VEEAM_API_URL in .env
+const ENV_INSTANCE_ID = 'env';
+
+// Live data from the configured VSPC instances (.env plus the vspc_instances table)
+export class VspcDataProvider implements BackupDataProvider {
+  private clients: Map<string, VspcClient> = new Map();
+  // companyId (VSPC organization instanceUid) -> VSPC instance id
+  private companyInstances: Map<string, string> = new Map();
+  // Last company list each instance returned, served while that instance is failing
+  private lastCompanies: Map<string, VeeamCompany[]> = new Map();
+  // VSPC instance id -> why its last company list download failed; cleared by the next success
+  private instanceErrors: Map<string, string> = new Map();
+
+  constructor() {
+    const envClient = this.createEnvClient();
+    if (envClient) {
+      this.clients.set(envClient.id, envClient);
+    }
+  }
+
+  private createEnvClient(): VspcClient | null {
+    const apiUrl = process.env.VEEAM_API_URL;
+    const apiKey = process.env.VEEAM_API_KEY;
+    const username = process.env.VEEAM_USERNAME;
+    const password = process.env.VEEAM_PASSWORD;
+
+    if (!apiUrl || (!apiKey && !(username && password))) {
+      return null;
+    }
+
+    return new VspcClient({
+      id: ENV_INSTANCE_ID,
+      name: process.env.VEEAM_INSTANCE_NAME || 'VSPC',
+      apiUrl,
+      apiKey,
+      username,
+      password,
+    });
+  }
+
+  // Rebuild the connections from .env plus the active instances stored in the database
+  async loadInstances(): Promise<void> {
+    const clients = new Map<string, VspcClient>();
+
+    const envClient = this.createEnvClient();
+    if (envClient) {
+      clients.set(envClient.id, envClient);
+    }
+
+    const instances = await storage.getVspcInstances();
+    for (const instance of instances.filter(i => i.isActive)) {
+      clients.set(instance.id, new VspcClient(instance));
+    }
+
+    this.clients = clients;
+    this.companyInstances.clear();
+    this.lastCompanies.clear();
+    this.instanceErrors.clear();
+
+    console.log(`[VspcDataProvider] Loaded ${clients.size} VSPC instance(s): ${Array.from(clients.values()).map(c => c.name).join(', ') || 'none'}`);
+  }
+
+  hasInstances(): boolean {
+    return this.clients.size > 0;
+  }
+
+  // Drop the shared downloads so the next requests hit VSPC again
+  clearSharedFetches(): void {
+    this.clients.forEach(client => client.clearSharedFetches());
+  }
+
+  private async getClient(companyId: string): Promise<VspcClient> {
+    let instanceId = this.companyInstances.get(companyId);
+
+    if (!instanceId) {
+      // Unknown company: refresh the company -> instance map once
+      await this.getCompanies();
+      instanceId = this.companyInstances.get(companyId);
+    }
+
+    const client = instanceId ? this.clients.get(instanceId) : undefined;
+    if (!client) {
+      throw new VspcNotFoundError(`Company ${companyId} not found in any VSPC instance`);
+    }
+
+    return client;
+  }
+
+  async getCompanies(): Promise<VeeamCompany[]> {
+    const clients = Array.from(this.clients.values());
+    const results = await Promise.allSettled(
+      clients.map(client =>
+        client.fetchAllPagesShared<VeeamCompany>('/api/v3/organizations/companies')
+      )
+    );
+
+    const companies: VeeamCompany[] = [];
+    let failures = 0;
+
+    results.forEach((result, index) => {
+      const client = clients[index];
+      if (result.status === 'rejected') {
+        failures++;
+        const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        this.instanceErrors.set(client.id, `${client.name}: ${reason}`);
+        // One failing instance must not make its companies disappear: keep the last list it returned
+        const last = this.lastCompanies.get(client.id) || [];
+        console.error(`Error fetching companies from Veeam (${client.name}), keeping ${last.length} known companies:`, result.reason);
+        companies.push(...last);
+        return;
+      }
+
+      const instanceCompanies = result.value.map(company => ({
+        ...company,
+        vspcInstanceId: client.id,
+        vspcInstanceName: client.name,
+      }));
+      for (const company of instanceCompanies) {
+        this.companyInstances.set(company.instanceUid, client.id);
+      }
+      this.lastCompanies.set(client.id, instanceCompanies);
+      this.instanceErrors.delete(client.id);
+      companies.push(...instanceCompanies);
+    });
+
+    if (clients.length === 0) {
+      throw new Error('No VSPC instance configured (VEEAM_DATA_MODE=live)');
+    }
+
+    if (failures === clients.length) {
+      // Nothing was served from the last known lists: the thrown error is what the data status reports
+      this.instanceErrors.clear();
+      // Surface the typed error (auth, throttled, unreachable...) of the first instance
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    return companies;
+  }
+
+  // Company list failures of the instance serving a company, or of every instance when the company is unknown
+  getInstanceErrors(companyId: string): string[] {
+    const instanceId = this.companyInstances.get(companyId);
+    if (instanceId) {
+      const error = this.instanceErrors.get(instanceId);
+      return error ? [error] : [];
+    }
+    return Array.from(this.instanceErrors.values());
+  }
+
+  async getJobs(companyId: string): Promise<BackupJobRecord[]> {
+    const client = await this.getClient(companyId);
+    const jobs = await client.fetchFiltered<BackupJobRecord>('/api/v3/infrastructure/backupServers/jobs', 'organizationUid', companyId);
+
+    // VSPC already filtered by organizationUid; re-check locally in case a VSPC version ignores the filter
+    return jobs.filter(job => job.organizationUid === companyId);
+  }
+
+  // Same jobs from the unfiltered list, downloaded once and shared while collecting all companies
+  async getJobsFromSharedList(companyId: string): Promise<BackupJobRecord[]> {
+    const client = await this.getClient(companyId);
+    const jobs = await client.fetchAllPagesShared<BackupJobRecord>('/api/v3/infrastructure/backupServers/jobs');
+    return jobs.filter(job => job.organizationUid === companyId);
+  }
+
+  // Every restore point a job created, from the VM or agent restore point list depending on the job type
+  async getJobRestorePoints(companyId: string, job: BackupJobRecord): Promise<RestorePointRecord[]> {
+    const client = await this.getClient(companyId);
+    const endpoints = /agent/i.test(job.type)
+      ? ['/api/v3/protectedWorkloads/computersManagedByBackupServer/restorePoints']
+      : /copy/i.test(job.type)
+        ? ['/api/v3/protectedWorkloads/virtualMachines/restorePoints', '/api/v3/protectedWorkloads/computersManagedByBackupServer/restorePoints']
+        : ['/api/v3/protectedWorkloads/virtualMachines/restorePoints'];
+
+    const lists = await Promise.all(
+      endpoints.map(endpoint => client.fetchFiltered<RestorePointRecord>(endpoint, 'jobUid', job.instanceUid))
+    );
+    return lists.flat().filter(point => point.jobUid === job.instanceUid);
+  }
+
+  async getBackupServers(companyId: string): Promise<BackupServerRecord[]> {
+    const client = await this.getClient(companyId);
+    const servers = await client.fetchFiltered<BackupServerRecord>('/api/v3/infrastructure/backupServers', 'organizationUid', companyId);
+    return servers.filter(server => server.organizationUid === companyId);
+  }
+
+  async getProtectedWorkloads(companyId: string): Promise<ProtectedWorkload[]> {
+    try {
+      console.log(`[VspcDataProvider] Fetching protected workloads for company: ${companyId}`);
+      const client = await this.getClient(companyId);
+      
+      const [vms, vb365Objects, computers] = await Promise.all([
+        client.fetchFiltered<any>('/api/v3/protectedWorkloads/virtualMachines', 'organizationUid', companyId),
+        client.fetchFiltered<any>('/api/v3/protectedWorkloads/vb365ProtectedObjects', 'organizationUid', companyId),
+        client.fetchFiltered<any>('/api/v3/protectedWorkloads/computersManagedByBackupServer', 'organizationUid', companyId),
+      ]);
+
+      console.log(`[VspcDataProvider] Total fetched - VMs: ${vms.length}, VB365: ${vb365Objects.length}, Computers: ${computers.length}`);
+      
+      // VSPC already filtered by organizationUid; re-check locally in case a VSPC version ignores the filter
+      const companyVMs = vms.filter((vm: any) => vm.organizationUid === companyId);
+      const companyVB365 = vb365Objects.filter((obj: any) => obj.organizationUid === companyId);
+      const companyComputers = computers.filter((c: any) => c.organizationUid === companyId);
+      
+      console.log(`[VspcDataProvider] Filtered - VMs: ${companyVMs.length}, VB365: ${companyVB365.length}, Computers: ${companyComputers.length}`);
+
+      // Fetch VM backups and sum totalRestorePointSize (all backup types)
+      let vmTotalSizeBytes = 0;
+      if (companyVMs.length > 0) {
+        console.log(`[VspcDataProvider] Fetching backups for VMs...`);
+        
+        // Backups have no organizationUid: share the global list between companies
+        const allVMBackups = await client.fetchAllPagesShared<any>(
+          '/api/v3/protectedWorkloads/virtualMachines/backups'
+        );
+        
+        console.log(`[VspcDataProvider] Total VM backups fetched: ${allVMBackups.length}`);
+        
+        const companyVMUids = new Set(companyVMs.map((vm: any) => vm.instanceUid));
+        
+        // Filter backups for this company's VMs (all backup types - Backup + Copy)
+        const companyVMBackups = allVMBackups.filter(
+          (b: any) => companyVMUids.has(b.virtualMachineUid)
+        );
+        
+        console.log(`[VspcDataProvider] Company VM backups: ${companyVMBackups.length}`);
+        
+        // Sum totalRestorePointSize for all backups
+        for (const backup of companyVMBackups) {
+          vmTotalSizeBytes += backup.totalRestorePointSize || 0;
+        }
+        
+        console.log(`[VspcDataProvider] VMs total size: ${(vmTotalSizeBytes / (1024 ** 4)).toFixed(2)} TB`);
+      }
+      const vmTotalSizeTB = vmTotalSizeBytes / (1024 ** 4);
+
+      // Fetch backups for computers and sum totalRestorePointSize (jobKind=Backup only)
+      let computersTotalSizeBytes = 0;
+      if (companyComputers.length > 0) {
+        console.log(`[VspcDataProvider] Fetching backups for computers...`);
+        
+        // Get all backups for computers
+        const allBackups = await client.fetchAllPagesShared<any>(
+          '/api/v3/protectedWorkloads/computersManagedByBackupServer/backups'
+        );
+        
+        console.log(`[VspcDataProvider] Total backups fetched: ${allBackups.length}`);
+        
+        // Get the computer instanceUids for this company
+        const companyComputerUids = new Set(companyComputers.map((c: any) => c.instanceUid));
+        
+        // Filter backups for this company's computers (jobKind=Backup only, not Copy)
+        const companyBackups = allBackups.filter(
+          (b: any) => companyComputerUids.has(b.backupAgentUid) && b.jobKind === 'Backup'
+        );
+        
+        console.log(`[VspcDataProvider] Company backups (Backup only): ${companyBackups.length}`);
+        
+        // Sum totalRestorePointSize for all backups
+        for (const backup of companyBackups) {
+          computersTotalSizeBytes += backup.totalRestorePointSize || 0;
+        }
+        
+        console.log(`[VspcDataProvider] Computers total size: ${(computersTotalSizeBytes / (1024 ** 4)).toFixed(2)} TB (from ${companyBackups.length} backups)`);
+      }
+      const computersTotalSizeTB = computersTotalSizeBytes / (1024 ** 4);
+
+      // VB365 API doesn't return size information
+      const vb365TotalSizeTB = 0;
+
+      console.log(`[VspcDataProvider] Sizes - VMs: ${vmTotalSizeTB.toFixed(1)} TB, Computers: ${computersTotalSizeTB.toFixed(2)} TB, VB365: N/A`);
+
+      return [
+        {
+          name: 'Computers',
+          quantity: companyComputers.length,
+          sizeGB: computersTotalSizeTB * 1024,
+          color: '#00B4D8',
+        },
+        {
+          name: 'Virtual Machines',
+          quantity: companyVMs.length,
+          sizeGB: vmTotalSizeTB * 1024,
+          color: '#90E0EF',
+        },
+        {
+          name: 'Cloud Instances',
+          quantity: 0,
+          sizeGB: 0,
+          color: '#0077B6',
+        },
+        {
+          name: 'Microsoft 365 Objects',
+          quantity: companyVB365.length,
+          sizeGB: vb365TotalSizeTB * 1024,
+          color: '#C77DFF',
+        },
+      ];
+    } catch (error) {
+      console.error('Error fetching protected workloads:', error);
+      throw error;
+    }
+  }
+
+  // Backup size of each VM (all backups) and computer (jobKind=Backup only), counted like getProtectedWorkloads
+  async getWorkloadSizes(companyId: string): Promise<WorkloadSizeRecord[]> {
+    const client = await this.getClient(companyId);
+
+    const [vms, computers] = await Promise.all([
+      client.fetchFiltered<any>('/api/v3/protectedWorkloads/virtualMachines', 'organizationUid', companyId),
+      client.fetchFiltered<any>('/api/v3/protectedWorkloads/computersManagedByBackupServer', 'organizationUid', companyId),
+    ]);
+    const companyVMs = vms.filter((vm: any) => vm.organizationUid === companyId);
+    const companyComputers = computers.filter((c: any) => c.organizationUid === companyId);
+
+    const sizes: WorkloadSizeRecord[] = [];
+
+    if (companyVMs.length > 0) {
+      const backups = await client.fetchAllPagesShared<any>('/api/v3/protectedWorkloads/virtualMachines/backups');
+      const bytes = new Map<string, number>();
+      for (const backup of backups) {
+        bytes.set(backup.virtualMachineUid, (bytes.get(backup.virtualMachineUid) || 0) + (backup.totalRestorePointSize || 0));
+      }
+      for (const vm of companyVMs) {
+        if (bytes.has(vm.instanceUid)) {
+          sizes.push({ workloadUid: vm.instanceUid, workloadName: vm.name || vm.instanceUid, workloadType: 'vm', sizeGB: bytes.get(vm.instanceUid)! / (1024 ** 3) });
+        }
+      }
+    }
+
+    if (companyComputers.length > 0) {
+      const backups = await client.fetchAllPagesShared<any>('/api/v3/protectedWorkloads/computersManagedByBackupServer/backups');
+      const bytes = new Map<string, number>();
+      for (const backup of backups.filter((b: any) => b.jobKind === 'Backup')) {
+        bytes.set(backup.backupAgentUid, (bytes.get(backup.backupAgentUid) || 0) + (backup.totalRestorePointSize || 0));
+      }
+      for (const computer of companyComputers) {
+        if (bytes.has(computer.instanceUid)) {
+          sizes.push({ workloadUid: computer.instanceUid, workloadName: computer.name || computer.instanceUid, workloadType: 'computer', sizeGB: bytes.get(computer.instanceUid)! / (1024 ** 3) });
+        }
+      }
+    }
+
+    return sizes;
+  }
+
+  // Primary backups (jobKind=Backup) of each VM and computer with the date of their newest restore point
+  async getWorkloadRestorePoints(companyId: string): Promise<WorkloadRestorePointRecord[]> {
+    const client = await this.getClient(companyId);
+
+    const [vms, computers] = await Promise.all([
+      client.fetchFiltered<any>('/api/v3/protectedWorkloads/virtualMachines', 'organizationUid', companyId),
+      client.fetchFiltered<any>('/api/v3/protectedWorkloads/computersManagedByBackupServer', 'organizationUid', companyId),
+    ]);
+    const companyVMs = vms.filter((vm: any) => vm.organizationUid === companyId);
+    const companyComputers = computers.filter((c: any) => c.organizationUid === companyId);
+
+    const [vmBackups, computerBackups] = await Promise.all([
+      companyVMs.length > 0 ? client.fetchAllPagesShared<any>('/api/v3/protectedWorkloads/virtualMachines/backups') : [],
+      companyComputers.length > 0 ? client.fetchAllPagesShared<any>('/api/v3/protectedWorkloads/computersManagedByBackupServer/backups') : [],
+    ]);
+
+    const records: WorkloadRestorePointRecord[] = [];
+    const addWorkloads = (workloads: any[], backups: any[], workloadType: 'vm' | 'computer', uidField: string) => {
+      const byWorkload = new Map<string, any[]>();
+      for (const backup of backups.filter((b: any) => b.jobKind === 'Backup')) {
+        byWorkload.set(backup[uidField], [...(byWorkload.get(backup[uidField]) || []), backup]);
+      }
+
+      for (const workload of workloads) {
+        const base = { workloadUid: workload.instanceUid, workloadName: workload.name || workload.instanceUid, workloadType };
+        const workloadBackups = byWorkload.get(workload.instanceUid) || [];
+        if (workloadBackups.length === 0) {
+          records.push(base);
+        }
+        for (const backup of workloadBackups) {
+          records.push({ ...base, jobUid: backup.jobUid, latestRestorePointDate: backup.latestRestorePointDate });
+        }
+      }
+    };
+
+    addWorkloads(companyVMs, vmBackups, 'vm', 'virtualMachineUid');
+    addWorkloads(companyComputers, computerBackups, 'computer', 'backupAgentUid');
+    return records;
+  }
+
+  async getRepositories(companyId: string): Promise<VeeamRepository[]> {
+    console.log(`[VspcDataProvider] Fetching repositories for company: ${companyId}`);
+    const client = await this.getClient(companyId);
+
+    const [backupServers, repositories, backupResources, backupResourcesUsage] = await Promise.all([
+      client.fetchFiltered<any>('/api/v3/infrastructure/backupServers', 'organizationUid', companyId),
+      client.fetchAllPagesShared<any>('/api/v3/infrastructure/backupServers/repositories'),
+      client.fetchFiltered<any>('/api/v3/organizations/companies/sites/backupResources', 'companyUid', companyId),
+      client.fetchFiltered<any>('/api/v3/organizations/companies/sites/backupResources/usage', 'companyUid', companyId),
+    ]);
+
+    // Repositories don't carry organizationUid, so match them through the company's backup servers
+    const companyServerUids = new Set(
+      backupServers
+        .filter((s: any) => s.organizationUid === companyId)
+        .map((s: any) => s.instanceUid)
+    );
+
+    const serverRepositories: VeeamRepository[] = repositories
+      .filter((repo: any) => companyServerUids.has(repo.backupServerUid))
+      .map((repo: any) => ({
+        instanceUid: repo.instanceUid || '',
+        name: repo.name || '',
+        type: 'BackupServer' as const,
+        capacity: repo.capacity || 0,
+        freeSpace: repo.freeSpace || 0,
+        usedSpace: repo.usedSpace ?? Math.max((repo.capacity || 0) - (repo.freeSpace || 0), 0),
+        path: repo.path || '',
+        isImmutable: !!repo.isImmutabilityEnabled,
+        isUnlimited: false,
+      }));
+
+    // Cloud Connect quotas live on the provider's repositories, which hold path and immutability
+    const repositoriesByUid = new Map(repositories.map((repo: any) => [repo.instanceUid, repo]));
+    const usageByResource = new Map(backupResourcesUsage.map((u: any) => [u.backupResourceUid, u]));
+
+    const tenantQuotas: VeeamRepository[] = backupResources
+      .filter((resource: any) => resource.companyUid === companyId)
+      .map((resource: any) => {
+        const usage: any = usageByResource.get(resource.instanceUid);
+        const repo: any = repositoriesByUid.get(resource.repositoryUid);
+        const capacity = usage?.storageQuota ?? resource.storageQuota ?? 0;
+        const usedSpace = usage?.usedStorageQuota || 0;
+
+        return {
+          instanceUid: resource.instanceUid || '',
+          name: resource.cloudRepositoryName || repo?.name || '',
+          type: 'CloudConnect' as const,
+          capacity,
+          freeSpace: Math.max(capacity - usedSpace, 0),
+          usedSpace,
+          path: repo?.path || 'Cloud Connect',
+          isImmutable: !!repo?.isImmutabilityEnabled,
+          isUnlimited: !!resource.isStorageQuotaUnlimited,
+        };
+      });
+
+    console.log(`[VspcDataProvider] Repositories - Backup server: ${serverRepositories.length}, Cloud Connect quotas: ${tenantQuotas.length}`);
+
+    return [...serverRepositories, ...tenantQuotas];
+  }
+
+  async getActiveAlarms(companyId: string): Promise<VeeamAlarm[]> {
+    console.log(`[VspcDataProvider] Fetching active alarms for company: ${companyId}`);
+    const client = await this.getClient(companyId);
+    
+    const alarms = await client.fetchAllPagesShared<VeeamAlarm>('/api/v3/alarms/active');
+    
+    console.log(`[VspcDataProvider] Total alarms fetched: ${alarms.length}`);
+    
+    const companyAlarms = alarms.filter(
+      (alarm) => alarm.object?.organizationUid === companyId
+    );
+    
+    console.log(`[VspcDataProvider] Company alarms: ${companyAlarms.length}`);
+    
+    companyAlarms.sort((a, b) => {
+      const dateA = new Date(a.lastActivation?.time || 0);
+      const dateB = new Date(b.lastActivation?.time || 0);
+      return dateB.getTime() - dateA.getTime();
+    });
+    
+    return companyAlarms;
+  }
+
+  // History comes from the daily snapshots collected into the database
+  async getSessionSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<SessionSnapshotRecord[]> {
+    return storage.getSessionSnapshots(companyId, startDate, endDate);
+  }
+
+  async getMonthlySessionTotals(companyId: string, startDate: Date, endDate: Date): Promise<MonthlySessionTotals[]> {
+    return storage.getMonthlySessionTotals(companyId, startDate, endDate);
+  }
+
+  async getCapacitySnapshots(companyId: string, startDate: Date, endDate: Date): Promise<CapacitySnapshotRecord[]> {
+    return storage.getCapacitySnapshots(companyId, startDate, endDate);
+  }
+
+  async getWorkloadSizeSnapshots(companyId: string, startDate: Date, endDate: Date): Promise<WorkloadSizeSnapshotRecord[]> {
+    return storage.getWorkloadSizeSnapshots(companyId, startDate, endDate);
+  }
+}
@@ -0,0 +1,47 @@
+// Errors raised by VspcClient, so callers can tell configuration problems from transient failures
+
+export type VspcErrorCode = 'auth' | 'not_found' | 'throttled' | 'unreachable' | 'api';
+
+export class VspcError extends Error {
+  constructor(
+    message: string,
+    readonly code: VspcErrorCode,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'VspcError';
+  }
+}
+
+// Invalid API key / credentials, or the account lacks access to the resource (401/403)
+export class VspcAuthError extends VspcError {
+  constructor(message: string, status?: number) {
+    super(message, 'auth', status);
+    this.name = 'VspcAuthError';
+  }
+}
+
+// Unknown endpoint or object, including companies not found in any configured instance
+export class VspcNotFoundError extends VspcError {
+  constructor(message: string) {
+    super(message, 'not_found', 404);
+    this.name = 'VspcNotFoundError';
+  }
+}
+
+// VSPC kept answering 429 after all retries
+export class VspcThrottledError extends VspcError {
+  constructor(message: string, readonly retryAfterSeconds?: number) {
+    super(message, 'throttled', 429);
+    this.name = 'VspcThrottledError';
+  }
+}
+
+// Timeouts, network failures and 5xx responses that persisted after all retries.
+// retryAfterSeconds is the Retry-After of a 503 (or other 5xx), if VSPC sent one
+export class VspcUnreachableError extends VspcError {
+  constructor(message: string, status?: number, readonly retryAfterSeconds?: number) {
+    super(message, 'unreachable', status);
+    this.name = 'VspcUnreachableError';
+  }
+}
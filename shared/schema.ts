@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, bigint, unique, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +8,22 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name").notNull(),
+  // Existing users keep full access when the column is added; new users get the role chosen on creation
+  role: text("role").$type<UserRole>().notNull().default("admin"),
+  // Entra ID object id of users provisioned or linked by single sign-on
+  ssoSubject: text("sso_subject").unique(),
+  // Customer portal: a user tied to a company (VSPC instanceUid) only sees that tenant, read-only.
+  // Null for the service provider's own team
+  companyId: text("company_id"),
+  // Two-factor authentication (TOTP): base32 secret, set once enrolment is confirmed; null when off
+  totpSecret: text("totp_secret"),
+  // SHA-256 hashes of the unused recovery codes
+  totpRecoveryCodes: jsonb("totp_recovery_codes").$type<string[]>().notNull().default([]),
+  // Time step of the last accepted code, so a code cannot be replayed within its validity window
+  totpLastStep: integer("totp_last_step"),
+  // Disabled users cannot log in; rows are kept because schedules reference them
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 export const emailSchedules = pgTable("email_schedules", {
@@ -37,6 +53,68 @@ export const sessionSnapshots = pgTable("session_snapshots", {
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Monthly totals of session_snapshots rows older than the retention period (see retention-service.ts)
+export const sessionMonthlyTotals = pgTable("session_monthly_totals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull(),
+  companyName: text("company_name").notNull(),
+  month: text("month").notNull(), // YYYY-MM
+  successCount: integer("success_count").notNull().default(0),
+  warningCount: integer("warning_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  totalCount: integer("total_count").notNull().default(0),
+  dayCount: integer("day_count").notNull().default(0), // daily rows rolled into this month
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("session_monthly_totals_company_month").on(table.companyId, table.month),
+]);
+
+// Daily protected-data capacity of a company, for growth history and forecasting
+export const capacitySnapshots = pgTable("capacity_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: timestamp("date").notNull(), // calendar day at UTC midnight (see server/timezone.ts)
+  companyId: text("company_id").notNull(),
+  companyName: text("company_name").notNull(),
+  workloads: jsonb("workloads").$type<CapacityWorkload[]>().notNull(),
+  totalSizeGB: doublePrecision("total_size_gb").notNull().default(0),
+  quotaGB: doublePrecision("quota_gb"), // Cloud Connect quota that day; null without a limited quota
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("capacity_snapshots_company_date").on(table.companyId, table.date),
+]);
+
+// Daily backup size of each protected VM and computer, the baseline of the size anomaly detector
+export const workloadSizeSnapshots = pgTable("workload_size_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: timestamp("date").notNull(), // calendar day at UTC midnight (see server/timezone.ts)
+  companyId: text("company_id").notNull(),
+  workloadUid: text("workload_uid").notNull(), // VSPC virtualMachineUid or backupAgentUid
+  workloadName: text("workload_name").notNull(),
+  workloadType: text("workload_type").$type<WorkloadSizeType>().notNull(),
+  sizeGB: doublePrecision("size_gb").notNull().default(0), // sum of totalRestorePointSize of its backups
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("workload_size_snapshots_company_workload_date").on(table.companyId, table.workloadUid, table.date),
+]);
+
+// Job runs seen in VSPC; session_snapshots are the daily rollup of these rows
+export const jobSessions = pgTable("job_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // VSPC has no session id: job instanceUid + start time identifies one run
+  sessionUid: text("session_uid").notNull().unique(),
+  companyId: text("company_id").notNull(),
+  jobUid: text("job_uid").notNull(),
+  jobName: text("job_name").notNull(),
+  jobType: text("job_type").notNull(),
+  result: text("result").notNull(), // Success, Warning, Failed
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time"),
+  durationSeconds: integer("duration_seconds").notNull().default(0),
+  transferredBytes: bigint("transferred_bytes", { mode: "number" }).notNull().default(0),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 // Report schedules for automated email reports
 export const reportSchedules = pgTable("report_schedules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -73,12 +151,97 @@ export const scheduleRuns = pgTable("schedule_runs", {
   completedAt: timestamp("completed_at"),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+// One session collection attempt per company (SchedulerService, every SNAPSHOT_COLLECTION_INTERVAL_MINUTES)
+export const collectionRuns = pgTable("collection_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull(),
+  companyName: text("company_name").notNull(),
+  status: text("status").notNull(), // 'running', 'success', 'failed'
+  sessionCount: integer("session_count").notNull().default(0),
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at").notNull().default(sql`now()`),
+  completedAt: timestamp("completed_at"),
+});
+
+// VSPC servers the dashboard aggregates (in addition to the VEEAM_API_URL from .env)
+export const vspcInstances = pgTable("vspc_instances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  apiUrl: text("api_url").notNull(),
+  apiKey: text("api_key"),
+  username: text("username"),
+  password: text("password"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Local settings of the VSPC companies (the companies themselves live in VSPC)
+export const companySettings = pgTable("company_settings", {
+  companyId: text("company_id").primaryKey(),
+  timezone: text("timezone"), // IANA name, e.g. "America/Manaus"; null uses APP_TIMEZONE
+  contractedStorageGB: doublePrecision("contracted_storage_gb"), // null uses the Cloud Connect quota
+  rpoHours: integer("rpo_hours"), // null uses RPO_DEFAULT_HOURS
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// RPO targets of single jobs, overriding the company's target for the workloads they protect
+export const jobRpoTargets = pgTable("job_rpo_targets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  companyId: text("company_id").notNull(),
+  jobUid: text("job_uid").notNull(),
+  jobName: text("job_name").notNull(),
+  rpoHours: integer("rpo_hours").notNull(),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => [
+  unique("job_rpo_targets_company_job").on(table.companyId, table.jobUid),
+]);
+
+// Security rules per user role, edited by admins on the Usuários page; roles without a row use the defaults
+export const rolePolicies = pgTable("role_policies", {
+  role: text("role").$type<UserRole>().primaryKey(),
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Persisted VeeamService responses (optional, enabled with VEEAM_CACHE_PERSIST=true)
+export const veeamCache = pgTable("veeam_cache", {
+  key: text("key").primaryKey(),
+  companyId: text("company_id").notNull(),
+  data: jsonb("data").notNull(),
+  fetchedAt: timestamp("fetched_at").notNull(),
+});
+
+export const USER_ROLES = ['admin', 'operator', 'viewer'] as const;
+
+// Logins are e-mail addresses: the login form only accepts those
+export const usernameSchema = z.string().trim().email("O login deve ser um endereço de e-mail");
+
+// Every password set in the dashboard (new user, reset, change) follows the same rule
+export const PASSWORD_MIN_LENGTH = 10;
+export const passwordSchema = z.string().min(PASSWORD_MIN_LENGTH, `A senha deve ter no mínimo ${PASSWORD_MIN_LENGTH} caracteres`);
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: usernameSchema,
+  password: passwordSchema,
+  role: z.enum(USER_ROLES).optional(),
+}).pick({
   username: true,
   password: true,
   name: true,
+  role: true,
+  companyId: true,
 });
 
+export const updateUserSchema = createInsertSchema(users, {
+  role: z.enum(USER_ROLES),
+}).pick({
+  name: true,
+  role: true,
+  companyId: true,
+  isActive: true,
+}).partial();
+
 export const insertEmailScheduleSchema = createInsertSchema(emailSchedules).omit({
   id: true,
   createdAt: true,
@@ -89,6 +252,31 @@ export const insertSessionSnapshotSchema = createInsertSchema(sessionSnapshots).
   createdAt: true,
 });
 
+export const insertSessionMonthlyTotalsSchema = createInsertSchema(sessionMonthlyTotals).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCapacitySnapshotSchema = createInsertSchema(capacitySnapshots, {
+  workloads: z.array(z.object({ name: z.string(), quantity: z.number(), sizeGB: z.number() })),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWorkloadSizeSnapshotSchema = createInsertSchema(workloadSizeSnapshots, {
+  workloadType: z.enum(['vm', 'computer']),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJobSessionSchema = createInsertSchema(jobSessions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertReportScheduleSchema = createInsertSchema(reportSchedules).omit({
   id: true,
   createdAt: true,
@@ -105,18 +293,75 @@ export const insertScheduleRunSchema = createInsertSchema(scheduleRuns).omit({
   startedAt: true,
 });
 
+export const insertCollectionRunSchema = createInsertSchema(collectionRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+export const insertVspcInstanceSchema = createInsertSchema(vspcInstances).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCompanySettingsSchema = createInsertSchema(companySettings).omit({
+  updatedAt: true,
+});
+
+export const insertJobRpoTargetSchema = createInsertSchema(jobRpoTargets).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertVeeamCacheSchema = createInsertSchema(veeamCache);
+
+export const insertRolePolicySchema = createInsertSchema(rolePolicies, {
+  role: z.enum(USER_ROLES),
+}).omit({
+  updatedAt: true,
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+// admin: everything, including users, VSPC instances and company settings
+// operator: day-to-day work (schedules and recipients, collections, refresh, RPO targets of jobs)
+// viewer: read-only dashboards and reports
+export type UserRole = typeof USER_ROLES[number];
+// Users as returned by the API (no password hash or two-factor secrets)
+export type PublicUser = Omit<User, 'password' | 'totpSecret' | 'totpRecoveryCodes' | 'totpLastStep'> & {
+  twoFactorEnabled: boolean;
+};
+export type RolePolicy = typeof rolePolicies.$inferSelect;
+export type InsertRolePolicy = z.infer<typeof insertRolePolicySchema>;
 export type EmailSchedule = typeof emailSchedules.$inferSelect;
 export type InsertEmailSchedule = z.infer<typeof insertEmailScheduleSchema>;
 export type SessionSnapshot = typeof sessionSnapshots.$inferSelect;
 export type InsertSessionSnapshot = z.infer<typeof insertSessionSnapshotSchema>;
+export type SessionMonthlyTotals = typeof sessionMonthlyTotals.$inferSelect;
+export type InsertSessionMonthlyTotals = z.infer<typeof insertSessionMonthlyTotalsSchema>;
+export type CapacitySnapshot = typeof capacitySnapshots.$inferSelect;
+export type InsertCapacitySnapshot = z.infer<typeof insertCapacitySnapshotSchema>;
+export type WorkloadSizeSnapshot = typeof workloadSizeSnapshots.$inferSelect;
+export type InsertWorkloadSizeSnapshot = z.infer<typeof insertWorkloadSizeSnapshotSchema>;
+export type JobSession = typeof jobSessions.$inferSelect;
+export type InsertJobSession = z.infer<typeof insertJobSessionSchema>;
 export type ReportSchedule = typeof reportSchedules.$inferSelect;
 export type InsertReportSchedule = z.infer<typeof insertReportScheduleSchema>;
 export type ScheduleRecipient = typeof scheduleRecipients.$inferSelect;
 export type InsertScheduleRecipient = z.infer<typeof insertScheduleRecipientSchema>;
 export type ScheduleRun = typeof scheduleRuns.$inferSelect;
 export type InsertScheduleRun = z.infer<typeof insertScheduleRunSchema>;
+export type CollectionRun = typeof collectionRuns.$inferSelect;
+export type InsertCollectionRun = z.infer<typeof insertCollectionRunSchema>;
+export type VspcInstance = typeof vspcInstances.$inferSelect;
+export type InsertVspcInstance = z.infer<typeof insertVspcInstanceSchema>;
+export type CompanySettings = typeof companySettings.$inferSelect;
+export type InsertCompanySettings = z.infer<typeof insertCompanySettingsSchema>;
+export type JobRpoTarget = typeof jobRpoTargets.$inferSelect;
+export type InsertJobRpoTarget = z.infer<typeof insertJobRpoTargetSchema>;
+export type VeeamCacheEntry = typeof veeamCache.$inferSelect;
+export type InsertVeeamCacheEntry = z.infer<typeof insertVeeamCacheSchema>;
 
 // Veeam VSPC API Types (não armazenados no banco, apenas para type safety)
 export interface VeeamCompany {
@@ -124,6 +369,8 @@ export interface VeeamCompany {
   name: string;
   status: string;
   organizationType: string;
+  vspcInstanceId?: string;
+  vspcInstanceName?: string;
 }
 
 export interface VeeamBackupJob {
@@ -138,11 +385,15 @@ export interface VeeamBackupJob {
 }
 
 export interface VeeamRepository {
+  instanceUid: string;
   name: string;
+  type: 'BackupServer' | 'CloudConnect';
   capacity: number;
   freeSpace: number;
   usedSpace: number;
   path: string;
+  isImmutable: boolean;
+  isUnlimited: boolean;
 }
 
 export interface VeeamProtectedVM {
@@ -169,6 +420,9 @@ export interface ProtectedWorkload {
   color: string;
 }
 
+// Workload counts and sizes stored in capacity_snapshots
+export type CapacityWorkload = Pick<ProtectedWorkload, 'name' | 'quantity' | 'sizeGB'>;
+
 export interface DashboardMetrics {
   totalBackups: number;
   successRate: number;
@@ -195,6 +449,7 @@ export interface DataPlatformScorecard {
   statusMessage: string;
   jobSessions: ScorecardMetric;
   platformHealth: ScorecardMetric;
+  rpoCompliance: ScorecardMetric;
 }
 
 // Session States Calendar Types
@@ -216,11 +471,18 @@ export interface SessionStatesData {
 }
 
 // Monthly Charts Types
-export interface MonthlyChartData {
-  month: string;
+export interface MonthlyStatsValues {
   errors: number;
   warnings: number;
   successRate: number;
+  totalCount: number;
+}
+
+export interface MonthlyChartData extends MonthlyStatsValues {
+  month: string; // label, e.g. "Jan" or "Nov/25" in the rolling window
+  monthKey: string; // YYYY-MM
+  // Same month one year earlier, for the year-over-year comparison
+  previous: MonthlyStatsValues;
 }
 
 // Veeam Active Alarms Types
@@ -261,3 +523,167 @@ export interface FailedJob {
   description: string;
   lastSessionMessage: string;
 }
+
+// Data Status Types
+export type DataMode = 'live' | 'demo';
+
+export interface DataStatus {
+  mode: DataMode;
+  fetchedAt: string | null;
+  // Live data could not be refreshed; the values shown are the last ones fetched
+  degraded: boolean;
+  errors: string[];
+}
+
+// Collection Status Types
+export interface CompanyCollectionStatus {
+  companyId: string;
+  companyName: string;
+  lastRunAt: string;
+  lastStatus: string;
+  lastError: string | null;
+  lastSessionCount: number;
+  lastSuccessAt: string | null;
+}
+
+export interface CollectionStatus {
+  enabled: boolean;
+  intervalMinutes: number;
+  isCollecting: boolean;
+  lastCollectionAt: string | null;
+  companies: CompanyCollectionStatus[];
+}
+
+// Session History Backfill Types
+export interface BackfillProgress {
+  companyId: string;
+  status: 'running' | 'completed' | 'failed';
+  startDate: string;
+  endDate: string;
+  totalJobs: number;
+  processedJobs: number;
+  sessionCount: number;
+  daysFilled: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+// Company timezones: APP_TIMEZONE applies to companies without their own setting (and likewise
+// RPO_DEFAULT_HOURS for the RPO target)
+export interface CompanyTimezones {
+  defaultTimezone: string;
+  defaultRpoHours: number;
+  companies: CompanySettings[];
+}
+
+// Today's calendar day of a company (its timezone), so the browser picks the same days the server keys
+export interface CompanyToday {
+  timezone: string;
+  today: string; // YYYY-MM-DD
+}
+
+// Snapshot Retention Types
+export interface RetentionCompanyReport {
+  companyId: string;
+  companyName: string;
+  timezone: string;
+  cutoff: string; // YYYY-MM-DD in the company's timezone
+  months: string[]; // YYYY-MM rolled into session_monthly_totals
+  snapshotRows: number;
+  jobSessionRows: number;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  retentionDays: number;
+  // YYYY-MM-DD in APP_TIMEZONE; daily rows before this day are rolled up and purged. Companies in
+  // another timezone use their own cutoff (companies[].cutoff), which can differ by a month near midnight
+  cutoff: string;
+  companies: RetentionCompanyReport[];
+  snapshotRows: number;
+  jobSessionRows: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface RetentionStatus {
+  enabled: boolean;
+  retentionDays: number;
+  dryRun: boolean;
+  preview: RetentionReport | null;
+  lastRun: RetentionReport | null;
+}
+
+// Capacity History Types
+export interface CapacityHistoryPoint {
+  date: string; // YYYY-MM-DD
+  totalSizeGB: number;
+  workloads: CapacityWorkload[];
+}
+
+export interface CapacityTrend {
+  history: CapacityHistoryPoint[];
+  forecast: { date: string; sizeGB: number }[];
+  // Storage the customer pays for: set on the Empresas page, or the Cloud Connect quota
+  contractedGB: number | null;
+  contractedSource: 'settings' | 'quota' | null;
+  method: 'linear' | 'seasonal' | null; // null while history is too short to forecast
+  growthGBPerMonth: number | null;
+  exceedsOn: string | null; // YYYY-MM-DD the forecast crosses contractedGB (or the last day if already over)
+  hasData: boolean;
+}
+
+// Size Anomaly Types
+export type WorkloadSizeType = 'vm' | 'computer';
+
+export interface SizeAnomaly {
+  date: string; // YYYY-MM-DD
+  workloadUid: string;
+  workloadName: string;
+  workloadType: WorkloadSizeType;
+  sizeGB: number;
+  incrementGB: number; // growth since the previous day
+  baselineGB: number; // median daily growth of the preceding days
+  score: number; // distance from the baseline in robust standard deviations
+}
+
+export interface SizeAnomalyReport {
+  anomalies: SizeAnomaly[]; // newest first
+  days: number;
+  workloadCount: number;
+  notificationsEnabled: boolean;
+  hasData: boolean;
+}
+
+// RPO Compliance Types
+export interface RpoWorkloadStatus {
+  workloadUid: string;
+  workloadName: string;
+  workloadType: WorkloadSizeType;
+  jobUid: string | null; // job of the newest restore point
+  jobName: string | null;
+  latestRestorePointDate: string | null; // null when the workload has no restore point
+  rpoHours: number;
+  rpoSource: 'job' | 'company' | 'default';
+  ageHours: number | null;
+  compliant: boolean;
+}
+
+export interface RpoJob {
+  jobUid: string;
+  jobName: string;
+  rpoHours: number | null; // job target; null follows the company's
+  workloadCount: number;
+}
+
+export interface RpoCompliance {
+  rpoHours: number; // company target
+  rpoSource: 'company' | 'default';
+  percentage: number;
+  compliantCount: number;
+  violationCount: number;
+  workloads: RpoWorkloadStatus[]; // violations first, oldest restore point first
+  jobs: RpoJob[];
+  hasData: boolean;
+}